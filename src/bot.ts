@@ -11,9 +11,9 @@ import { Client, GatewayIntentBits, Events } from 'discord.js';
 import dotenv from 'dotenv';
 
 // Import our systems
-import { setupDatabase } from './database';
+import { setupDatabase, closeDatabase } from './database';
 import { setupCommands } from './commands';
-import { setupSystems } from './systems';
+import { setupSystems, cleanupSystems } from './systems';
 import { setupLogging } from './utils';
 import { writeHealthStatus } from './utils/healthcheck'; // Keep healthcheck in root for Docker
 
@@ -154,6 +154,9 @@ async function gracefulShutdown(signal: string): Promise<void> {
     // Update health status
     writeHealthStatus('offline', startTime);
     
+    // Stop systems while the client and database are still up, so they can save their state
+    await cleanupSystems();
+    
     // Destroy the Discord client
     await client.destroy();
     console.log('✅ Discord client destroyed');
@@ -161,6 +164,8 @@ async function gracefulShutdown(signal: string): Promise<void> {
     // Give a moment for cleanup
     await new Promise(resolve => setTimeout(resolve, 1000));
     
+    closeDatabase();
+    
     console.log('✅ Graceful shutdown complete');
     process.exit(0);
     
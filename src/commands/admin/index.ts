@@ -0,0 +1,475 @@
+/**
+ * Admin Commands for The Roommates Helper
+ * --------------------------------------
+ * Owner-only commands for running the bot itself
+ */
+
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  MessageFlags,
+  PermissionFlagsBits
+} from 'discord.js';
+import { BotCommand } from '../../types';
+import {
+  createSuccessEmbed,
+  createErrorEmbed,
+  isBotOwner,
+  logWithEmoji,
+  truncateString,
+  markCommandFailed
+} from '../../utils';
+import {
+  getAllSystems,
+  getSystemStatus,
+  enableSystem,
+  disableSystem,
+  restartSystem,
+  checkSystemHealth
+} from '../../systems';
+import { CommandUsageModel, CommandUsageStats } from '../../database/models/command-usage';
+import { createRotatedBackup, getBackupInterval, getBackupRetention } from '../../database/backups';
+
+//=============================================================================
+// SYSTEM COMMAND
+//=============================================================================
+
+// Every registered system, offered as choices so names can't be mistyped
+const systemChoices = getAllSystems().map(system => ({ name: system.name, value: system.name }));
+
+const systemCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('system')
+    .setDescription('Manage the bot\'s systems (bot owners only)')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List every system and whether it is running')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('enable')
+        .setDescription('Enable and start a system')
+        .addStringOption(option =>
+          option
+            .setName('name')
+            .setDescription('The system to enable')
+            .setRequired(true)
+            .addChoices(...systemChoices)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('disable')
+        .setDescription('Stop a system and disable it across restarts')
+        .addStringOption(option =>
+          option
+            .setName('name')
+            .setDescription('The system to disable')
+            .setRequired(true)
+            .addChoices(...systemChoices)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('restart')
+        .setDescription('Clean up and set up a system again')
+        .addStringOption(option =>
+          option
+            .setName('name')
+            .setDescription('The system to restart')
+            .setRequired(true)
+            .addChoices(...systemChoices)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('health')
+        .setDescription('Check the health of every system')
+    ) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!(await isBotOwner(interaction.client, interaction.user.id))) {
+      await interaction.reply({
+        content: 'Only the bot owners can manage systems.',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+
+    try {
+      switch (subcommand) {
+        case 'list':
+          await handleSystemList(interaction);
+          break;
+
+        case 'enable':
+        case 'disable':
+        case 'restart':
+          await handleSystemChange(interaction, subcommand);
+          break;
+
+        case 'health':
+          await handleSystemHealth(interaction);
+          break;
+
+        default:
+          await interaction.reply({
+            content: 'Unknown subcommand.',
+            flags: MessageFlags.Ephemeral
+          });
+      }
+
+    } catch (error) {
+      logWithEmoji('error', `Error in system command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+
+      const errorEmbed = createErrorEmbed(
+        'Error',
+        'There was an error managing the system.'
+      );
+
+      if (interaction.replied || interaction.deferred) {
+        await interaction.followUp({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
+    }
+  }
+};
+
+//=============================================================================
+// BOTSTATS COMMAND
+//=============================================================================
+
+// Commands need a few runs before their average time says much
+const MIN_USES_FOR_TIMING = 3;
+
+const botStatsCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('botstats')
+    .setDescription('Show how the bot is being used (bot owners only)')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('commands')
+        .setDescription('Most used, slowest and most failing commands')
+        .addStringOption(option =>
+          option
+            .setName('period')
+            .setDescription('Period to report on (defaults to the last 7 days)')
+            .setRequired(false)
+            .addChoices(
+              { name: 'Last 24 hours', value: '1' },
+              { name: 'Last 7 days', value: '7' },
+              { name: 'Last 30 days', value: '30' },
+              { name: 'Last 90 days', value: '90' },
+              { name: 'All time', value: 'all' }
+            )
+        )
+    ) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!(await isBotOwner(interaction.client, interaction.user.id))) {
+      await interaction.reply({
+        content: 'Only the bot owners can view bot statistics.',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    try {
+      switch (interaction.options.getSubcommand()) {
+        case 'commands':
+          await handleCommandStats(interaction);
+          break;
+
+        default:
+          await interaction.reply({
+            content: 'Unknown subcommand.',
+            flags: MessageFlags.Ephemeral
+          });
+      }
+
+    } catch (error) {
+      logWithEmoji('error', `Error in botstats command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+
+      const errorEmbed = createErrorEmbed(
+        'Error',
+        'There was an error loading bot statistics.'
+      );
+
+      if (interaction.replied || interaction.deferred) {
+        await interaction.followUp({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
+    }
+  }
+};
+
+//=============================================================================
+// BACKUP COMMAND
+//=============================================================================
+
+const backupCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('backup')
+    .setDescription('Back up the bot\'s database (bot owners only)')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('now')
+        .setDescription('Take a backup right away')
+    ) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!(await isBotOwner(interaction.client, interaction.user.id))) {
+      await interaction.reply({
+        content: 'Only the bot owners can back up the database.',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    try {
+      switch (interaction.options.getSubcommand()) {
+        case 'now':
+          await handleBackupNow(interaction);
+          break;
+
+        default:
+          await interaction.reply({
+            content: 'Unknown subcommand.',
+            flags: MessageFlags.Ephemeral
+          });
+      }
+
+    } catch (error) {
+      logWithEmoji('error', `Error in backup command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+
+      const errorEmbed = createErrorEmbed(
+        'Backup Failed',
+        'There was an error backing up the database. Check the logs for details.'
+      );
+
+      if (interaction.replied || interaction.deferred) {
+        await interaction.editReply({ embeds: [errorEmbed] });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
+    }
+  }
+};
+
+//=============================================================================
+// SUBCOMMAND HANDLERS
+//=============================================================================
+
+async function handleSystemList(interaction: ChatInputCommandInteraction): Promise<void> {
+  const lines = getSystemStatus().map(system => {
+    const state = !system.enabled ? '⚪ Disabled' : system.active ? '🟢 Running' : '🔴 Not running';
+    const details = [
+      system.critical ? 'critical' : null,
+      system.dependencies.length > 0 ? `needs ${system.dependencies.join(', ')}` : null
+    ].filter(Boolean).join(', ');
+
+    return `**${system.name}**: ${state}${details ? ` (${details})` : ''}`;
+  });
+
+  const embed = new EmbedBuilder()
+    .setTitle('⚙️ Bot Systems')
+    .setColor(0x0099FF)
+    .setDescription(lines.join('\n'))
+    .setFooter({ text: 'Enabled state persists across restarts' })
+    .setTimestamp();
+
+  await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+}
+
+async function handleSystemChange(
+  interaction: ChatInputCommandInteraction,
+  action: 'enable' | 'disable' | 'restart'
+): Promise<void> {
+  const name = interaction.options.getString('name', true);
+
+  // Setup can take a while, e.g. restoring verifications
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const result = action === 'enable'
+    ? await enableSystem(interaction.client, name, interaction.user.id)
+    : action === 'disable'
+      ? await disableSystem(name, interaction.user.id)
+      : await restartSystem(interaction.client, name);
+
+  const title = `System ${action.charAt(0).toUpperCase() + action.slice(1)}`;
+
+  await interaction.editReply({
+    embeds: [result.success ? createSuccessEmbed(title, result.message) : createErrorEmbed(title, result.message)]
+  });
+
+  logWithEmoji(result.success ? 'info' : 'warn',
+    `System ${action} of ${name} by ${interaction.user.tag}: ${result.message}`,
+    'Systems'
+  );
+}
+
+async function handleSystemHealth(interaction: ChatInputCommandInteraction): Promise<void> {
+  const health = await checkSystemHealth();
+
+  const statusIcons = { healthy: '🟢', unhealthy: '🔴', disabled: '⚪' };
+
+  const embed = new EmbedBuilder()
+    .setTitle(`⚙️ System Health: ${health.healthy ? 'Healthy' : 'Degraded'}`)
+    .setColor(health.healthy ? 0x00FF00 : 0xFF0000)
+    .setDescription(
+      health.systems.map(system =>
+        `${statusIcons[system.status]} **${system.name}**: ${system.status}` +
+        (system.status === 'healthy' ? ` (${system.listeners} listener${system.listeners !== 1 ? 's' : ''})` : '')
+      ).join('\n')
+    )
+    .addFields(
+      { name: 'Process Started', value: `<t:${Math.floor((Date.now() - process.uptime() * 1000) / 1000)}:R>`, inline: true },
+      { name: 'Memory', value: `${Math.round(process.memoryUsage().rss / 1024 / 1024)} MB`, inline: true },
+      { name: 'Gateway Ping', value: `${interaction.client.ws.ping}ms`, inline: true }
+    )
+    .setTimestamp();
+
+  await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+}
+
+async function handleCommandStats(interaction: ChatInputCommandInteraction): Promise<void> {
+  const period = interaction.options.getString('period') || '7';
+  const since = period === 'all' ? undefined : new Date(Date.now() - parseInt(period, 10) * 24 * 60 * 60 * 1000);
+
+  const [stats, totals] = await Promise.all([
+    CommandUsageModel.getStats(since),
+    CommandUsageModel.getTotals(since)
+  ]);
+
+  const periodLabel = period === 'all' ? 'all time' : period === '1' ? 'the last 24 hours' : `the last ${period} days`;
+
+  const embed = new EmbedBuilder()
+    .setTitle('📊 Command Usage')
+    .setColor(0x0099FF)
+    .setFooter({ text: `Covering ${periodLabel}` })
+    .setTimestamp();
+
+  if (totals.uses === 0) {
+    embed.setDescription('No commands have been run in this period.');
+    await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  embed.setDescription(
+    `**${totals.uses}** execution${totals.uses !== 1 ? 's' : ''} by **${totals.unique_users}** ` +
+    `user${totals.unique_users !== 1 ? 's' : ''}, ` +
+    `**${totals.failures}** failed (${formatRate(totals.failures, totals.uses)})`
+  );
+
+  const slowest = stats
+    .filter(row => row.uses >= MIN_USES_FOR_TIMING)
+    .sort((a, b) => b.avg_execution_time - a.avg_execution_time)
+    .slice(0, 5);
+
+  const failing = stats
+    .filter(row => row.failures > 0)
+    .sort((a, b) => b.failures - a.failures || b.failures / b.uses - a.failures / a.uses)
+    .slice(0, 5);
+
+  embed.addFields(
+    {
+      name: 'Most Used',
+      value: stats.slice(0, 10).map(row =>
+        `${formatCommandName(row)}: ${row.uses} use${row.uses !== 1 ? 's' : ''} by ${row.unique_users}`
+      ).join('\n')
+    },
+    {
+      name: 'Slowest',
+      value: slowest.length > 0
+        ? slowest.map(row =>
+            `${formatCommandName(row)}: ${Math.round(row.avg_execution_time)}ms avg, ${row.max_execution_time}ms max`
+          ).join('\n')
+        : `No command has run ${MIN_USES_FOR_TIMING} times yet.`
+    },
+    {
+      name: 'Most Failing',
+      value: failing.length > 0
+        ? failing.map(row =>
+            `${formatCommandName(row)}: ${row.failures}/${row.uses} (${formatRate(row.failures, row.uses)})` +
+            (row.last_error ? `\n└ ${truncateString(row.last_error, 80)}` : '')
+          ).join('\n')
+        : 'No failures 🎉'
+    }
+  );
+
+  await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+}
+
+async function handleBackupNow(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const result = await createRotatedBackup();
+  const retention = getBackupRetention();
+  const interval = getBackupInterval();
+
+  const embed = createSuccessEmbed('Backup Complete', `Saved to \`${result.path}\``)
+    .addFields(
+      { name: 'Size', value: formatFileSize(result.size), inline: true },
+      { name: 'Old Backups Removed', value: `${result.removed.length}`, inline: true },
+      {
+        name: 'Schedule',
+        value: interval > 0 ? `Every ${interval} hour${interval !== 1 ? 's' : ''}` : 'Off',
+        inline: true
+      },
+      {
+        name: 'Retention',
+        value: `Last ${retention.keepLast}, plus the newest of each of the last ` +
+          `${retention.keepDaily} days and ${retention.keepWeekly} weeks`
+      }
+    );
+
+  await interaction.editReply({ embeds: [embed] });
+
+  logWithEmoji('info', `Manual backup by ${interaction.user.tag}: ${result.path}`, 'Commands');
+}
+
+//=============================================================================
+// HELPERS
+//=============================================================================
+
+function formatCommandName(row: CommandUsageStats): string {
+  return `\`/${row.command_name}${row.subcommand ? ` ${row.subcommand}` : ''}\``;
+}
+
+function formatRate(part: number, total: number): string {
+  return `${total > 0 ? Math.round((part / total) * 100) : 0}%`;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  return `${(bytes / 1024).toFixed(2)} KB`;
+}
+
+//=============================================================================
+// EXPORTS
+//=============================================================================
+
+export const adminCommands: BotCommand[] = [
+  systemCommand,
+  botStatsCommand,
+  backupCommand
+];
+
+// Export individual commands for testing or direct use
+export {
+  systemCommand,
+  botStatsCommand,
+  backupCommand
+};
@@ -4,14 +4,16 @@
  * Centralized command registration and handling system
  */
 
-import { Client, REST, Routes, Events, Collection } from 'discord.js';
+import { Client, REST, Routes, Events, Collection, ChatInputCommandInteraction } from 'discord.js';
 import { BotCommand } from '../types';
-import { logWithEmoji } from '../utils';
+import { logWithEmoji, getCommandFailure } from '../utils';
+import { CommandUsageModel } from '../database/models/command-usage';
 
 // Import command categories (we'll create these next)
 import { moderationCommands } from './moderation';
 import { utilityCommands } from './utility';
 import { verificationCommands } from './verification';
+import { adminCommands } from './admin';
 
 //=============================================================================
 // COMMAND COLLECTIONS
@@ -21,7 +23,8 @@ import { verificationCommands } from './verification';
 const allCommands: BotCommand[] = [
   ...moderationCommands,
   ...utilityCommands,
-  ...verificationCommands
+  ...verificationCommands,
+  ...adminCommands
 ];
 
 // Create a collection for quick command lookup
@@ -132,6 +135,10 @@ function setupCommandHandlers(client: Client): void {
       return;
     }
     
+    const startTime = Date.now();
+    let executionTime = 0;
+    let failure: unknown = null;
+    
     try {
       // Log command usage
       logWithEmoji('info', 
@@ -141,6 +148,10 @@ function setupCommandHandlers(client: Client): void {
       
       // Execute the command
       await command.execute(interaction);
+      executionTime = Date.now() - startTime;
+      
+      // Most commands answer their own errors, marking the run as failed instead of throwing
+      failure = getCommandFailure(interaction);
       
       // Set cooldown if applicable
       if (command.cooldown) {
@@ -148,6 +159,9 @@ function setupCommandHandlers(client: Client): void {
       }
       
     } catch (error) {
+      executionTime = Date.now() - startTime;
+      failure = error;
+      
       logWithEmoji('error', 
         `Error executing command ${commandName}: ${error}`,
         'Commands'
@@ -166,6 +180,8 @@ function setupCommandHandlers(client: Client): void {
         logWithEmoji('error', `Failed to send error message: ${replyError}`, 'Commands');
       }
     }
+    
+    await recordCommandUsage(interaction, executionTime, failure);
   });
   
   logWithEmoji('success', 'Command interaction handlers registered', 'Commands');
@@ -251,11 +267,12 @@ export function getAllCommands(): BotCommand[] {
 /**
  * Get commands by category
  */
-export function getCommandsByCategory(category: 'moderation' | 'utility' | 'verification'): BotCommand[] {
+export function getCommandsByCategory(category: 'moderation' | 'utility' | 'verification' | 'admin'): BotCommand[] {
   switch (category) {
     case 'moderation': return moderationCommands;
     case 'utility': return utilityCommands;
     case 'verification': return verificationCommands;
+    case 'admin': return adminCommands;
     default: return [];
   }
 }
@@ -281,6 +298,39 @@ export function trackCommandUsage(commandName: string): void {
   commandStats.set(commandName, currentCount + 1);
 }
 
+/**
+ * Record a command execution in the command_usage table
+ * A run failed if the command threw or marked it failed with markCommandFailed
+ */
+async function recordCommandUsage(
+  interaction: ChatInputCommandInteraction,
+  executionTime: number,
+  failure: unknown
+): Promise<void> {
+  trackCommandUsage(interaction.commandName);
+  
+  const group = interaction.options.getSubcommandGroup(false);
+  const subcommand = interaction.options.getSubcommand(false);
+  
+  try {
+    await CommandUsageModel.record({
+      command_name: interaction.commandName,
+      subcommand: [group, subcommand].filter(Boolean).join(' ') || undefined,
+      user_id: interaction.user.id,
+      guild_id: interaction.guildId || undefined,
+      channel_id: interaction.channelId || undefined,
+      success: failure === null,
+      error_message: failure === null
+        ? undefined
+        : (failure instanceof Error ? failure.message : String(failure)).slice(0, 500),
+      execution_time_ms: executionTime
+    });
+  } catch (error) {
+    // Losing a usage row must never break command handling
+    logWithEmoji('error', `Failed to record usage of ${interaction.commandName}: ${error}`, 'Commands');
+  }
+}
+
 /**
  * Get command usage statistics
  */
@@ -308,5 +358,6 @@ export {
   moderationCommands,
   utilityCommands,
   verificationCommands,
+  adminCommands,
   commandCollection
 };
@@ -10,6 +10,8 @@ import {
   EmbedBuilder,
   MessageFlags,
   PermissionFlagsBits,
+  SlashCommandSubcommandBuilder,
+  AttachmentBuilder,
   User,
   GuildMember
 } from 'discord.js';
@@ -21,8 +23,83 @@ import {
   createInfoEmbed,
   logWithEmoji,
   parseDuration,
-  formatDuration
+  formatDuration,
+  truncateString,
+  markCommandFailed
 } from '../../utils';
+import {
+  getModConfig,
+  isProtectedMember,
+  warnUser,
+  muteUser,
+  banUser,
+  applyWarningTtl,
+  buildModLogEmbed,
+  getCase,
+  editCaseReason,
+  voidCase,
+  buildAppealQueuePage
+} from '../../systems/moderation';
+import {
+  ModConfig,
+  ModConfigModel,
+  InfractionModel,
+  InfractionEditModel,
+  EscalationStepModel,
+  EscalationStep,
+  Infraction,
+  getUserInfractionSummary
+} from '../../database/models/legacy-models';
+import { fromDatabaseTimestamp } from '../../database';
+import { buildLoggerCommand, handleLoggerCommand } from '../../systems/logging';
+import { flushActivity, getServerActivity, ServerActivityStats } from '../../systems/activity';
+import { renderChart, ChartOptions, CHART_COLORS } from '../../utils/chart';
+
+//=============================================================================
+// HELPERS
+//=============================================================================
+
+/**
+ * Get the guild's mod config, replying with an error if the system is disabled
+ */
+async function requireModerationEnabled(interaction: ChatInputCommandInteraction): Promise<ModConfig | null> {
+  const config = await getModConfig(interaction.guild!);
+
+  if (!config.enabled) {
+    await interaction.reply({
+      content: 'The moderation system is not enabled in this server. An administrator can enable it with `/modconfig enable`.',
+      flags: MessageFlags.Ephemeral
+    });
+    return null;
+  }
+
+  return config;
+}
+
+/**
+ * Describe whether an infraction still applies, lapsed through its expiry, or was lifted
+ */
+function getInfractionState(infraction: Infraction): 'Active' | 'Expired' | 'Inactive' {
+  const lapsed = !!infraction.expires_at && fromDatabaseTimestamp(infraction.expires_at).getTime() <= Date.now();
+  
+  if (infraction.active && !lapsed) return 'Active';
+  return lapsed ? 'Expired' : 'Inactive';
+}
+
+/**
+ * Resolve a user ID to a tag for display, falling back to the raw ID
+ */
+async function resolveUserTag(interaction: ChatInputCommandInteraction, userId: string): Promise<string> {
+  if (userId === 'System') return userId;
+
+  try {
+    const user = await interaction.client.users.fetch(userId);
+    return user.tag;
+  } catch (error) {
+    // Just use the ID if we can't fetch the user
+    return userId;
+  }
+}
 
 //=============================================================================
 // WARN COMMAND
@@ -83,33 +160,50 @@ const warnCommand: BotCommand = {
     }
     
     try {
-      // TODO: Implement actual warning system with database
-      // For now, just show success message
+      const config = await requireModerationEnabled(interaction);
+      if (!config) return;
+      
+      if (await isProtectedMember(interaction.guild, user.id, config)) {
+        await interaction.reply({
+          content: 'You cannot warn a moderator.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      // Defer the reply since escalation, the DM and the mod log can take a moment
+      await interaction.deferReply(silent ? { flags: MessageFlags.Ephemeral } : {});
+      
+      await warnUser(interaction.client, interaction.guild, user.id, reason, interaction.user.id, !silent);
       
       logWithEmoji('info', 
         `Warning issued to ${user.tag} by ${interaction.user.tag}: ${reason}`,
         'Moderation'
       );
       
+      const activeWarnings = (await InfractionModel.getActiveWarningsByUser(interaction.guild.id, user.id)).length;
+      
       const embed = createSuccessEmbed(
         'Warning Issued',
-        `⚠️ Warning issued to ${user.toString()} for: ${reason}`
+        `⚠️ Warning issued to ${user.toString()} for: ${reason}\nThis user now has ${activeWarnings} active warning(s).`
       );
       
-      await interaction.reply({
-        embeds: [embed],
-        ephemeral: silent
-      });
+      await interaction.editReply({ embeds: [embed] });
       
     } catch (error) {
       logWithEmoji('error', `Error in warn command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
         'There was an error issuing the warning.'
       );
       
-      await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      if (interaction.deferred) {
+        await interaction.editReply({ embeds: [errorEmbed] });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
     }
   }
 };
@@ -172,19 +266,58 @@ const muteCommand: BotCommand = {
       return;
     }
     
-    // Parse duration
-    const duration = parseDuration(durationStr);
-    if (duration.milliseconds <= 0) {
-      await interaction.reply({
-        content: 'Invalid duration. Please use a format like 1h, 30m, or 1d.',
-        flags: MessageFlags.Ephemeral
-      });
-      return;
-    }
-    
     try {
-      // TODO: Implement actual mute system
-      // For now, just show success message
+      const config = await requireModerationEnabled(interaction);
+      if (!config) return;
+      
+      if (!config.muted_role_id) {
+        await interaction.reply({
+          content: 'No muted role has been configured. An administrator can set one with `/modconfig mutedrole`.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      if (await isProtectedMember(interaction.guild, user.id, config)) {
+        await interaction.reply({
+          content: 'You cannot mute a moderator.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      // Parse duration
+      const duration = parseDuration(durationStr);
+      if (duration.milliseconds <= 0) {
+        await interaction.reply({
+          content: 'Invalid duration. Please use a format like 1h, 30m, or 1d.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      // Defer the reply since muting might take a moment
+      await interaction.deferReply();
+      
+      const mute = await muteUser(
+        interaction.client,
+        interaction.guild,
+        user.id,
+        reason,
+        interaction.user.id,
+        duration.milliseconds
+      );
+      
+      if (!mute) {
+        markCommandFailed(interaction, 'Mute was refused by Discord or the user was not found');
+        await interaction.editReply({
+          embeds: [createErrorEmbed(
+            'Mute Failed',
+            `Failed to mute ${user.toString()}. They may not be in the server or I may not have permission.`
+          )]
+        });
+        return;
+      }
       
       logWithEmoji('info', 
         `Mute issued to ${user.tag} by ${interaction.user.tag} for ${duration.humanReadable}: ${reason}`,
@@ -196,17 +329,22 @@ const muteCommand: BotCommand = {
         `🔇 ${user.toString()} has been muted for ${duration.humanReadable}.\nReason: ${reason}`
       );
       
-      await interaction.reply({ embeds: [embed] });
+      await interaction.editReply({ embeds: [embed] });
       
     } catch (error) {
       logWithEmoji('error', `Error in mute command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
         'There was an error muting the user.'
       );
       
-      await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      if (interaction.deferred) {
+        await interaction.editReply({ embeds: [errorEmbed] });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
     }
   }
 };
@@ -245,6 +383,12 @@ const banCommand: BotCommand = {
         .setRequired(false)
         .setMinValue(0)
         .setMaxValue(7)
+    )
+    .addStringOption(option => 
+      option
+        .setName('duration')
+        .setDescription('Duration for a temporary ban (e.g., 1d, 1w). Leave empty for permanent')
+        .setRequired(false)
     ) as SlashCommandBuilder,
     
   async execute(interaction: ChatInputCommandInteraction) {
@@ -260,6 +404,7 @@ const banCommand: BotCommand = {
     const reason = interaction.options.getString('reason')!;
     const allowAppeal = interaction.options.getBoolean('allow_appeal') ?? true;
     const deleteDays = interaction.options.getInteger('delete_days') ?? 0;
+    const durationStr = interaction.options.getString('duration');
     
     // Validate user
     if (user.bot) {
@@ -279,30 +424,79 @@ const banCommand: BotCommand = {
     }
     
     try {
-      // TODO: Implement actual ban system
-      // For now, just show success message
+      const config = await requireModerationEnabled(interaction);
+      if (!config) return;
+      
+      if (await isProtectedMember(interaction.guild, user.id, config)) {
+        await interaction.reply({
+          content: 'You cannot ban a moderator.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      // Parse duration for temporary bans
+      const duration = durationStr ? parseDuration(durationStr) : null;
+      if (duration && duration.milliseconds <= 0) {
+        await interaction.reply({
+          content: 'Invalid duration. Please use a format like 1h, 1d, or 1w.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      // Defer the reply since banning might take a moment
+      await interaction.deferReply();
+      
+      const ban = await banUser(
+        interaction.client,
+        interaction.guild,
+        user.id,
+        reason,
+        interaction.user.id,
+        allowAppeal,
+        deleteDays,
+        duration?.milliseconds ?? 0
+      );
+      
+      if (!ban) {
+        markCommandFailed(interaction, 'Ban was refused by Discord or the user was not found');
+        await interaction.editReply({
+          embeds: [createErrorEmbed(
+            'Ban Failed',
+            `Failed to ban ${user.toString()}. I may not have permission.`
+          )]
+        });
+        return;
+      }
       
       logWithEmoji('info', 
-        `Ban issued to ${user.tag} by ${interaction.user.tag}: ${reason}`,
+        `Ban issued to ${user.tag} by ${interaction.user.tag}${duration ? ` for ${duration.humanReadable}` : ''}: ${reason}`,
         'Moderation'
       );
       
+      const canAppeal = allowAppeal && config.allow_appeals;
       const embed = createSuccessEmbed(
         'User Banned',
-        `🔨 ${user.toString()} has been banned.\nReason: ${reason}${allowAppeal ? '\n\nThis user can appeal their ban.' : ''}`
+        `🔨 ${user.toString()} has been banned${duration ? ` for ${duration.humanReadable}` : ''}.\nReason: ${reason}${canAppeal ? '\n\nThis user can appeal their ban.' : ''}`
       );
       
-      await interaction.reply({ embeds: [embed] });
+      await interaction.editReply({ embeds: [embed] });
       
     } catch (error) {
       logWithEmoji('error', `Error in ban command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
         'There was an error banning the user.'
       );
       
-      await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      if (interaction.deferred) {
+        await interaction.editReply({ embeds: [errorEmbed] });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
     }
   }
 };
@@ -335,20 +529,65 @@ const warningsCommand: BotCommand = {
     const user = interaction.options.getUser('user')!;
     
     try {
-      // TODO: Implement actual warning lookup from database
-      // For now, show placeholder
+      const config = await requireModerationEnabled(interaction);
+      if (!config) return;
+      
+      const warnings = await InfractionModel.getWarningsByUser(interaction.guild.id, user.id);
+      
+      if (warnings.length === 0) {
+        const embed = new EmbedBuilder()
+          .setTitle(`Warnings for ${user.tag}`)
+          .setColor(0xFFCC00)
+          .setDescription(`${user.toString()} has no warnings on record.`)
+          .setThumbnail(user.displayAvatarURL())
+          .setTimestamp();
+        
+        await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+        return;
+      }
+      
+      const activeWarnings = warnings.filter(warning => getInfractionState(warning) === 'Active').length;
       
       const embed = new EmbedBuilder()
         .setTitle(`Warnings for ${user.tag}`)
         .setColor(0xFFCC00)
-        .setDescription(`${user.toString()} has no warnings on record.`)
+        .setDescription(`${user.toString()} has ${warnings.length} total warnings (${activeWarnings} active).`)
         .setThumbnail(user.displayAvatarURL())
         .setTimestamp();
       
+      // Limit to 10 to stay within Discord's embed limits
+      const recentWarnings = warnings.slice(0, 10);
+      
+      for (let i = 0; i < recentWarnings.length; i++) {
+        const warning = recentWarnings[i];
+        const moderatorName = await resolveUserTag(interaction, warning.moderator_id);
+        const issuedAt = Math.floor(fromDatabaseTimestamp(warning.timestamp).getTime() / 1000);
+        const state = getInfractionState(warning);
+        
+        let expiry = '';
+        if (warning.expires_at && state !== 'Inactive') {
+          const expiresAt = Math.floor(fromDatabaseTimestamp(warning.expires_at).getTime() / 1000);
+          expiry = `\n**${state === 'Expired' ? 'Expired' : 'Expires'}:** <t:${expiresAt}:R>`;
+        }
+        
+        embed.addFields({
+          name: `Warning ${i + 1} (${state})`,
+          value: `**Reason:** ${warning.reason}\n**Moderator:** ${moderatorName}\n**Date:** <t:${issuedAt}:F>${expiry}\n**ID:** ${warning.id}`
+        });
+      }
+      
+      if (warnings.length > 10) {
+        embed.addFields({
+          name: 'Note',
+          value: `Showing 10 most recent warnings. ${warnings.length - 10} more warnings not shown.`
+        });
+      }
+      
       await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
       
     } catch (error) {
       logWithEmoji('error', `Error in warnings command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
@@ -405,6 +644,133 @@ const modConfigCommand: BotCommand = {
             .setDescription('The role to use for muted users')
             .setRequired(true)
         )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('modrole')
+        .setDescription('Set the moderator role')
+        .addRoleOption(option => 
+          option
+            .setName('role')
+            .setDescription('The role to use for moderators')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('appealchannel')
+        .setDescription('Set the appeal channel')
+        .addChannelOption(option => 
+          option
+            .setName('channel')
+            .setDescription('The channel to use for ban appeals')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('dmnotifications')
+        .setDescription('Toggle DM notifications')
+        .addBooleanOption(option => 
+          option
+            .setName('enabled')
+            .setDescription('Whether to send DM notifications to users')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('threshold')
+        .setDescription('Set warning threshold before punishment')
+        .addIntegerOption(option => 
+          option
+            .setName('count')
+            .setDescription('Number of warnings before escalation (default: 3)')
+            .setRequired(true)
+            .setMinValue(1)
+            .setMaxValue(10)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('appeals')
+        .setDescription('Toggle whether users can appeal infractions')
+        .addBooleanOption(option => 
+          option
+            .setName('enabled')
+            .setDescription('Whether to allow appeals')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('warningttl')
+        .setDescription('Set how long warnings count before they expire')
+        .addIntegerOption(option => 
+          option
+            .setName('days')
+            .setDescription('Days before a warning expires (0 to never expire)')
+            .setRequired(true)
+            .setMinValue(0)
+            .setMaxValue(365)
+        )
+    )
+    .addSubcommandGroup(group => 
+      group
+        .setName('escalation')
+        .setDescription('Configure the escalation ladder applied to warnings')
+        .addSubcommand(subcommand => 
+          subcommand
+            .setName('add')
+            .setDescription('Add or replace an escalation step')
+            .addIntegerOption(option => 
+              option
+                .setName('warnings')
+                .setDescription('Number of active warnings that triggers this step')
+                .setRequired(true)
+                .setMinValue(1)
+                .setMaxValue(50)
+            )
+            .addStringOption(option => 
+              option
+                .setName('action')
+                .setDescription('The punishment to apply')
+                .setRequired(true)
+                .addChoices(
+                  { name: 'Mute', value: 'MUTE' },
+                  { name: 'Ban', value: 'BAN' }
+                )
+            )
+            .addStringOption(option => 
+              option
+                .setName('duration')
+                .setDescription('Mute or ban duration (e.g., 1h, 1d). Leave empty for permanent')
+                .setRequired(false)
+            )
+            .addBooleanOption(option => 
+              option
+                .setName('allow_appeal')
+                .setDescription('Whether a ban from this step can be appealed (default: true)')
+                .setRequired(false)
+            )
+        )
+        .addSubcommand(subcommand => 
+          subcommand
+            .setName('remove')
+            .setDescription('Remove an escalation step')
+            .addIntegerOption(option => 
+              option
+                .setName('warnings')
+                .setDescription('The warning count of the step to remove')
+                .setRequired(true)
+                .setMinValue(1)
+            )
+        )
+        .addSubcommand(subcommand => 
+          subcommand
+            .setName('list')
+            .setDescription('Show the escalation ladder')
+        )
     ) as SlashCommandBuilder,
     
   async execute(interaction: ChatInputCommandInteraction) {
@@ -419,17 +785,46 @@ const modConfigCommand: BotCommand = {
     const subcommand = interaction.options.getSubcommand();
     
     try {
+      const guildId = interaction.guild.id;
+      const config = await getModConfig(interaction.guild);
+      
+      if (interaction.options.getSubcommandGroup(false) === 'escalation') {
+        await handleEscalationSubcommand(interaction, subcommand, config);
+        return;
+      }
+      
       switch (subcommand) {
         case 'status':
-          const statusEmbed = createInfoEmbed(
-            'Moderation System Configuration',
-            'The moderation system is currently **disabled**.\n\nUse `/modconfig enable` to enable it.'
-          );
+          const ladder = await EscalationStepModel.getByGuild(guildId);
+          const statusEmbed = new EmbedBuilder()
+            .setTitle('Moderation System Configuration')
+            .setColor(config.enabled ? 0x00FF00 : 0xFF0000)
+            .setDescription(
+              `The moderation system is currently **${config.enabled ? 'enabled' : 'disabled'}**.` +
+              (config.enabled ? '' : '\n\nUse `/modconfig enable` to enable it.')
+            )
+            .addFields(
+              { 
+                name: 'Roles', 
+                value: `Moderator Role: ${config.moderator_role_id ? `<@&${config.moderator_role_id}>` : 'Not set'}\nMuted Role: ${config.muted_role_id ? `<@&${config.muted_role_id}>` : 'Not set'}`
+              },
+              {
+                name: 'Channels',
+                value: `Log Channel: ${config.log_channel_id ? `<#${config.log_channel_id}>` : 'Not set'}\nAppeal Channel: ${config.appeal_channel_id ? `<#${config.appeal_channel_id}>` : 'Not set'}`
+              },
+              {
+                name: 'Settings',
+                value: `DM Notifications: ${config.dm_notifications ? 'Enabled' : 'Disabled'}\nWarning Threshold: ${config.warn_threshold}\nAppeals: ${config.allow_appeals ? 'Allowed' : 'Disabled'}\nAppeal Cooldown: ${config.appeal_cooldown} hours\nWarning Expiry: ${config.warning_ttl ? `${config.warning_ttl} days` : 'Never'}\nEscalation: ${ladder.length > 0 ? `${ladder.length} custom step(s)` : 'Default tiers'}`
+              }
+            )
+            .setTimestamp();
           
           await interaction.reply({ embeds: [statusEmbed], flags: MessageFlags.Ephemeral });
           break;
           
         case 'enable':
+          await ModConfigModel.enable(guildId);
+          
           const enableEmbed = createSuccessEmbed(
             'Moderation System Enabled',
             'The moderation system has been enabled for this server.'
@@ -439,6 +834,8 @@ const modConfigCommand: BotCommand = {
           break;
           
         case 'disable':
+          await ModConfigModel.disable(guildId);
+          
           const disableEmbed = createWarningEmbed(
             'Moderation System Disabled',
             'The moderation system has been disabled for this server.'
@@ -449,6 +846,7 @@ const modConfigCommand: BotCommand = {
           
         case 'logchannel':
           const channel = interaction.options.getChannel('channel')!;
+          await ModConfigModel.updateField(guildId, 'log_channel_id', channel.id);
           
           const logEmbed = createSuccessEmbed(
             'Log Channel Set',
@@ -460,6 +858,7 @@ const modConfigCommand: BotCommand = {
           
         case 'mutedrole':
           const role = interaction.options.getRole('role')!;
+          await ModConfigModel.updateField(guildId, 'muted_role_id', role.id);
           
           const roleEmbed = createSuccessEmbed(
             'Muted Role Set',
@@ -469,6 +868,83 @@ const modConfigCommand: BotCommand = {
           await interaction.reply({ embeds: [roleEmbed], flags: MessageFlags.Ephemeral });
           break;
           
+        case 'modrole':
+          const modRole = interaction.options.getRole('role')!;
+          await ModConfigModel.updateField(guildId, 'moderator_role_id', modRole.id);
+          
+          const modRoleEmbed = createSuccessEmbed(
+            'Moderator Role Set',
+            `The moderator role has been set to ${modRole.toString()}.`
+          );
+          
+          await interaction.reply({ embeds: [modRoleEmbed], flags: MessageFlags.Ephemeral });
+          break;
+          
+        case 'appealchannel':
+          const appealChannel = interaction.options.getChannel('channel')!;
+          await ModConfigModel.updateField(guildId, 'appeal_channel_id', appealChannel.id);
+          
+          const appealChannelEmbed = createSuccessEmbed(
+            'Appeal Channel Set',
+            `The appeal channel has been set to ${appealChannel.toString()}.`
+          );
+          
+          await interaction.reply({ embeds: [appealChannelEmbed], flags: MessageFlags.Ephemeral });
+          break;
+          
+        case 'dmnotifications':
+          const dmEnabled = interaction.options.getBoolean('enabled')!;
+          await ModConfigModel.updateField(guildId, 'dm_notifications', dmEnabled);
+          
+          const dmEmbed = createSuccessEmbed(
+            'DM Notifications Updated',
+            `DM notifications have been ${dmEnabled ? 'enabled' : 'disabled'}.`
+          );
+          
+          await interaction.reply({ embeds: [dmEmbed], flags: MessageFlags.Ephemeral });
+          break;
+          
+        case 'threshold':
+          const count = interaction.options.getInteger('count')!;
+          await ModConfigModel.updateField(guildId, 'warn_threshold', count);
+          
+          const thresholdEmbed = createSuccessEmbed(
+            'Warning Threshold Set',
+            `The warning threshold has been set to ${count}. Users will receive a punishment after ${count} warnings.`
+          );
+          
+          await interaction.reply({ embeds: [thresholdEmbed], flags: MessageFlags.Ephemeral });
+          break;
+          
+        case 'appeals':
+          const appealsEnabled = interaction.options.getBoolean('enabled')!;
+          await ModConfigModel.updateField(guildId, 'allow_appeals', appealsEnabled);
+          
+          const appealsEmbed = createSuccessEmbed(
+            'Appeals Updated',
+            `Appeals have been ${appealsEnabled ? 'enabled' : 'disabled'}.`
+          );
+          
+          await interaction.reply({ embeds: [appealsEmbed], flags: MessageFlags.Ephemeral });
+          break;
+          
+        case 'warningttl':
+          const days = interaction.options.getInteger('days')!;
+          const ttl = days > 0 ? days : null;
+          await ModConfigModel.updateField(guildId, 'warning_ttl', ttl);
+          const expiredCount = await applyWarningTtl(guildId, ttl);
+          
+          const ttlEmbed = createSuccessEmbed(
+            'Warning Expiry Updated',
+            ttl
+              ? `Warnings will now expire after ${ttl} day${ttl !== 1 ? 's' : ''}.` +
+                (expiredCount > 0 ? `\n\n${expiredCount} existing warning(s) were older than that and have expired.` : '')
+              : 'Warnings will no longer expire.'
+          );
+          
+          await interaction.reply({ embeds: [ttlEmbed], flags: MessageFlags.Ephemeral });
+          break;
+          
         default:
           await interaction.reply({
             content: 'Unknown subcommand.',
@@ -478,6 +954,7 @@ const modConfigCommand: BotCommand = {
       
     } catch (error) {
       logWithEmoji('error', `Error in modconfig command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
@@ -489,6 +966,128 @@ const modConfigCommand: BotCommand = {
   }
 };
 
+/**
+ * Handle /modconfig escalation add|remove|list
+ */
+async function handleEscalationSubcommand(
+  interaction: ChatInputCommandInteraction,
+  subcommand: string,
+  config: ModConfig
+): Promise<void> {
+  const guildId = interaction.guild!.id;
+  
+  switch (subcommand) {
+    case 'add': {
+      const warningCount = interaction.options.getInteger('warnings')!;
+      const action = interaction.options.getString('action')! as EscalationStep['action'];
+      const durationStr = interaction.options.getString('duration');
+      const allowAppeal = interaction.options.getBoolean('allow_appeal') ?? true;
+      
+      let duration: number | undefined;
+      if (durationStr) {
+        const parsed = parseDuration(durationStr);
+        if (parsed.milliseconds <= 0) {
+          await interaction.reply({
+            content: 'Invalid duration. Please use a format like 1h, 30m, or 1d.',
+            flags: MessageFlags.Ephemeral
+          });
+          return;
+        }
+        duration = parsed.milliseconds;
+      }
+      
+      if (action === 'MUTE' && !config.muted_role_id) {
+        await interaction.reply({
+          content: 'No muted role has been configured. An administrator can set one with `/modconfig mutedrole`.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      await EscalationStepModel.upsert({
+        guild_id: guildId,
+        warning_count: warningCount,
+        action,
+        duration,
+        allow_appeal: allowAppeal,
+        created_by: interaction.user.id
+      });
+      
+      logWithEmoji('info', 
+        `Escalation step set in ${interaction.guild!.name} by ${interaction.user.tag}: ${warningCount} warnings → ${describeEscalationStep({ action, duration, allow_appeal: allowAppeal })}`,
+        'Moderation'
+      );
+      
+      const embed = createSuccessEmbed(
+        'Escalation Step Saved',
+        `Reaching **${warningCount}** active warnings will now result in: ${describeEscalationStep({ action, duration, allow_appeal: allowAppeal })}.`
+      );
+      
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      break;
+    }
+    
+    case 'remove': {
+      const warningCount = interaction.options.getInteger('warnings')!;
+      const removed = await EscalationStepModel.remove(guildId, warningCount);
+      
+      if (!removed) {
+        await interaction.reply({
+          content: `There is no escalation step for ${warningCount} warnings.`,
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      const remaining = await EscalationStepModel.getByGuild(guildId);
+      const embed = createSuccessEmbed(
+        'Escalation Step Removed',
+        `The step for **${warningCount}** warnings has been removed.` +
+        (remaining.length === 0 ? '\n\nNo steps remain, so the default escalation tiers will be used.' : '')
+      );
+      
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      break;
+    }
+    
+    case 'list': {
+      const ladder = await EscalationStepModel.getByGuild(guildId);
+      
+      const description = ladder.length > 0
+        ? ladder.map(step => `**${step.warning_count} warnings** → ${describeEscalationStep(step)}`).join('\n')
+        : `No escalation ladder configured. The default tiers apply after ${config.warn_threshold} warnings:\n` +
+          `**+1** → Mute for 2 hours\n**+2** → Mute for 1 day\n**+3** → Ban (appealable)\n**+4** → Ban (no appeal)`;
+      
+      const embed = createInfoEmbed('Escalation Ladder', description);
+      
+      if (ladder.length > 0) {
+        embed.setFooter({ text: 'The highest step is repeated for any further warnings' });
+      }
+      
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      break;
+    }
+    
+    default:
+      await interaction.reply({
+        content: 'Unknown subcommand.',
+        flags: MessageFlags.Ephemeral
+      });
+  }
+}
+
+/**
+ * Describe an escalation step for display
+ */
+function describeEscalationStep(step: Pick<EscalationStep, 'action' | 'duration' | 'allow_appeal'>): string {
+  if (step.action === 'MUTE') {
+    return step.duration ? `Mute for ${formatDuration(step.duration)}` : 'Permanent mute';
+  }
+  
+  const ban = step.duration ? `Ban for ${formatDuration(step.duration)}` : 'Ban';
+  return step.allow_appeal ? `${ban} (appealable)` : `${ban} (no appeal)`;
+}
+
 //=============================================================================
 // CHECK COMMAND
 //=============================================================================
@@ -518,8 +1117,11 @@ const checkCommand: BotCommand = {
     const member = interaction.guild.members.cache.get(user.id);
     
     try {
-      // TODO: Implement actual moderation history lookup
-      // For now, show basic user info
+      const config = await requireModerationEnabled(interaction);
+      if (!config) return;
+      
+      const infractions = await InfractionModel.getByUser(interaction.guild.id, user.id);
+      const summary = await getUserInfractionSummary(interaction.guild.id, user.id);
       
       const embed = new EmbedBuilder()
         .setTitle(`Moderation History for ${user.tag}`)
@@ -533,19 +1135,51 @@ const checkCommand: BotCommand = {
       if (member) {
         embed.addFields(
           { name: 'Joined Server', value: `<t:${Math.floor(member.joinedTimestamp! / 1000)}:R>`, inline: true },
-          { name: 'Active Warnings', value: '0', inline: true },
-          { name: 'Total Infractions', value: '0', inline: true },
-          { name: 'Last Infraction', value: 'None', inline: true }
+          { name: 'Active Warnings', value: `${summary.activeWarnings}`, inline: true },
+          { name: 'Total Infractions', value: `${summary.totalInfractions}`, inline: true },
+          { 
+            name: 'Last Infraction', 
+            value: summary.lastInfraction 
+              ? `<t:${Math.floor(fromDatabaseTimestamp(summary.lastInfraction).getTime() / 1000)}:R>` 
+              : 'None', 
+            inline: true 
+          }
         );
       }
       
-      embed.setDescription(`${user.toString()} has no moderation history on record.`);
+      if (infractions.length === 0) {
+        embed.setDescription(`${user.toString()} has no moderation history on record.`);
+      } else {
+        embed.setDescription(`${user.toString()} has ${infractions.length} total infractions.`);
+        
+        // Add recent infractions (limit to 10 to avoid hitting Discord's limits)
+        const recentInfractions = infractions.slice(0, 10);
+        
+        for (const infraction of recentInfractions) {
+          const moderatorName = await resolveUserTag(interaction, infraction.moderator_id);
+          const issuedAt = Math.floor(fromDatabaseTimestamp(infraction.timestamp).getTime() / 1000);
+          
+          embed.addFields({
+            name: `${infraction.type} (${infraction.active ? 'Active' : 'Inactive'})`,
+            value: `**Reason:** ${infraction.reason}\n**Moderator:** ${moderatorName}\n**Date:** <t:${issuedAt}:F>\n**ID:** ${infraction.id}`
+          });
+        }
+        
+        if (infractions.length > 10) {
+          embed.addFields({
+            name: 'Note',
+            value: `Showing 10 most recent infractions. ${infractions.length - 10} more infractions not shown.`
+          });
+        }
+      }
+      
       embed.setTimestamp();
       
       await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
       
     } catch (error) {
       logWithEmoji('error', `Error in check command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
@@ -557,6 +1191,525 @@ const checkCommand: BotCommand = {
   }
 };
 
+//=============================================================================
+// CASE COMMAND
+//=============================================================================
+
+const caseCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('case')
+    .setDescription('View and manage individual moderation cases')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('view')
+        .setDescription('View a case')
+        .addStringOption(option => 
+          option
+            .setName('case_id')
+            .setDescription('The case ID')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('edit')
+        .setDescription('Change the reason on a case')
+        .addStringOption(option => 
+          option
+            .setName('case_id')
+            .setDescription('The case ID')
+            .setRequired(true)
+        )
+        .addStringOption(option => 
+          option
+            .setName('reason')
+            .setDescription('The corrected reason')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('delete')
+        .setDescription('Void a mistaken case, lifting any mute or ban it applies')
+        .addStringOption(option => 
+          option
+            .setName('case_id')
+            .setDescription('The case ID')
+            .setRequired(true)
+        )
+        .addStringOption(option => 
+          option
+            .setName('reason')
+            .setDescription('Why the case is being voided')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('history')
+        .setDescription('Show the edit history of a case')
+        .addStringOption(option => 
+          option
+            .setName('case_id')
+            .setDescription('The case ID')
+            .setRequired(true)
+        )
+    ) as SlashCommandBuilder,
+    
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guild) {
+      await interaction.reply({
+        content: 'This command can only be used in a server!',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+    
+    const subcommand = interaction.options.getSubcommand();
+    const caseId = interaction.options.getString('case_id')!;
+    
+    try {
+      const config = await requireModerationEnabled(interaction);
+      if (!config) return;
+      
+      const infraction = await getCase(interaction.guild.id, caseId);
+      
+      if (!infraction) {
+        await interaction.reply({
+          content: `No case with ID \`${caseId}\` was found in this server.`,
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      switch (subcommand) {
+        case 'view': {
+          const embed = await buildModLogEmbed(interaction.client, infraction);
+          const edits = await InfractionEditModel.getByInfraction(infraction.id);
+          
+          embed.addFields(
+            { name: 'Status', value: getInfractionState(infraction), inline: true },
+            { name: 'Appealed', value: infraction.appealed ? 'Yes' : 'No', inline: true },
+            { name: 'Edits', value: `${edits.length}`, inline: true }
+          );
+          
+          await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+          break;
+        }
+        
+        case 'edit': {
+          const reason = interaction.options.getString('reason')!;
+          
+          if (reason === infraction.reason) {
+            await interaction.reply({
+              content: 'The new reason is the same as the current one.',
+              flags: MessageFlags.Ephemeral
+            });
+            return;
+          }
+          
+          await editCaseReason(interaction.client, infraction, reason, interaction.user.id);
+          
+          const embed = createSuccessEmbed(
+            'Case Updated',
+            `The reason for case \`${infraction.id}\` has been updated.\n\n**Before:** ${infraction.reason}\n**After:** ${reason}`
+          );
+          
+          await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+          break;
+        }
+        
+        case 'delete': {
+          const reason = interaction.options.getString('reason')!;
+          const edits = await InfractionEditModel.getByInfraction(infraction.id);
+          if (edits.some(edit => edit.field === 'active')) {
+            await interaction.reply({
+              content: `Case \`${infraction.id}\` has already been voided.`,
+              flags: MessageFlags.Ephemeral
+            });
+            return;
+          }
+          
+          // Lifting a mute or ban can take a moment
+          await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+          
+          const { punishment: outcome } = await voidCase(interaction.client, interaction.guild, infraction, interaction.user.id, reason);
+          
+          const punishment = infraction.type.toLowerCase();
+          let liftedText = '';
+          if (outcome === 'lifted') liftedText = `\nThe ${punishment} has been lifted.`;
+          if (outcome === 'kept') liftedText = `\nAnother active ${punishment} case still applies, so the ${punishment} stays in place.`;
+          if (outcome === 'failed') {
+            liftedText = `\n⚠️ The ${punishment} could not be lifted. I may not have permission, please check manually.`;
+          }
+          
+          const embed = createWarningEmbed(
+            'Case Voided',
+            `Case \`${infraction.id}\` (${infraction.type}) has been voided and no longer counts against <@${infraction.user_id}>.${liftedText}`
+          );
+          
+          await interaction.editReply({ embeds: [embed] });
+          break;
+        }
+        
+        case 'history': {
+          const edits = await InfractionEditModel.getByInfraction(infraction.id);
+          
+          const embed = new EmbedBuilder()
+            .setTitle(`History for Case ${infraction.id}`)
+            .setColor(0x5865F2)
+            .setTimestamp();
+          
+          if (edits.length === 0) {
+            embed.setDescription('This case has not been changed since it was created.');
+          } else {
+            embed.setDescription(`${edits.length} change(s) recorded.`);
+            
+            // Show the most recent changes within Discord's field limit
+            for (const edit of edits.slice(-20)) {
+              const editedAt = Math.floor(fromDatabaseTimestamp(edit.edited_at).getTime() / 1000);
+              const change = edit.field === 'active'
+                ? 'Voided'
+                : `**${edit.field}:** ${truncateString(edit.old_value || 'None', 300)} → ${truncateString(edit.new_value || 'None', 300)}`;
+              
+              embed.addFields({
+                name: `Change by ${await resolveUserTag(interaction, edit.editor_id)}`,
+                value: `${change}${edit.reason ? `\n**Reason:** ${edit.reason}` : ''}\n**When:** <t:${editedAt}:F>`
+              });
+            }
+          }
+          
+          await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+          break;
+        }
+        
+        default:
+          await interaction.reply({
+            content: 'Unknown subcommand.',
+            flags: MessageFlags.Ephemeral
+          });
+      }
+      
+    } catch (error) {
+      logWithEmoji('error', `Error in case command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+      
+      const errorEmbed = createErrorEmbed(
+        'Error',
+        'There was an error managing the case.'
+      );
+      
+      if (interaction.deferred) {
+        await interaction.editReply({ embeds: [errorEmbed] });
+      } else if (!interaction.replied) {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
+    }
+  }
+};
+
+//=============================================================================
+// APPEALS COMMAND
+//=============================================================================
+
+const appealsCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('appeals')
+    .setDescription('Review appeals from members')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+    .addSubcommand(subcommand => 
+      subcommand
+        .setName('queue')
+        .setDescription('Browse pending appeals and claim, approve or deny them')
+    ) as SlashCommandBuilder,
+    
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guild) {
+      await interaction.reply({
+        content: 'This command can only be used in a server!',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+    
+    try {
+      const config = await requireModerationEnabled(interaction);
+      if (!config) return;
+      
+      const page = await buildAppealQueuePage(
+        interaction.guild.id,
+        0,
+        interaction.user.id,
+        interaction.memberPermissions?.has(PermissionFlagsBits.Administrator)
+      );
+      
+      await interaction.reply({ ...page, flags: MessageFlags.Ephemeral });
+      
+    } catch (error) {
+      logWithEmoji('error', `Error in appeals command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+      
+      const errorEmbed = createErrorEmbed(
+        'Error',
+        'There was an error loading the appeal queue.'
+      );
+      
+      await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+    }
+  }
+};
+
+//=============================================================================
+// STATS COMMAND
+//=============================================================================
+
+const STATS_CHART_NAME = 'activity.png';
+
+const statsCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('stats')
+    .setDescription('Server activity statistics with charts')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+    .addSubcommand(subcommand =>
+      addStatsPeriodOption(subcommand
+        .setName('overview')
+        .setDescription('Messages per day, totals and week-over-week changes'))
+    )
+    .addSubcommand(subcommand =>
+      addStatsPeriodOption(subcommand
+        .setName('channels')
+        .setDescription('The busiest channels'))
+    )
+    .addSubcommand(subcommand =>
+      addStatsPeriodOption(subcommand
+        .setName('members')
+        .setDescription('Joins, leaves and active members per day'))
+    )
+    .addSubcommand(subcommand =>
+      addStatsPeriodOption(subcommand
+        .setName('moderation')
+        .setDescription('Moderation actions per day'))
+    ) as SlashCommandBuilder,
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guild) {
+      await interaction.reply({
+        content: 'This command can only be used in a server!',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    try {
+      const subcommand = interaction.options.getSubcommand();
+      const days = parseInt(interaction.options.getString('period') || '30', 10);
+
+      // Include whatever is still waiting for the next flush
+      await flushActivity();
+      const stats = await getServerActivity(interaction.guild.id, days);
+
+      if (stats.days.every(day => day.messages === 0 && day.joins === 0 && day.leaves === 0 && day.moderationActions === 0)) {
+        await interaction.reply({
+          embeds: [createInfoEmbed('Server Statistics', 'No activity has been recorded in this period yet.')],
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+
+      const { embed, chart } = buildStatsView(subcommand, stats);
+
+      embed
+        .setColor(0x0099FF)
+        .setImage(`attachment://${STATS_CHART_NAME}`)
+        .setFooter({ text: `Last ${days} days (UTC), this week compares the last 7 days with the 7 before` })
+        .setTimestamp();
+
+      await interaction.reply({
+        embeds: [embed],
+        files: [new AttachmentBuilder(renderChart(chart), { name: STATS_CHART_NAME })],
+        flags: MessageFlags.Ephemeral
+      });
+
+    } catch (error) {
+      logWithEmoji('error', `Error in stats command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+
+      const errorEmbed = createErrorEmbed(
+        'Error',
+        'There was an error loading server statistics.'
+      );
+
+      if (interaction.replied || interaction.deferred) {
+        await interaction.followUp({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
+    }
+  }
+};
+
+function addStatsPeriodOption(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+  return subcommand.addStringOption(option =>
+    option
+      .setName('period')
+      .setDescription('Period to chart (defaults to the last 30 days)')
+      .setRequired(false)
+      .addChoices(
+        { name: 'Last 7 days', value: '7' },
+        { name: 'Last 14 days', value: '14' },
+        { name: 'Last 30 days', value: '30' },
+        { name: 'Last 90 days', value: '90' }
+      )
+  );
+}
+
+/**
+ * Build the embed and chart for a stats subcommand
+ */
+function buildStatsView(subcommand: string, stats: ServerActivityStats): { embed: EmbedBuilder; chart: ChartOptions } {
+  const labels = stats.days.map(day => day.date.slice(5));
+  const { thisWeek, lastWeek } = stats;
+
+  switch (subcommand) {
+    case 'channels': {
+      const top = stats.channels.slice(0, 10);
+
+      return {
+        embed: new EmbedBuilder()
+          .setTitle('📊 Top Channels')
+          .setDescription(
+            top.length > 0
+              ? top.map((channel, index) =>
+                  `**${index + 1}.** <#${channel.channelId}>: ${formatCount(channel.messages)} messages` +
+                  ` (this week ${formatDelta(channel.thisWeek, channel.lastWeek)})`
+                ).join('\n')
+              : 'No messages in this period.'
+          ),
+        chart: {
+          type: 'bar',
+          labels: top.map((_, index) => `${index + 1}`),
+          series: [{ values: top.map(channel => channel.messages), color: CHART_COLORS.blue }]
+        }
+      };
+    }
+
+    case 'members':
+      return {
+        embed: new EmbedBuilder()
+          .setTitle('📊 Member Activity')
+          .setDescription('🟩 Joins  🟥 Leaves  🟨 Active members')
+          .addFields(
+            { name: 'Joins', value: `${formatCount(stats.totals.joins)}`, inline: true },
+            { name: 'Leaves', value: `${formatCount(stats.totals.leaves)}`, inline: true },
+            { name: 'Net Change', value: `${formatSigned(stats.totals.joins - stats.totals.leaves)}`, inline: true },
+            { name: 'Active Members / Day', value: `${formatCount(stats.totals.activeUsers)}`, inline: true },
+            {
+              name: 'This Week',
+              value: `Joins ${formatDelta(thisWeek.total_joins, lastWeek.total_joins)}\n` +
+                `Leaves ${formatDelta(thisWeek.total_leaves, lastWeek.total_leaves)}\n` +
+                `Active members/day ${formatDelta(thisWeek.avg_active_users, lastWeek.avg_active_users)}`
+            }
+          ),
+        chart: {
+          type: 'line',
+          labels,
+          series: [
+            { values: stats.days.map(day => day.joins), color: CHART_COLORS.green },
+            { values: stats.days.map(day => day.leaves), color: CHART_COLORS.red },
+            { values: stats.days.map(day => day.activeUsers), color: CHART_COLORS.yellow }
+          ]
+        }
+      };
+
+    case 'moderation': {
+      const busiest = stats.days.reduce((max, day) => day.moderationActions > max.moderationActions ? day : max);
+
+      return {
+        embed: new EmbedBuilder()
+          .setTitle('📊 Moderation Activity')
+          .addFields(
+            { name: 'Actions', value: `${formatCount(stats.totals.moderationActions)}`, inline: true },
+            {
+              name: 'Busiest Day',
+              value: busiest.moderationActions > 0 ? `${busiest.date} (${busiest.moderationActions})` : 'None',
+              inline: true
+            },
+            { name: 'This Week', value: formatDelta(thisWeek.total_mod_actions, lastWeek.total_mod_actions), inline: true }
+          ),
+        chart: {
+          type: 'bar',
+          labels,
+          series: [{ values: stats.days.map(day => day.moderationActions), color: CHART_COLORS.red }]
+        }
+      };
+    }
+
+    default:
+      return {
+        embed: new EmbedBuilder()
+          .setTitle('📊 Server Overview')
+          .addFields(
+            { name: 'Messages', value: `${formatCount(stats.totals.messages)}`, inline: true },
+            { name: 'Active Members / Day', value: `${formatCount(stats.totals.activeUsers)}`, inline: true },
+            { name: 'Joins / Leaves', value: `${formatCount(stats.totals.joins)} / ${formatCount(stats.totals.leaves)}`, inline: true },
+            {
+              name: 'This Week',
+              value: `Messages ${formatDelta(thisWeek.total_messages, lastWeek.total_messages)}\n` +
+                `Active members/day ${formatDelta(thisWeek.avg_active_users, lastWeek.avg_active_users)}\n` +
+                `Joins ${formatDelta(thisWeek.total_joins, lastWeek.total_joins)}\n` +
+                `Leaves ${formatDelta(thisWeek.total_leaves, lastWeek.total_leaves)}\n` +
+                `Moderation actions ${formatDelta(thisWeek.total_mod_actions, lastWeek.total_mod_actions)}`
+            },
+            {
+              name: 'Top Channels',
+              value: stats.channels.length > 0
+                ? stats.channels.slice(0, 5).map(channel =>
+                    `<#${channel.channelId}>: ${formatCount(channel.messages)}`
+                  ).join('\n')
+                : 'No messages in this period.'
+            }
+          ),
+        chart: {
+          type: 'line',
+          labels,
+          series: [{ values: stats.days.map(day => day.messages), color: CHART_COLORS.blue }]
+        }
+      };
+  }
+}
+
+function formatCount(value: number): string {
+  return `${Math.round(value * 10) / 10}`;
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${formatCount(value)}` : formatCount(value);
+}
+
+/**
+ * A week's figure with its change from the week before
+ */
+function formatDelta(current: number, previous: number): string {
+  if (previous === 0) {
+    return `${formatCount(current)} (${current > 0 ? 'new' : 'no change'})`;
+  }
+
+  const change = Math.round(((current - previous) / previous) * 100);
+  const arrow = change > 0 ? '▲' : change < 0 ? '▼' : '•';
+  return `${formatCount(current)} (${arrow} ${Math.abs(change)}% vs ${formatCount(previous)})`;
+}
+
+//=============================================================================
+// LOGGER COMMAND
+//=============================================================================
+
+// Subcommands live with the message logger, which owns its configuration
+const loggerCommand: BotCommand = {
+  data: buildLoggerCommand(),
+  execute: handleLoggerCommand
+};
+
 //=============================================================================
 // EXPORTS
 //=============================================================================
@@ -567,7 +1720,11 @@ export const moderationCommands: BotCommand[] = [
   banCommand,
   warningsCommand,
   modConfigCommand,
-  checkCommand
+  checkCommand,
+  caseCommand,
+  appealsCommand,
+  statsCommand,
+  loggerCommand
 ];
 
 // Export individual commands for testing or direct use
@@ -577,5 +1734,9 @@ export {
   banCommand,
   warningsCommand,
   modConfigCommand,
-  checkCommand
+  checkCommand,
+  caseCommand,
+  appealsCommand,
+  statsCommand,
+  loggerCommand
 };
@@ -11,16 +11,28 @@ import {
   MessageFlags,
   PermissionFlagsBits,
   ActivityType,
-  TextChannel
+  TextChannel,
+  AttachmentBuilder
 } from 'discord.js';
+import fs from 'fs';
 import { BotCommand } from '../../types';
 import { 
   createSuccessEmbed, 
   createErrorEmbed, 
   createInfoEmbed,
   logWithEmoji,
-  isValidSnowflake 
+  isValidSnowflake,
+  markCommandFailed
 } from '../../utils';
+import { 
+  buildColorPicker, 
+  removeMemberColor,
+  planColorRoleImport,
+  applyColorRoleImport,
+  formatColorRoleImportPlan,
+  ColorRoleImportSource
+} from '../../systems/color-roles';
+import { setNsfwAccess } from '../../systems/verification';
 
 //=============================================================================
 // COLOR COMMAND
@@ -52,23 +64,154 @@ const colorCommand: BotCommand = {
     
     const subcommand = interaction.options.getSubcommand();
     
-    if (subcommand === 'select') {
-      // TODO: Implement color selection logic
-      const embed = createInfoEmbed(
-        'Color Selection',
-        'Color role selection is coming soon! This will allow you to choose from categorized color roles.'
+    try {
+      const member = await interaction.guild.members.fetch(interaction.user.id);
+      
+      if (subcommand === 'select') {
+        const picker = await buildColorPicker(member);
+        
+        await interaction.reply({ ...picker, flags: MessageFlags.Ephemeral });
+        
+      } else if (subcommand === 'remove') {
+        const removed = await removeMemberColor(member);
+        
+        const embed = removed > 0
+          ? createSuccessEmbed('Color Removed', 'Your color role has been removed.')
+          : createInfoEmbed('No Color Role', 'You don\'t have a color role to remove.');
+        
+        await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      }
+      
+    } catch (error) {
+      logWithEmoji('error', `Error in color command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+      
+      const errorEmbed = createErrorEmbed(
+        'Error',
+        'There was an error updating your color role.'
       );
       
-      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+    }
+  }
+};
+
+//=============================================================================
+// COLOR ROLES ADMIN COMMAND
+//=============================================================================
+
+// Dump written by `npm run fetch-roles`, used when no file is attached
+const DEFAULT_ROLE_DUMP = 'roommates_roles.txt';
+
+const colorRolesCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('colorroles')
+    .setDescription('Manage the color roles offered by /color')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('import')
+        .setDescription('Import color roles from the server or a role dump')
+        .addStringOption(option =>
+          option
+            .setName('source')
+            .setDescription('Where to read the role list from')
+            .setRequired(true)
+            .addChoices(
+              { name: 'Server roles', value: 'guild' },
+              { name: 'Role dump file', value: 'file' }
+            )
+        )
+        .addAttachmentOption(option =>
+          option
+            .setName('file')
+            .setDescription(`A [Name, id] role dump (defaults to ${DEFAULT_ROLE_DUMP} on the bot host)`)
+            .setRequired(false)
+        )
+        .addBooleanOption(option =>
+          option
+            .setName('dry_run')
+            .setDescription('Only show what would change')
+            .setRequired(false)
+        )
+    ) as SlashCommandBuilder,
+    
+  async execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guild) {
+      await interaction.reply({ 
+        content: 'This command can only be used in a server!', 
+        flags: MessageFlags.Ephemeral 
+      });
+      return;
+    }
+    
+    const sourceType = interaction.options.getString('source', true);
+    const attachment = interaction.options.getAttachment('file');
+    const dryRun = interaction.options.getBoolean('dry_run') ?? false;
+    
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    
+    try {
+      let source: ColorRoleImportSource = { type: 'guild' };
+      
+      if (sourceType === 'file') {
+        let contents: string;
+        
+        if (attachment) {
+          const response = await fetch(attachment.url);
+          contents = await response.text();
+        } else if (fs.existsSync(DEFAULT_ROLE_DUMP)) {
+          contents = fs.readFileSync(DEFAULT_ROLE_DUMP, 'utf8');
+        } else {
+          await interaction.editReply({
+            embeds: [createErrorEmbed('No Role Dump', `Attach a role dump, or run \`npm run fetch-roles\` to create ${DEFAULT_ROLE_DUMP}.`)]
+          });
+          return;
+        }
+        
+        source = { type: 'file', contents };
+      }
       
-    } else if (subcommand === 'remove') {
-      // TODO: Implement color removal logic
-      const embed = createSuccessEmbed(
-        'Color Removed',
-        'Your color role removal feature is coming soon!'
+      const plan = await planColorRoleImport(interaction.guild, source);
+      const changes = plan.added.length + plan.updated.length + plan.stale.length + plan.unsafe.length;
+      
+      if (!dryRun && changes > 0) {
+        await applyColorRoleImport(interaction.guild, plan);
+      }
+      
+      const embed = (dryRun ? createInfoEmbed : createSuccessEmbed)(
+        dryRun ? 'Color Role Import (Dry Run)' : 'Color Roles Imported',
+        changes === 0
+          ? 'The color roles are already up to date.'
+          : dryRun
+            ? 'Nothing has been written yet. Run the import again without `dry_run` to apply these changes.'
+            : 'The color roles have been updated.'
+      ).addFields(
+        { name: 'Added', value: `${plan.added.length}`, inline: true },
+        { name: 'Updated', value: `${plan.updated.length}`, inline: true },
+        { name: 'Unchanged', value: `${plan.unchanged.length}`, inline: true },
+        { name: 'Disabled', value: `${plan.stale.length + plan.unsafe.length}`, inline: true },
+        { name: 'Skipped', value: `${plan.skipped.length}`, inline: true }
       );
       
-      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      const diff = new AttachmentBuilder(Buffer.from(formatColorRoleImportPlan(plan), 'utf8'), {
+        name: 'color-roles-import.diff'
+      });
+      
+      await interaction.editReply({ embeds: [embed], files: [diff] });
+      
+      logWithEmoji('info', 
+        `Color role import (${sourceType}${dryRun ? ', dry run' : ''}) run by ${interaction.user.tag}`,
+        'Colors'
+      );
+      
+    } catch (error) {
+      logWithEmoji('error', `Error in colorroles command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+      
+      await interaction.editReply({
+        embeds: [createErrorEmbed('Error', 'There was an error importing the color roles.')]
+      });
     }
   }
 };
@@ -99,17 +242,61 @@ const nsfwCommand: BotCommand = {
     
     const nsfwValue = interaction.options.getBoolean('value', true);
     
-    // TODO: Implement NSFW role management
-    const embed = nsfwValue 
-      ? createSuccessEmbed('NSFW Access Enabled', 'You now have access to NSFW content.')
-      : createSuccessEmbed('NSFW Access Disabled', 'You no longer have access to NSFW content.');
-    
-    await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
-    
-    logWithEmoji('info', 
-      `User ${interaction.user.tag} ${nsfwValue ? 'enabled' : 'disabled'} NSFW access`,
-      'NSFW'
-    );
+    try {
+      const member = await interaction.guild.members.fetch(interaction.user.id);
+      const result = await setNsfwAccess(member, nsfwValue);
+      
+      let embed: EmbedBuilder;
+      
+      switch (result.status) {
+        case 'updated':
+          embed = nsfwValue 
+            ? createSuccessEmbed('NSFW Access Enabled', 'You now have access to NSFW content.')
+            : createSuccessEmbed('NSFW Access Disabled', 'You no longer have access to NSFW content.');
+          break;
+          
+        case 'unchanged':
+          embed = createInfoEmbed(
+            'No Change',
+            `NSFW access is already ${nsfwValue ? 'enabled' : 'disabled'} for you.`
+          );
+          break;
+          
+        case 'not_verified':
+          embed = createErrorEmbed(
+            'Age Verification Required',
+            'You need to complete age verification before you can enable NSFW access.'
+          );
+          break;
+          
+        case 'cooldown':
+          embed = createErrorEmbed(
+            'Slow Down',
+            `You changed your NSFW access recently. You can change it again <t:${Math.floor(result.retryAt / 1000)}:R>.`
+          );
+          break;
+          
+        case 'not_configured':
+          embed = createErrorEmbed(
+            'Not Available',
+            'NSFW access roles have not been set up in this server. Please contact a server administrator.'
+          );
+          break;
+      }
+      
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      
+    } catch (error) {
+      logWithEmoji('error', `Error in nsfw command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
+      
+      const errorEmbed = createErrorEmbed(
+        'Error',
+        'There was an error updating your NSFW access.'
+      );
+      
+      await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+    }
   }
 };
 
@@ -213,6 +400,7 @@ const serverInfoCommand: BotCommand = {
       
     } catch (error) {
       logWithEmoji('error', `Error in serverinfo command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
@@ -315,6 +503,7 @@ const echoCommand: BotCommand = {
       
     } catch (error) {
       logWithEmoji('error', `Error in echo command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       await interaction.reply({
         content: 'There was an error sending the message. Please check my permissions.',
@@ -415,6 +604,7 @@ const userInfoCommand: BotCommand = {
 
 export const utilityCommands: BotCommand[] = [
   colorCommand,
+  colorRolesCommand,
   nsfwCommand,
   serverInfoCommand,
   echoCommand,
@@ -425,6 +615,7 @@ export const utilityCommands: BotCommand[] = [
 // Export individual commands for testing or direct use
 export {
   colorCommand,
+  colorRolesCommand,
   nsfwCommand,
   serverInfoCommand,
   echoCommand,
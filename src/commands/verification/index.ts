@@ -13,20 +13,40 @@ import {
   ButtonBuilder,
   ButtonStyle,
   ActionRowBuilder,
-  ChannelType
+  ChannelType,
+  InteractionContextType,
+  AttachmentBuilder
 } from 'discord.js';
 import { BotCommand } from '../../types';
 import { 
   createSuccessEmbed, 
   createErrorEmbed, 
   createInfoEmbed,
-  logWithEmoji
+  formatDuration,
+  logWithEmoji,
+  markCommandFailed
 } from '../../utils';
 import { 
   setVerificationChannel, 
   setAgeUnverifiedRole, 
+  setVerifiedRole,
+  setVerificationEnabled,
   getVerificationConfig 
 } from '../../systems/verification/config';
+import { 
+  getVerificationStatus, 
+  getVerificationStats, 
+  buildVerificationStatsCsv 
+} from '../../systems/verification';
+import { 
+  checkAppealEligibility, 
+  getAppealableInfraction, 
+  sendAppealForm,
+  AppealableType
+} from '../../systems/moderation';
+import { ModConfigModel, GuildModel } from '../../database/models/legacy-models';
+import { VerificationConfigModel, VerificationLogModel } from '../../database/models/verification';
+import { fromDatabaseTimestamp } from '../../database';
 
 //=============================================================================
 // VERIFY COMMAND
@@ -91,6 +111,7 @@ const verifyCommand: BotCommand = {
       
     } catch (error) {
       logWithEmoji('error', `Error in verify command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
@@ -133,6 +154,95 @@ const modVerifyCommand: BotCommand = {
             .setRequired(true)
         )
     )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('verifiedrole')
+        .setDescription('Set the 18+ role granted when a verification is approved')
+        .addRoleOption(option =>
+          option
+            .setName('role')
+            .setDescription('The role to give approved members')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('nsfwroles')
+        .setDescription('Set the roles swapped by /nsfw')
+        .addRoleOption(option =>
+          option
+            .setName('access')
+            .setDescription('The role that grants NSFW access')
+            .setRequired(true)
+        )
+        .addRoleOption(option =>
+          option
+            .setName('no_access')
+            .setDescription('The role for members without NSFW access')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('nsfwcooldown')
+        .setDescription('Set how long members wait between /nsfw changes')
+        .addIntegerOption(option =>
+          option
+            .setName('minutes')
+            .setDescription('Minutes between changes (0 turns the cooldown off)')
+            .setRequired(true)
+            .setMinValue(0)
+            .setMaxValue(1440)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('nsfwlog')
+        .setDescription('Show recent NSFW access changes')
+        .addUserOption(option =>
+          option
+            .setName('user')
+            .setDescription('Only show changes by this member')
+            .setRequired(false)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('retention')
+        .setDescription('Set how long ID images are kept after a decision')
+        .addIntegerOption(option =>
+          option
+            .setName('hours')
+            .setDescription('Hours to keep decided ID images (0 removes them straight away)')
+            .setRequired(true)
+            .setMinValue(0)
+            .setMaxValue(168)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('stats')
+        .setDescription('Show verification statistics')
+        .addStringOption(option =>
+          option
+            .setName('period')
+            .setDescription('Period to report on (defaults to the last 30 days)')
+            .setRequired(false)
+            .addChoices(
+              { name: 'Last 24 hours', value: '1' },
+              { name: 'Last 7 days', value: '7' },
+              { name: 'Last 30 days', value: '30' },
+              { name: 'Last 90 days', value: '90' },
+              { name: 'All time', value: 'all' }
+            )
+        )
+        .addBooleanOption(option =>
+          option
+            .setName('csv')
+            .setDescription('Attach every decision in the period as a CSV file')
+            .setRequired(false)
+        )
+    )
     .addSubcommand(subcommand =>
       subcommand
         .setName('status')
@@ -170,6 +280,30 @@ const modVerifyCommand: BotCommand = {
           await handleSetRole(interaction);
           break;
           
+        case 'verifiedrole':
+          await handleSetVerifiedRole(interaction);
+          break;
+          
+        case 'nsfwroles':
+          await handleSetNsfwRoles(interaction);
+          break;
+          
+        case 'nsfwcooldown':
+          await handleSetNsfwCooldown(interaction);
+          break;
+          
+        case 'nsfwlog':
+          await handleNsfwLog(interaction);
+          break;
+          
+        case 'retention':
+          await handleSetRetention(interaction);
+          break;
+          
+        case 'stats':
+          await handleStats(interaction);
+          break;
+          
         case 'status':
           await handleStatus(interaction);
           break;
@@ -191,6 +325,7 @@ const modVerifyCommand: BotCommand = {
       
     } catch (error) {
       logWithEmoji('error', `Error in modverify command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
@@ -225,7 +360,7 @@ async function handleSetChannel(interaction: ChatInputCommandInteraction): Promi
     });
     
     // If successful, save the configuration
-    await setVerificationChannel(interaction.guild!.id, channel.id);
+    await setVerificationChannel(interaction.guild!, channel.id);
     
     // Delete the test message after 5 seconds
     setTimeout(() => {
@@ -246,6 +381,7 @@ async function handleSetChannel(interaction: ChatInputCommandInteraction): Promi
     
   } catch (error) {
     logWithEmoji('error', `Failed to set verification channel: ${error}`, 'Commands');
+    markCommandFailed(interaction, error);
     
     await interaction.reply({
       content: `I don't have permission to send messages in ${channel.toString()}. Please check my permissions.`,
@@ -258,7 +394,7 @@ async function handleSetRole(interaction: ChatInputCommandInteraction): Promise<
   const role = interaction.options.getRole('role')!;
   
   try {
-    await setAgeUnverifiedRole(interaction.guild!.id, role.id);
+    await setAgeUnverifiedRole(interaction.guild!, role.id);
     
     const successEmbed = createSuccessEmbed(
       'Age Unverified Role Set',
@@ -274,6 +410,7 @@ async function handleSetRole(interaction: ChatInputCommandInteraction): Promise<
     
   } catch (error) {
     logWithEmoji('error', `Failed to set age unverified role: ${error}`, 'Commands');
+    markCommandFailed(interaction, error);
     
     await interaction.reply({
       content: 'There was an error setting the Age Unverified role.',
@@ -282,6 +419,186 @@ async function handleSetRole(interaction: ChatInputCommandInteraction): Promise<
   }
 }
 
+async function handleSetVerifiedRole(interaction: ChatInputCommandInteraction): Promise<void> {
+  const role = interaction.options.getRole('role')!;
+  
+  await setVerifiedRole(interaction.guild!, role.id);
+  
+  const successEmbed = createSuccessEmbed(
+    'Verified Role Set',
+    `Approved members will now be given ${role.toString()}.`
+  );
+  
+  await interaction.reply({ embeds: [successEmbed], flags: MessageFlags.Ephemeral });
+  
+  logWithEmoji('info', 
+    `Verified role set to ${role.name} by ${interaction.user.tag}`,
+    'Verification'
+  );
+}
+
+async function handleSetNsfwRoles(interaction: ChatInputCommandInteraction): Promise<void> {
+  const accessRole = interaction.options.getRole('access')!;
+  const noAccessRole = interaction.options.getRole('no_access')!;
+  
+  if (accessRole.id === noAccessRole.id) {
+    await interaction.reply({
+      content: 'The access and no-access roles must be different.',
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+  
+  const guild = interaction.guild!;
+  
+  // verification_config rows need their guild row
+  await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+  await VerificationConfigModel.setNsfwAccessRole(guild.id, accessRole.id);
+  await VerificationConfigModel.setNsfwNoAccessRole(guild.id, noAccessRole.id);
+  
+  const successEmbed = createSuccessEmbed(
+    'NSFW Roles Set',
+    `Verified members can now use \`/nsfw\` to switch between ${accessRole.toString()} and ${noAccessRole.toString()}.`
+  );
+  
+  await interaction.reply({ embeds: [successEmbed], flags: MessageFlags.Ephemeral });
+  
+  logWithEmoji('info', 
+    `NSFW roles set to ${accessRole.name} / ${noAccessRole.name} by ${interaction.user.tag}`,
+    'Verification'
+  );
+}
+
+async function handleSetNsfwCooldown(interaction: ChatInputCommandInteraction): Promise<void> {
+  const minutes = interaction.options.getInteger('minutes', true);
+  const guild = interaction.guild!;
+  
+  // verification_config rows need their guild row
+  await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+  await VerificationConfigModel.setNsfwCooldown(guild.id, minutes);
+  
+  const successEmbed = createSuccessEmbed(
+    'NSFW Cooldown Set',
+    minutes === 0
+      ? 'Members can now change their NSFW access with `/nsfw` without waiting.'
+      : `Members now wait **${minutes} minute${minutes !== 1 ? 's' : ''}** between \`/nsfw\` changes.`
+  );
+  
+  await interaction.reply({ embeds: [successEmbed], flags: MessageFlags.Ephemeral });
+  
+  logWithEmoji('info', 
+    `NSFW cooldown set to ${minutes}m by ${interaction.user.tag}`,
+    'Verification'
+  );
+}
+
+async function handleSetRetention(interaction: ChatInputCommandInteraction): Promise<void> {
+  const hours = interaction.options.getInteger('hours', true);
+  const guild = interaction.guild!;
+  
+  // verification_config rows need their guild row
+  await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+  await VerificationConfigModel.setImageRetention(guild.id, hours);
+  
+  const successEmbed = createSuccessEmbed(
+    'ID Image Retention Set',
+    hours === 0
+      ? 'ID images will be removed as soon as a verification is decided.'
+      : `ID images will be kept for **${hours} hour${hours !== 1 ? 's' : ''}** after a decision, then removed.`
+  );
+  
+  await interaction.reply({ embeds: [successEmbed], flags: MessageFlags.Ephemeral });
+  
+  logWithEmoji('info', 
+    `ID image retention set to ${hours}h by ${interaction.user.tag}`,
+    'Verification'
+  );
+}
+
+async function handleStats(interaction: ChatInputCommandInteraction): Promise<void> {
+  const period = interaction.options.getString('period') || '30';
+  const includeCsv = interaction.options.getBoolean('csv') || false;
+  const guildId = interaction.guild!.id;
+  
+  const days = period === 'all' ? null : parseInt(period, 10);
+  const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+  const periodLabel = days ? `Last ${days === 1 ? '24 hours' : `${days} days`}` : 'All time';
+  
+  const stats = await getVerificationStats(guildId, since);
+  
+  const moderatorLines = stats.moderators.slice(0, 10).map(moderator =>
+    `<@${moderator.moderatorId}>: ${moderator.approved} approved, ${moderator.denied} denied, ` +
+    `${moderator.resubmissionsRequested} resubmit`
+  );
+  
+  const embed = new EmbedBuilder()
+    .setTitle(`🔞 Verification Statistics | ${periodLabel}`)
+    .setColor(0x0099FF)
+    .addFields(
+      { name: 'Requests', value: `${stats.totalRequests}`, inline: true },
+      { name: 'Approved', value: `${stats.approved}`, inline: true },
+      { name: 'Denied', value: `${stats.denied}`, inline: true },
+      { name: 'Resubmissions', value: `${stats.resubmissionsRequested}`, inline: true },
+      { name: 'Timed Out', value: `${stats.timedOut}`, inline: true },
+      { name: 'Awaiting Review', value: `${stats.pending}`, inline: true },
+      { name: 'Approval Rate', value: `${Math.round(stats.successRate * 100)}%`, inline: true },
+      { 
+        name: 'Median Decision Time', 
+        value: stats.medianProcessingTime > 0 ? formatDuration(stats.medianProcessingTime) : 'N/A', 
+        inline: true 
+      },
+      { 
+        name: 'Average Decision Time', 
+        value: stats.averageProcessingTime > 0 ? formatDuration(stats.averageProcessingTime) : 'N/A', 
+        inline: true 
+      },
+      { 
+        name: 'Decisions by Moderator', 
+        value: moderatorLines.length > 0 ? moderatorLines.join('\n') : 'No decisions in this period.' 
+      }
+    )
+    .setFooter({ text: 'Awaiting review is the current count, not limited to the period' })
+    .setTimestamp();
+  
+  const files: AttachmentBuilder[] = [];
+  if (includeCsv) {
+    const csv = await buildVerificationStatsCsv(guildId, since);
+    files.push(new AttachmentBuilder(Buffer.from(csv, 'utf8'), {
+      name: `verification-decisions-${period === 'all' ? 'all' : `${period}d`}-${Date.now()}.csv`
+    }));
+  }
+  
+  await interaction.reply({ embeds: [embed], files, flags: MessageFlags.Ephemeral });
+}
+
+async function handleNsfwLog(interaction: ChatInputCommandInteraction): Promise<void> {
+  const user = interaction.options.getUser('user');
+  
+  const entries = await VerificationLogModel.getRecentByActions(
+    interaction.guild!.id,
+    ['nsfw_enabled', 'nsfw_disabled'],
+    20,
+    user?.id
+  );
+  
+  const embed = new EmbedBuilder()
+    .setTitle(`🔞 NSFW Access Changes${user ? ` for ${user.tag}` : ''}`)
+    .setColor(0x0099FF)
+    .setDescription(
+      entries.length > 0
+        ? entries.map(entry => {
+            const time = Math.floor(fromDatabaseTimestamp(entry.timestamp).getTime() / 1000);
+            const action = entry.action === 'nsfw_enabled' ? '✅ enabled' : '❌ disabled';
+            return `<t:${time}:f> <@${entry.user_id}> ${action}`;
+          }).join('\n')
+        : 'No NSFW access changes have been recorded.'
+    )
+    .setFooter({ text: 'Showing up to 20 most recent changes' })
+    .setTimestamp();
+  
+  await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+}
+
 async function handleStatus(interaction: ChatInputCommandInteraction): Promise<void> {
   try {
     const config = await getVerificationConfig(interaction.guild!.id);
@@ -302,6 +619,31 @@ async function handleStatus(interaction: ChatInputCommandInteraction): Promise<v
           name: 'Age Unverified Role', 
           value: config.age_unverified_role_id ? `<@&${config.age_unverified_role_id}>` : 'Not configured ❌', 
           inline: true 
+        },
+        { 
+          name: 'Verified Role', 
+          value: config.verified_role_id ? `<@&${config.verified_role_id}>` : 'Not configured ❌', 
+          inline: true 
+        },
+        { 
+          name: 'NSFW Access Role', 
+          value: config.nsfw_access_role_id ? `<@&${config.nsfw_access_role_id}>` : 'Not configured ❌', 
+          inline: true 
+        },
+        { 
+          name: 'NSFW No Access Role', 
+          value: config.nsfw_no_access_role_id ? `<@&${config.nsfw_no_access_role_id}>` : 'Not configured ❌', 
+          inline: true 
+        },
+        { 
+          name: 'ID Image Retention', 
+          value: config.image_retention_hours ? `${config.image_retention_hours} hour(s) after decision` : 'Removed on decision', 
+          inline: true 
+        },
+        { 
+          name: 'NSFW Cooldown', 
+          value: config.nsfw_cooldown_minutes ? `${config.nsfw_cooldown_minutes} minute(s)` : 'None', 
+          inline: true 
         }
       );
     } else {
@@ -320,6 +662,7 @@ async function handleStatus(interaction: ChatInputCommandInteraction): Promise<v
     
   } catch (error) {
     logWithEmoji('error', `Error getting verification status: ${error}`, 'Commands');
+    markCommandFailed(interaction, error);
     
     await interaction.reply({
       content: 'There was an error retrieving the verification status.',
@@ -329,10 +672,11 @@ async function handleStatus(interaction: ChatInputCommandInteraction): Promise<v
 }
 
 async function handleEnable(interaction: ChatInputCommandInteraction): Promise<void> {
-  // TODO: Implement enable functionality
+  await setVerificationEnabled(interaction.guild!, true);
+  
   const enableEmbed = createSuccessEmbed(
     'Verification System Enabled',
-    'The age verification system has been enabled for this server.\n\nMake sure to configure the verification channel and age unverified role.'
+    'The age verification system has been enabled for this server.\n\nMake sure to configure the verification channel, age unverified role and verified role.'
   );
   
   await interaction.reply({ embeds: [enableEmbed], flags: MessageFlags.Ephemeral });
@@ -344,7 +688,8 @@ async function handleEnable(interaction: ChatInputCommandInteraction): Promise<v
 }
 
 async function handleDisable(interaction: ChatInputCommandInteraction): Promise<void> {
-  // TODO: Implement disable functionality
+  await setVerificationEnabled(interaction.guild!, false);
+  
   const disableEmbed = createErrorEmbed(
     'Verification System Disabled',
     'The age verification system has been disabled for this server.\n\n⚠️ New members will not be prompted to verify their age.'
@@ -366,6 +711,7 @@ const appealCommand: BotCommand = {
   data: new SlashCommandBuilder()
     .setName('appeal')
     .setDescription('Appeal a punishment')
+    .setContexts(InteractionContextType.Guild, InteractionContextType.BotDM)
     .addStringOption(option => 
       option
         .setName('type')
@@ -376,35 +722,89 @@ const appealCommand: BotCommand = {
           { name: 'Mute', value: 'MUTE' },
           { name: 'Ban', value: 'BAN' }
         )
+    )
+    .addStringOption(option =>
+      option
+        .setName('server')
+        .setDescription('The server ID, when appealing from DMs (e.g. after a ban)')
+        .setRequired(false)
     ) as SlashCommandBuilder,
     
   async execute(interaction: ChatInputCommandInteraction) {
-    const type = interaction.options.getString('type')!;
+    const type = interaction.options.getString('type')! as AppealableType;
+    const guildId = interaction.guildId || interaction.options.getString('server')?.trim();
+    
+    if (!guildId) {
+      await interaction.reply({
+        content: 'Please provide the `server` ID of the server you are appealing to.',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
     
     try {
-      // TODO: Implement actual appeal system
+      const guild = await interaction.client.guilds.fetch(guildId).catch(() => null);
       
-      const embed = createInfoEmbed(
-        'Appeal System',
-        `You have requested to appeal a ${type.toLowerCase()}.\n\nThe appeal system is currently being set up. Please contact a server administrator directly for now.`
-      );
+      if (!guild) {
+        await interaction.reply({
+          content: 'I could not find that server. Please check the server ID.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
       
-      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      const config = await ModConfigModel.getByGuildId(guild.id);
+      const ineligibleReason = await checkAppealEligibility(config, interaction.user.id);
+      
+      if (ineligibleReason) {
+        await interaction.reply({ content: ineligibleReason, flags: MessageFlags.Ephemeral });
+        return;
+      }
+      
+      const infraction = await getAppealableInfraction(guild.id, interaction.user.id, type);
+      
+      if (!infraction) {
+        await interaction.reply({
+          content: `You don't have any active ${type.toLowerCase()}s to appeal.`,
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+      
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+      
+      try {
+        await sendAppealForm(interaction.client, guild, interaction.user.id, infraction);
+      } catch (error) {
+        logWithEmoji('warn', `Could not send appeal form to ${interaction.user.tag}: ${error}`, 'Appeals');
+        markCommandFailed(interaction, error);
+        await interaction.editReply({
+          content: 'There was an error starting the appeal process. Do you have DMs enabled?'
+        });
+        return;
+      }
+      
+      await interaction.editReply({ content: 'I\'ve sent you a DM with the appeal form.' });
       
       logWithEmoji('info', 
-        `Appeal requested by ${interaction.user.tag} for ${type}`,
+        `Appeal form sent to ${interaction.user.tag} for case ${infraction.id}`,
         'Appeals'
       );
       
     } catch (error) {
       logWithEmoji('error', `Error in appeal command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
         'There was an error processing your appeal request.'
       );
       
-      await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      if (interaction.deferred || interaction.replied) {
+        await interaction.editReply({ embeds: [errorEmbed] });
+      } else {
+        await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+      }
     }
   }
 };
@@ -412,7 +812,13 @@ const appealCommand: BotCommand = {
 const verifyStatusCommand: BotCommand = {
   data: new SlashCommandBuilder()
     .setName('verifystatus')
-    .setDescription('Check your verification status') as SlashCommandBuilder,
+    .setDescription('Check your verification status')
+    .addUserOption(option =>
+      option
+        .setName('user')
+        .setDescription('Member to check (moderators only)')
+        .setRequired(false)
+    ) as SlashCommandBuilder,
     
   async execute(interaction: ChatInputCommandInteraction) {
     if (!interaction.guild) {
@@ -423,39 +829,91 @@ const verifyStatusCommand: BotCommand = {
       return;
     }
     
+    const targetUser = interaction.options.getUser('user') || interaction.user;
+    const isSelf = targetUser.id === interaction.user.id;
+    
+    if (!isSelf && !interaction.memberPermissions?.has(PermissionFlagsBits.ModerateMembers)) {
+      await interaction.reply({
+        content: 'You can only check your own verification status.',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+    
     try {
-      const member = interaction.guild.members.cache.get(interaction.user.id);
+      const member = await interaction.guild.members.fetch(targetUser.id).catch(() => null);
       
       if (!member) {
         await interaction.reply({
-          content: 'Could not find your membership in this server.',
+          content: isSelf
+            ? 'Could not find your membership in this server.'
+            : `${targetUser.tag} is not a member of this server.`,
           flags: MessageFlags.Ephemeral
         });
         return;
       }
       
-      // TODO: Check actual verification status from database/roles
+      const status = await getVerificationStatus(member);
+      
+      const statusText = status.isVerified
+        ? 'Verified ✅'
+        : status.hasUnverifiedRole ? 'Unverified ❌' : 'Not verified ⚠️';
+      
+      const accessText = status.hasNsfwAccess
+        ? 'NSFW access 🔞'
+        : status.isVerified ? 'NSFW access turned off' : 'No NSFW access';
+      
+      const verifiedAtText = status.verifiedAt
+        ? `<t:${Math.floor(status.verifiedAt.getTime() / 1000)}:f>`
+        : status.isVerified ? 'Not recorded' : 'Not verified';
       
       const embed = new EmbedBuilder()
-        .setTitle('🔞 Your Verification Status')
-        .setColor(0x0099FF)
-        .setDescription('Your current verification status in this server.')
+        .setTitle(isSelf ? '🔞 Your Verification Status' : `🔞 Verification Status for ${targetUser.tag}`)
+        .setColor(status.isVerified ? 0x00FF00 : 0xFF9900)
+        .setDescription(isSelf
+          ? 'Your current verification status in this server.'
+          : `Current verification status of ${targetUser.toString()}.`)
         .addFields(
-          { name: 'Status', value: 'Checking... 🔄', inline: true },
-          { name: 'Access Level', value: 'Checking...', inline: true },
-          { name: 'Age Verified', value: 'Checking...', inline: true }
+          { name: 'Status', value: statusText, inline: true },
+          { name: 'Access Level', value: accessText, inline: true },
+          { name: 'Age Verified', value: verifiedAtText, inline: true }
         )
-        .setFooter({ text: 'Use the verification button in the verification channel to verify your age' })
         .setTimestamp();
       
+      if (isSelf) {
+        if (!status.isVerified) {
+          embed.setFooter({ text: 'Use the verification button in the verification channel to verify your age' });
+        }
+      } else {
+        embed.addFields({
+          name: 'Approved By',
+          value: status.approvedBy ? `<@${status.approvedBy}>` : status.isVerified ? 'Not recorded' : 'N/A',
+          inline: true
+        });
+        
+        const history = (await VerificationLogModel.getByUser(interaction.guild.id, member.id)).slice(0, 10);
+        
+        embed.addFields({
+          name: 'Recent History',
+          value: history.length > 0
+            ? history.map(entry => {
+                const time = Math.floor(fromDatabaseTimestamp(entry.timestamp).getTime() / 1000);
+                const moderator = entry.moderator_id ? ` by <@${entry.moderator_id}>` : '';
+                return `<t:${time}:f> ${entry.action.replace('_', ' ')}${moderator}`;
+              }).join('\n')
+            : 'No verification activity has been recorded.'
+        });
+      }
+      
       await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
       
     } catch (error) {
       logWithEmoji('error', `Error in verifystatus command: ${error}`, 'Commands');
+      markCommandFailed(interaction, error);
       
       const errorEmbed = createErrorEmbed(
         'Error',
-        'There was an error checking your verification status.'
+        'There was an error checking the verification status.'
       );
       
       await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
@@ -0,0 +1,282 @@
+/**
+ * Database Backups
+ * ---------------
+ * Rotated backups, integrity checks and restoring a backup over the live database
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { backupDatabase, BACKUP_DIR, DB_PATH } from './index';
+import { loadMigrations } from './migrator';
+import { logWithEmoji } from '../utils';
+import { isHealthy } from '../utils/healthcheck';
+
+//=============================================================================
+// CONFIGURATION
+//=============================================================================
+
+// Only files named by backupDatabase are rotated, anything else in the directory is left alone
+const BACKUP_FILE_PATTERN = /^bot-backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.db$/;
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export interface BackupFile {
+  filename: string;
+  path: string;
+  createdAt: Date;
+  size: number;
+}
+
+/**
+ * How many backups to keep; a backup kept by any rule survives
+ */
+export interface BackupRetention {
+  /** The most recent backups, whenever they were taken */
+  keepLast: number;
+  /** The newest backup of each of this many most recent days */
+  keepDaily: number;
+  /** The newest backup of each of this many most recent weeks */
+  keepWeekly: number;
+}
+
+export interface BackupIntegrity {
+  ok: boolean;
+  problems: string[];
+}
+
+//=============================================================================
+// SETTINGS
+//=============================================================================
+
+/**
+ * Hours between scheduled backups, 0 when they are turned off
+ */
+export function getBackupInterval(): number {
+  return readNumber('BACKUP_INTERVAL_HOURS', 24);
+}
+
+/**
+ * Retention policy from the environment
+ * At least one recent backup is always kept
+ */
+export function getBackupRetention(): BackupRetention {
+  return {
+    keepLast: Math.max(1, readNumber('BACKUP_KEEP_LAST', 7)),
+    keepDaily: readNumber('BACKUP_KEEP_DAILY', 7),
+    keepWeekly: readNumber('BACKUP_KEEP_WEEKLY', 4)
+  };
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+
+  const parsed = Number(value);
+  if (isNaN(parsed) || parsed < 0) {
+    logWithEmoji('warn', `Ignoring invalid ${name}: ${value}`, 'Database');
+    return fallback;
+  }
+
+  return parsed;
+}
+
+//=============================================================================
+// BACKUP FILES
+//=============================================================================
+
+/**
+ * List rotated backups, newest first
+ */
+export function listBackups(): BackupFile[] {
+  if (!fs.existsSync(BACKUP_DIR)) return [];
+
+  return fs.readdirSync(BACKUP_DIR)
+    .map(filename => ({ filename, match: BACKUP_FILE_PATTERN.exec(filename) }))
+    .filter(({ match }) => match !== null)
+    .map(({ filename, match }) => {
+      const [, date, hours, minutes, seconds, milliseconds] = match!;
+      const filePath = path.join(BACKUP_DIR, filename);
+
+      return {
+        filename,
+        path: filePath,
+        createdAt: new Date(`${date}T${hours}:${minutes}:${seconds}.${milliseconds}Z`),
+        size: fs.statSync(filePath).size
+      };
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Take a backup, then delete the backups the retention policy no longer keeps
+ */
+export async function createRotatedBackup(): Promise<{ path: string; size: number; removed: BackupFile[] }> {
+  const backupPath = await backupDatabase();
+  const removed = pruneBackups();
+
+  return { path: backupPath, size: fs.statSync(backupPath).size, removed };
+}
+
+/**
+ * Delete backups not kept by the retention policy
+ * @returns The backups deleted
+ */
+export function pruneBackups(retention: BackupRetention = getBackupRetention()): BackupFile[] {
+  const backups = listBackups();
+  const kept = new Set<string>(backups.slice(0, retention.keepLast).map(backup => backup.filename));
+
+  keepNewestPerPeriod(backups, kept, retention.keepDaily, backup => backup.createdAt.toISOString().split('T')[0]);
+  keepNewestPerPeriod(backups, kept, retention.keepWeekly, backup => getWeekStart(backup.createdAt));
+
+  const removed: BackupFile[] = [];
+  for (const backup of backups) {
+    if (kept.has(backup.filename)) continue;
+
+    try {
+      fs.unlinkSync(backup.path);
+      removed.push(backup);
+    } catch (error) {
+      logWithEmoji('error', `Failed to remove old backup ${backup.filename}: ${error}`, 'Database');
+    }
+  }
+
+  if (removed.length > 0) {
+    logWithEmoji('info', `Removed ${removed.length} old backup(s)`, 'Database');
+  }
+
+  return removed;
+}
+
+/**
+ * Keep the newest backup in each of the most recent periods
+ * @param backups Backups, newest first
+ */
+function keepNewestPerPeriod(
+  backups: BackupFile[],
+  kept: Set<string>,
+  periods: number,
+  getPeriod: (backup: BackupFile) => string
+): void {
+  const seen = new Set<string>();
+
+  for (const backup of backups) {
+    const period = getPeriod(backup);
+    if (seen.has(period)) continue;
+    if (seen.size >= periods) break;
+
+    seen.add(period);
+    kept.add(backup.filename);
+  }
+}
+
+/**
+ * The Monday starting a date's UTC week, as YYYY-MM-DD
+ */
+function getWeekStart(date: Date): string {
+  const monday = new Date(date);
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().split('T')[0];
+}
+
+//=============================================================================
+// RESTORE
+//=============================================================================
+
+/**
+ * Check a backup is an intact copy of the bot's database, at a schema this code knows
+ */
+export function checkBackupIntegrity(filePath: string): BackupIntegrity {
+  const problems: string[] = [];
+  let backup: Database.Database | null = null;
+
+  try {
+    backup = new Database(filePath, { readonly: true, fileMustExist: true });
+
+    const results = backup.pragma('integrity_check') as { integrity_check: string }[];
+    if (results.length !== 1 || results[0].integrity_check !== 'ok') {
+      problems.push(...results.slice(0, 10).map(result => `Integrity check: ${result.integrity_check}`));
+    }
+
+    const migrations = backup.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'migrations'
+    `).get();
+    if (!migrations) {
+      problems.push('No migrations table, so this is not a backup of the bot\'s database');
+    } else {
+      // A backup from a newer version of the bot has a schema this code would misread
+      const known = new Set(loadMigrations().map(migration => migration.filename));
+      const applied = backup.prepare('SELECT filename FROM migrations ORDER BY id').all() as { filename: string }[];
+      const unknown = applied.map(row => row.filename).filter(filename => !known.has(filename));
+
+      if (unknown.length > 0) {
+        problems.push(`Applied migration(s) missing from this version of the bot: ${unknown.join(', ')}`);
+      }
+    }
+
+    const violations = backup.pragma('foreign_key_check') as unknown[];
+    if (violations.length > 0) {
+      problems.push(`${violations.length} foreign key violation(s)`);
+    }
+  } catch (error) {
+    problems.push(`Could not read the file as a SQLite database: ${error}`);
+  } finally {
+    backup?.close();
+  }
+
+  return { ok: problems.length === 0, problems };
+}
+
+/**
+ * Replace the database file with a backup
+ * The current database is copied aside first
+ * @returns Path of the copy taken of the database being replaced, if there was one
+ * @throws If the bot is running or the backup fails its integrity check
+ */
+export async function restoreBackup(filePath: string): Promise<string | null> {
+  // A running bot would keep writing to the replaced file through its open connection
+  if (isHealthy()) {
+    throw new Error('The bot is running (health.json reports it online), stop it before restoring');
+  }
+
+  const integrity = checkBackupIntegrity(filePath);
+  if (!integrity.ok) {
+    throw new Error(`Backup failed its integrity check: ${integrity.problems.join('; ')}`);
+  }
+
+  // Copy the current database aside, with anything still in its WAL file
+  let previousPath: string | null = null;
+  if (fs.existsSync(DB_PATH)) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    previousPath = path.join(BACKUP_DIR, `bot-pre-restore-${timestamp}.db`);
+    fs.mkdirSync(BACKUP_DIR, { recursive: true });
+
+    const current = new Database(DB_PATH, { fileMustExist: true });
+    try {
+      await current.backup(previousPath);
+    } finally {
+      current.close();
+    }
+
+    const previous = new Database(previousPath);
+    previous.pragma('journal_mode = DELETE');
+    previous.close();
+  }
+
+  // Copy next to the database first, so the swap itself is a single rename
+  const stagingPath = `${DB_PATH}.restoring`;
+  fs.copyFileSync(filePath, stagingPath);
+
+  for (const suffix of ['-wal', '-shm']) {
+    if (fs.existsSync(`${DB_PATH}${suffix}`)) {
+      fs.unlinkSync(`${DB_PATH}${suffix}`);
+    }
+  }
+
+  fs.renameSync(stagingPath, DB_PATH);
+  logWithEmoji('success', `Restored database from ${filePath}`, 'Database');
+
+  return previousPath;
+}
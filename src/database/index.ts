@@ -8,13 +8,22 @@ import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
 import { logWithEmoji } from '../utils';
+import {
+  migrateUp,
+  migrateDown,
+  getMigrationStatus as readMigrationStatus,
+  MIGRATIONS_PATH,
+  MigrationOptions,
+  MigrationResult,
+  MigrationStatus
+} from './migrator';
 
 //=============================================================================
 // CONFIGURATION
 //=============================================================================
 
 const DB_PATH = process.env.DATABASE_PATH || './data/bot.db';
-const MIGRATIONS_PATH = './src/database/migrations';
+const BACKUP_DIR = process.env.BACKUP_DIR || './data/backups';
 
 // Global database instance
 let db: Database.Database | null = null;
@@ -25,8 +34,9 @@ let db: Database.Database | null = null;
 
 /**
  * Setup and initialize the database
+ * @param options.skipMigrations Connect without applying pending migrations, for the migration commands
  */
-export async function setupDatabase(): Promise<void> {
+export async function setupDatabase(options: { skipMigrations?: boolean } = {}): Promise<void> {
   try {
     logWithEmoji('info', 'Setting up database...', 'Database');
     
@@ -49,7 +59,9 @@ export async function setupDatabase(): Promise<void> {
     logWithEmoji('success', `Database connected: ${DB_PATH}`, 'Database');
     
     // Run migrations
-    await runMigrations();
+    if (!options.skipMigrations) {
+      await runMigrations();
+    }
     
     logWithEmoji('success', 'Database setup complete', 'Database');
     
@@ -62,8 +74,8 @@ export async function setupDatabase(): Promise<void> {
 /**
  * Initialize database (alias for setupDatabase for compatibility)
  */
-export async function initializeDatabase(): Promise<void> {
-  return setupDatabase();
+export async function initializeDatabase(options: { skipMigrations?: boolean } = {}): Promise<void> {
+  return setupDatabase(options);
 }
 
 /**
@@ -104,60 +116,12 @@ async function runMigrations(): Promise<void> {
     
     logWithEmoji('info', 'Running database migrations...', 'Database');
     
-    // Create migrations table if it doesn't exist
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS migrations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        filename TEXT UNIQUE NOT NULL,
-        executed_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Get list of executed migrations
-    const executedMigrations = db
-      .prepare('SELECT filename FROM migrations ORDER BY filename')
-      .all()
-      .map((row: any) => row.filename);
-
-    // Get list of migration files
-    const migrationFiles = fs.existsSync(MIGRATIONS_PATH) 
-      ? fs.readdirSync(MIGRATIONS_PATH)
-          .filter(file => file.endsWith('.sql'))
-          .sort()
-      : [];
-
-    if (migrationFiles.length === 0) {
-      logWithEmoji('warn', 'No migration files found', 'Database');
-      return;
-    }
-
-    // Execute pending migrations
-    let migrationsRun = 0;
-    for (const filename of migrationFiles) {
-      if (!executedMigrations.includes(filename)) {
-        const migrationPath = path.join(MIGRATIONS_PATH, filename);
-        const migrationSQL = fs.readFileSync(migrationPath, 'utf8');
-        
-        logWithEmoji('info', `Running migration: ${filename}`, 'Database');
-        
-        // Execute migration in a transaction
-        const transaction = db.transaction(() => {
-          db!.exec(migrationSQL);
-          db!
-            .prepare('INSERT INTO migrations (filename) VALUES (?)')
-            .run(filename);
-        });
-        
-        transaction();
-        migrationsRun++;
-        logWithEmoji('success', `Migration completed: ${filename}`, 'Database');
-      }
-    }
+    const results = migrateUp(db);
     
-    if (migrationsRun === 0) {
+    if (results.length === 0) {
       logWithEmoji('info', 'Database is up to date (no migrations needed)', 'Database');
     } else {
-      logWithEmoji('success', `Completed ${migrationsRun} database migration(s)`, 'Database');
+      logWithEmoji('success', `Completed ${results.length} database migration(s)`, 'Database');
     }
     
   } catch (error) {
@@ -166,10 +130,56 @@ async function runMigrations(): Promise<void> {
   }
 }
 
+/**
+ * Apply pending migrations, or with dryRun report the SQL they would run
+ */
+export function applyPendingMigrations(options: MigrationOptions = {}): MigrationResult[] {
+  return migrateUp(getDatabase(), options);
+}
+
+/**
+ * Revert the most recently applied migrations, or with dryRun report the SQL that would run
+ */
+export function revertMigrations(steps: number = 1, options: MigrationOptions = {}): MigrationResult[] {
+  return migrateDown(getDatabase(), steps, options);
+}
+
+/**
+ * List every migration and whether it has been applied
+ */
+export function getMigrationStatus(): MigrationStatus[] {
+  return readMigrationStatus(getDatabase());
+}
+
 //=============================================================================
 // QUERY UTILITIES
 //=============================================================================
 
+/**
+ * Convert parameters into values SQLite can bind (booleans become 1/0)
+ */
+function normalizeParams(params: any[]): any[] {
+  return params.map(param => typeof param === 'boolean' ? (param ? 1 : 0) : param);
+}
+
+/**
+ * Format a date the way SQLite's CURRENT_TIMESTAMP does (UTC, "YYYY-MM-DD HH:MM:SS")
+ */
+export function toDatabaseTimestamp(date: Date | number): string {
+  const value = typeof date === 'number' ? new Date(date) : date;
+  return value.toISOString().replace('T', ' ').substring(0, 19);
+}
+
+/**
+ * Parse a timestamp read from the database (CURRENT_TIMESTAMP or ISO format)
+ */
+export function fromDatabaseTimestamp(value: string): Date {
+  if (value.includes('T')) {
+    return new Date(value);
+  }
+  return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
 /**
  * Execute a query with error handling
  */
@@ -180,7 +190,7 @@ export function executeQuery<T = any>(
   try {
     const database = getDatabase();
     const stmt = database.prepare(query);
-    const result = stmt.all(...params);
+    const result = stmt.all(...normalizeParams(params));
     return result as T[];
   } catch (error) {
     logWithEmoji('error', `Query execution failed: ${error}`, 'Database');
@@ -200,7 +210,7 @@ export function executeQueryOne<T = any>(
   try {
     const database = getDatabase();
     const stmt = database.prepare(query);
-    const result = stmt.get(...params);
+    const result = stmt.get(...normalizeParams(params));
     return (result as T) || null;
   } catch (error) {
     logWithEmoji('error', `Query execution failed: ${error}`, 'Database');
@@ -220,7 +230,7 @@ export function executeUpdate(
   try {
     const database = getDatabase();
     const stmt = database.prepare(query);
-    const result = stmt.run(...params);
+    const result = stmt.run(...normalizeParams(params));
     return result;
   } catch (error) {
     logWithEmoji('error', `Update execution failed: ${error}`, 'Database');
@@ -250,12 +260,13 @@ export function executeTransaction(operations: () => void): void {
 
 /**
  * Backup the database
+ * Uses SQLite's online backup, so the bot can keep writing while it runs
  */
-export function backupDatabase(backupPath?: string): string {
+export async function backupDatabase(backupPath?: string): Promise<string> {
   try {
     const database = getDatabase();
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const defaultBackupPath = `./data/backups/bot-backup-${timestamp}.db`;
+    const defaultBackupPath = path.join(BACKUP_DIR, `bot-backup-${timestamp}.db`);
     const finalBackupPath = backupPath || defaultBackupPath;
     
     // Ensure backup directory exists
@@ -264,8 +275,12 @@ export function backupDatabase(backupPath?: string): string {
       fs.mkdirSync(backupDir, { recursive: true });
     }
     
-    // Create backup
-    database.backup(finalBackupPath);
+    // Create backup, switched out of WAL mode so it stays a single file when opened
+    await database.backup(finalBackupPath);
+    const backup = new Database(finalBackupPath);
+    backup.pragma('journal_mode = DELETE');
+    backup.close();
+    
     logWithEmoji('success', `Database backed up to: ${finalBackupPath}`, 'Database');
     
     return finalBackupPath;
@@ -331,17 +346,7 @@ export function checkDatabaseHealth(): boolean {
 // GRACEFUL SHUTDOWN
 //=============================================================================
 
-// Register shutdown handlers
-process.on('SIGINT', () => {
-  logWithEmoji('info', 'Gracefully closing database connection...', 'Database');
-  closeDatabase();
-});
-
-process.on('SIGTERM', () => {
-  logWithEmoji('info', 'Gracefully closing database connection...', 'Database');
-  closeDatabase();
-});
-
+// Signals are handled by the bot's shutdown, which lets systems write to the database first
 process.on('exit', () => {
   closeDatabase();
 });
@@ -353,5 +358,8 @@ process.on('exit', () => {
 export {
   db,
   DB_PATH,
+  BACKUP_DIR,
   MIGRATIONS_PATH
 };
+
+export { MigrationDriftError, MigrationResult, MigrationStatus } from './migrator';
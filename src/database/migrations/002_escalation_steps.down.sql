@@ -0,0 +1,5 @@
+-- 002_escalation_steps.down.sql
+-- Remove per-guild escalation ladders, guilds fall back to the default punishment tiers
+
+DROP INDEX IF EXISTS idx_escalation_steps_guild;
+DROP TABLE escalation_steps;
@@ -0,0 +1,18 @@
+-- 002_escalation_steps.sql
+-- Per-guild escalation ladder applied when warnings are issued
+
+-- Escalation steps - punishment applied once a user reaches a warning count
+CREATE TABLE escalation_steps (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    guild_id TEXT NOT NULL,
+    warning_count INTEGER NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('MUTE', 'BAN')),
+    duration INTEGER NULL, -- milliseconds, NULL for permanent
+    allow_appeal BOOLEAN DEFAULT TRUE,
+    created_by TEXT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (guild_id) REFERENCES guilds(id) ON DELETE CASCADE,
+    UNIQUE(guild_id, warning_count)
+);
+
+CREATE INDEX idx_escalation_steps_guild ON escalation_steps(guild_id, warning_count);
@@ -0,0 +1,8 @@
+-- 003_scheduled_jobs.down.sql
+-- Remove the persistent job scheduler's table, dropping any jobs still queued
+
+DROP TRIGGER IF EXISTS update_scheduled_jobs_timestamp;
+DROP INDEX IF EXISTS idx_scheduled_jobs_dedupe;
+DROP INDEX IF EXISTS idx_scheduled_jobs_type;
+DROP INDEX IF EXISTS idx_scheduled_jobs_due;
+DROP TABLE scheduled_jobs;
@@ -0,0 +1,30 @@
+-- 003_scheduled_jobs.sql
+-- Persistent job queue for timed actions (unmutes, temporary bans, expiries)
+
+-- Scheduled jobs - polled by the scheduler system and run once due
+CREATE TABLE scheduled_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    guild_id TEXT NULL,
+    payload TEXT NOT NULL DEFAULT '{}', -- JSON object passed to the handler
+    run_at DATETIME NOT NULL,
+    status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED')),
+    attempts INTEGER DEFAULT 0,
+    max_attempts INTEGER DEFAULT 5,
+    last_error TEXT NULL,
+    dedupe_key TEXT NULL, -- At most one pending job per key
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME NULL
+);
+
+CREATE INDEX idx_scheduled_jobs_due ON scheduled_jobs(status, run_at);
+CREATE INDEX idx_scheduled_jobs_type ON scheduled_jobs(type);
+CREATE UNIQUE INDEX idx_scheduled_jobs_dedupe ON scheduled_jobs(dedupe_key)
+    WHERE dedupe_key IS NOT NULL AND status = 'PENDING';
+
+CREATE TRIGGER update_scheduled_jobs_timestamp
+    AFTER UPDATE ON scheduled_jobs
+    BEGIN
+        UPDATE scheduled_jobs SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
@@ -0,0 +1,27 @@
+-- 004_warning_ttl.down.sql
+-- Warnings stop expiring, restore the views from 001_initial.sql
+
+DROP VIEW active_warnings;
+CREATE VIEW active_warnings AS
+SELECT 
+    i.*,
+    g.name as guild_name
+FROM infractions i
+JOIN guilds g ON i.guild_id = g.id
+WHERE i.type = 'WARNING' AND i.active = TRUE;
+
+DROP VIEW user_infraction_summary;
+CREATE VIEW user_infraction_summary AS
+SELECT 
+    guild_id,
+    user_id,
+    COUNT(*) as total_infractions,
+    COUNT(CASE WHEN active = TRUE THEN 1 END) as active_infractions,
+    COUNT(CASE WHEN type = 'WARNING' AND active = TRUE THEN 1 END) as active_warnings,
+    COUNT(CASE WHEN type = 'MUTE' AND active = TRUE THEN 1 END) as active_mutes,
+    COUNT(CASE WHEN type = 'BAN' AND active = TRUE THEN 1 END) as active_bans,
+    MAX(timestamp) as last_infraction
+FROM infractions
+GROUP BY guild_id, user_id;
+
+ALTER TABLE mod_config DROP COLUMN warning_ttl;
@@ -0,0 +1,32 @@
+-- 004_warning_ttl.sql
+-- Per-guild warning expiry
+
+-- Warnings older than this many days stop counting (NULL to never expire)
+ALTER TABLE mod_config ADD COLUMN warning_ttl INTEGER NULL;
+
+-- Warnings past their expiry no longer count as active, even before the
+-- scheduler gets round to flipping them
+DROP VIEW active_warnings;
+CREATE VIEW active_warnings AS
+SELECT
+    i.*,
+    g.name as guild_name
+FROM infractions i
+JOIN guilds g ON i.guild_id = g.id
+WHERE i.type = 'WARNING' AND i.active = TRUE
+  AND (i.expires_at IS NULL OR i.expires_at > CURRENT_TIMESTAMP);
+
+DROP VIEW user_infraction_summary;
+CREATE VIEW user_infraction_summary AS
+SELECT
+    guild_id,
+    user_id,
+    COUNT(*) as total_infractions,
+    COUNT(CASE WHEN active = TRUE THEN 1 END) as active_infractions,
+    COUNT(CASE WHEN type = 'WARNING' AND active = TRUE
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP) THEN 1 END) as active_warnings,
+    COUNT(CASE WHEN type = 'MUTE' AND active = TRUE THEN 1 END) as active_mutes,
+    COUNT(CASE WHEN type = 'BAN' AND active = TRUE THEN 1 END) as active_bans,
+    MAX(timestamp) as last_infraction
+FROM infractions
+GROUP BY guild_id, user_id;
@@ -0,0 +1,5 @@
+-- 005_infraction_edits.down.sql
+-- Remove the case edit history
+
+DROP INDEX IF EXISTS idx_infraction_edits_infraction;
+DROP TABLE infraction_edits;
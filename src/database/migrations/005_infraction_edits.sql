@@ -0,0 +1,19 @@
+-- 005_infraction_edits.sql
+-- Audit trail for changes made to infractions through /case
+
+-- Infraction edits - one row per changed field
+CREATE TABLE infraction_edits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    infraction_id TEXT NOT NULL,
+    guild_id TEXT NOT NULL,
+    editor_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    old_value TEXT NULL,
+    new_value TEXT NULL,
+    reason TEXT NULL, -- Why the change was made
+    edited_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (infraction_id) REFERENCES infractions(id) ON DELETE CASCADE,
+    FOREIGN KEY (guild_id) REFERENCES guilds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_infraction_edits_infraction ON infraction_edits(infraction_id, edited_at);
@@ -0,0 +1,18 @@
+-- 006_appeal_claims.down.sql
+-- Remove appeal claims, restoring the view from 001_initial.sql
+
+DROP VIEW pending_appeals;
+
+ALTER TABLE appeals DROP COLUMN claimed_at;
+ALTER TABLE appeals DROP COLUMN claimed_by;
+
+CREATE VIEW pending_appeals AS
+SELECT 
+    a.*,
+    i.reason as original_reason,
+    i.moderator_id as original_moderator,
+    g.name as guild_name
+FROM appeals a
+JOIN infractions i ON a.case_id = i.id
+JOIN guilds g ON a.guild_id = g.id
+WHERE a.status = 'PENDING';
@@ -0,0 +1,18 @@
+-- 006_appeal_claims.sql
+-- Moderator claims on pending appeals, so two moderators don't answer the same one
+
+ALTER TABLE appeals ADD COLUMN claimed_by TEXT NULL;
+ALTER TABLE appeals ADD COLUMN claimed_at DATETIME NULL;
+
+-- Recreate the view so it picks up the claim columns
+DROP VIEW pending_appeals;
+CREATE VIEW pending_appeals AS
+SELECT
+    a.*,
+    i.reason as original_reason,
+    i.moderator_id as original_moderator,
+    g.name as guild_name
+FROM appeals a
+JOIN infractions i ON a.case_id = i.id
+JOIN guilds g ON a.guild_id = g.id
+WHERE a.status = 'PENDING';
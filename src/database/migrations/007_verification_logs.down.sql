@@ -0,0 +1,6 @@
+-- 007_verification_logs.down.sql
+-- Remove the verification audit log
+
+DROP INDEX IF EXISTS idx_verification_logs_action;
+DROP INDEX IF EXISTS idx_verification_logs_user;
+DROP TABLE verification_logs;
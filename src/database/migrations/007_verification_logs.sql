@@ -0,0 +1,16 @@
+-- 007_verification_logs.sql
+-- Audit trail for verification decisions and NSFW access changes
+
+-- Verification logs - one row per action (started, approved, nsfw_enabled, ...)
+CREATE TABLE verification_logs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    guild_id TEXT NOT NULL,
+    moderator_id TEXT NULL, -- NULL when the user acted on their own behalf
+    action TEXT NOT NULL,
+    metadata TEXT NULL, -- JSON
+    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_verification_logs_user ON verification_logs(guild_id, user_id, timestamp);
+CREATE INDEX idx_verification_logs_action ON verification_logs(guild_id, action, timestamp);
@@ -0,0 +1,6 @@
+-- 008_pending_verifications.down.sql
+-- Remove persisted verifications, in-progress ones are lost
+
+DROP TRIGGER IF EXISTS update_pending_verifications_timestamp;
+DROP INDEX IF EXISTS idx_pending_verifications_guild;
+DROP TABLE pending_verifications;
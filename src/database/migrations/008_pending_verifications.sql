@@ -0,0 +1,23 @@
+-- 008_pending_verifications.sql
+-- Verifications in progress, so uploads and reviews survive a restart
+
+-- Pending verifications - one per user, removed once decided, cancelled or expired
+CREATE TABLE pending_verifications (
+    user_id TEXT PRIMARY KEY,
+    guild_id TEXT NOT NULL,
+    step TEXT NOT NULL CHECK (step IN ('initiated', 'awaiting_upload', 'reviewing', 'completed')),
+    dm_channel_id TEXT NULL,
+    message_id TEXT NULL, -- Review message in the mod channel
+    attachment_url TEXT NULL,
+    timestamp DATETIME NOT NULL, -- Start of the current step, used for the expiry
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_pending_verifications_guild ON pending_verifications(guild_id, step);
+
+CREATE TRIGGER update_pending_verifications_timestamp
+    AFTER UPDATE ON pending_verifications
+    BEGIN
+        UPDATE pending_verifications SET updated_at = CURRENT_TIMESTAMP WHERE user_id = NEW.user_id;
+    END;
@@ -0,0 +1,8 @@
+-- 009_verification_images.down.sql
+-- Stop tracking verification images for redaction
+
+DROP INDEX IF EXISTS idx_verification_images_pending;
+DROP INDEX IF EXISTS idx_verification_images_user;
+DROP TABLE verification_images;
+
+ALTER TABLE verification_config DROP COLUMN image_retention_hours;
@@ -0,0 +1,21 @@
+-- 009_verification_images.sql
+-- Track ID images so they can be removed once a verification is decided
+
+-- How long decided ID images are kept before removal, 0 removes them straight away
+ALTER TABLE verification_config ADD COLUMN image_retention_hours INTEGER DEFAULT 0;
+
+-- Verification images - every message that carries a user's ID photo
+CREATE TABLE verification_images (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    guild_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('review', 'upload')), -- Mod channel review or the user's DM upload
+    channel_id TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    decided_at DATETIME NULL, -- Retention starts once the verification is decided
+    redacted_at DATETIME NULL
+);
+
+CREATE INDEX idx_verification_images_user ON verification_images(guild_id, user_id);
+CREATE INDEX idx_verification_images_pending ON verification_images(redacted_at, decided_at);
@@ -0,0 +1,4 @@
+-- 010_system_state.down.sql
+-- Forget systems switched on or off with /system, every system uses its default again
+
+DROP TABLE system_state;
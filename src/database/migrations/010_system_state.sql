@@ -0,0 +1,10 @@
+-- 010_system_state.sql
+-- Persist systems switched on or off at runtime with /system
+
+-- System state - only systems toggled by an owner have a row, the rest use their default
+CREATE TABLE system_state (
+    name TEXT PRIMARY KEY,
+    enabled BOOLEAN NOT NULL,
+    updated_by TEXT NULL, -- Owner who last changed it
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,4 @@
+-- 011_verified_role.down.sql
+-- Drop the per-guild verified role
+
+ALTER TABLE verification_config DROP COLUMN verified_role_id;
@@ -0,0 +1,5 @@
+-- 011_verified_role.sql
+-- Store the role granted on approval per guild instead of hardcoding it
+
+-- The 18+ role given to approved members, kept when they turn NSFW access off
+ALTER TABLE verification_config ADD COLUMN verified_role_id TEXT NULL;
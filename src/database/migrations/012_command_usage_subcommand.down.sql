@@ -0,0 +1,4 @@
+-- 012_command_usage_subcommand.down.sql
+-- Record command usage by top-level command only
+
+ALTER TABLE command_usage DROP COLUMN subcommand;
@@ -0,0 +1,5 @@
+-- 012_command_usage_subcommand.sql
+-- Record which subcommand was run so /botstats can tell them apart
+
+-- Subcommand path, e.g. "stats" or "group stats", NULL for commands without subcommands
+ALTER TABLE command_usage ADD COLUMN subcommand TEXT NULL;
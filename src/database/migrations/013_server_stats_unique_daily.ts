@@ -0,0 +1,67 @@
+/**
+ * 013_server_stats_unique_daily
+ * ----------------------------
+ * One server-wide stats row per guild and day
+ *
+ * UNIQUE(guild_id, date, channel_id) never matches when channel_id is NULL, so server-wide rows
+ * could be duplicated. Duplicates are merged into the oldest row before a partial index enforces it.
+ */
+
+import Database from 'better-sqlite3';
+
+interface DuplicateDay {
+  guild_id: string;
+  date: string;
+  keep_id: number;
+}
+
+export function up(db: Database.Database): void {
+  const duplicates = db.prepare(`
+    SELECT guild_id, date, MIN(id) as keep_id
+    FROM server_stats_daily
+    WHERE channel_id IS NULL
+    GROUP BY guild_id, date
+    HAVING COUNT(*) > 1
+  `).all() as DuplicateDay[];
+
+  // Counts add up, active users are distinct per day so the largest count stands
+  const merge = db.prepare(`
+    UPDATE server_stats_daily SET
+      message_count = totals.message_count,
+      join_count = totals.join_count,
+      leave_count = totals.leave_count,
+      active_users = totals.active_users,
+      moderation_actions = totals.moderation_actions
+    FROM (
+      SELECT
+        SUM(message_count) as message_count,
+        SUM(join_count) as join_count,
+        SUM(leave_count) as leave_count,
+        MAX(active_users) as active_users,
+        SUM(moderation_actions) as moderation_actions
+      FROM server_stats_daily
+      WHERE guild_id = ? AND date = ? AND channel_id IS NULL
+    ) as totals
+    WHERE id = ?
+  `);
+
+  const removeRest = db.prepare(`
+    DELETE FROM server_stats_daily
+    WHERE guild_id = ? AND date = ? AND channel_id IS NULL AND id != ?
+  `);
+
+  for (const day of duplicates) {
+    merge.run(day.guild_id, day.date, day.keep_id);
+    removeRest.run(day.guild_id, day.date, day.keep_id);
+  }
+
+  db.exec(`
+    CREATE UNIQUE INDEX idx_server_stats_daily_server
+    ON server_stats_daily(guild_id, date)
+    WHERE channel_id IS NULL
+  `);
+}
+
+export function down(db: Database.Database): void {
+  db.exec('DROP INDEX idx_server_stats_daily_server');
+}
@@ -0,0 +1,4 @@
+-- 014_nsfw_toggle_cooldown.down.sql
+-- Drop the per-guild NSFW cooldown
+
+ALTER TABLE verification_config DROP COLUMN nsfw_cooldown_minutes;
@@ -0,0 +1,5 @@
+-- 014_nsfw_toggle_cooldown.sql
+-- Per-guild cooldown between a member's /nsfw changes instead of a fixed 10 minutes
+
+-- Minutes a member must wait between NSFW access changes, 0 turns the cooldown off
+ALTER TABLE verification_config ADD COLUMN nsfw_cooldown_minutes INTEGER DEFAULT 10;
@@ -0,0 +1,37 @@
+-- 015_pending_verifications_per_guild.down.sql
+-- Back to one pending verification per user, keeping each user's most recent
+
+CREATE TABLE pending_verifications_old (
+    user_id TEXT PRIMARY KEY,
+    guild_id TEXT NOT NULL,
+    step TEXT NOT NULL CHECK (step IN ('initiated', 'awaiting_upload', 'reviewing', 'completed')),
+    dm_channel_id TEXT NULL,
+    message_id TEXT NULL, -- Review message in the mod channel
+    attachment_url TEXT NULL,
+    timestamp DATETIME NOT NULL, -- Start of the current step, used for the expiry
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO pending_verifications_old (
+    user_id, guild_id, step, dm_channel_id, message_id, attachment_url, timestamp, created_at, updated_at
+)
+SELECT user_id, guild_id, step, dm_channel_id, message_id, attachment_url, timestamp, created_at, updated_at
+FROM pending_verifications AS pending
+WHERE NOT EXISTS (
+    SELECT 1 FROM pending_verifications AS newer
+    WHERE newer.user_id = pending.user_id
+      AND (newer.timestamp > pending.timestamp OR (newer.timestamp = pending.timestamp AND newer.guild_id > pending.guild_id))
+);
+
+DROP TRIGGER update_pending_verifications_timestamp;
+DROP TABLE pending_verifications;
+ALTER TABLE pending_verifications_old RENAME TO pending_verifications;
+
+CREATE INDEX idx_pending_verifications_guild ON pending_verifications(guild_id, step);
+
+CREATE TRIGGER update_pending_verifications_timestamp
+    AFTER UPDATE ON pending_verifications
+    BEGIN
+        UPDATE pending_verifications SET updated_at = CURRENT_TIMESTAMP WHERE user_id = NEW.user_id;
+    END;
@@ -0,0 +1,34 @@
+-- 015_pending_verifications_per_guild.sql
+-- Key pending verifications by user and guild, so a verification in one server doesn't block another
+
+CREATE TABLE pending_verifications_new (
+    user_id TEXT NOT NULL,
+    guild_id TEXT NOT NULL,
+    step TEXT NOT NULL CHECK (step IN ('initiated', 'awaiting_upload', 'reviewing', 'completed')),
+    dm_channel_id TEXT NULL,
+    message_id TEXT NULL, -- Review message in the mod channel
+    attachment_url TEXT NULL,
+    timestamp DATETIME NOT NULL, -- Start of the current step, used for the expiry
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, guild_id)
+);
+
+INSERT INTO pending_verifications_new (
+    user_id, guild_id, step, dm_channel_id, message_id, attachment_url, timestamp, created_at, updated_at
+)
+SELECT user_id, guild_id, step, dm_channel_id, message_id, attachment_url, timestamp, created_at, updated_at
+FROM pending_verifications;
+
+DROP TRIGGER update_pending_verifications_timestamp;
+DROP TABLE pending_verifications;
+ALTER TABLE pending_verifications_new RENAME TO pending_verifications;
+
+CREATE INDEX idx_pending_verifications_guild ON pending_verifications(guild_id, step);
+
+CREATE TRIGGER update_pending_verifications_timestamp
+    AFTER UPDATE ON pending_verifications
+    BEGIN
+        UPDATE pending_verifications SET updated_at = CURRENT_TIMESTAMP
+        WHERE user_id = NEW.user_id AND guild_id = NEW.guild_id;
+    END;
@@ -0,0 +1,400 @@
+/**
+ * Database Migrations
+ * ------------------
+ * Versioned up/down migrations from SQL files or TypeScript modules, checksummed so edits are caught
+ */
+
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logWithEmoji } from '../utils';
+
+//=============================================================================
+// CONFIGURATION
+//=============================================================================
+
+// Migration sources, read from the working directory like the rest of the bot's files
+export const MIGRATIONS_PATH = './src/database/migrations';
+
+// TypeScript migrations are loaded from beside this file, so the compiled build finds its .js copies
+const MIGRATION_MODULES_PATH = path.join(__dirname, 'migrations');
+
+// NNN_description.sql or NNN_description.ts, with NNN_description.down.sql undoing a SQL migration
+const MIGRATION_FILE_PATTERN = /^(\d+)_[\w-]+\.(sql|ts)$/;
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+/**
+ * A TypeScript migration module, for changes that need code rather than plain SQL
+ * Both functions run inside a transaction and must be synchronous
+ */
+export interface TypeScriptMigration {
+  up(db: Database.Database): void;
+  down?(db: Database.Database): void;
+}
+
+/**
+ * A migration found on disk
+ */
+export interface MigrationDefinition {
+  version: number;
+  filename: string;
+  type: 'sql' | 'ts';
+  checksum: string;
+}
+
+/**
+ * Where a migration stands against the database
+ * changed: applied, but the file no longer matches its checksum
+ * missing: applied, but the file is gone
+ */
+export interface MigrationStatus {
+  version: number;
+  filename: string;
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  executedAt?: string;
+  reversible: boolean;
+}
+
+/**
+ * A migration that ran, or would run in a dry run, with the SQL it executed
+ */
+export interface MigrationResult {
+  filename: string;
+  direction: 'up' | 'down';
+  statements: string[];
+}
+
+export interface MigrationOptions {
+  /** Run against a rolled back transaction and report the SQL instead of applying it */
+  dryRun?: boolean;
+}
+
+interface AppliedMigration {
+  id: number;
+  filename: string;
+  checksum: string | null;
+  executed_at: string;
+}
+
+/**
+ * An applied migration no longer matches the file it was run from
+ */
+export class MigrationDriftError extends Error {
+  public readonly filenames: string[];
+
+  constructor(filenames: string[]) {
+    super(
+      `Migration${filenames.length !== 1 ? 's' : ''} changed after being applied: ${filenames.join(', ')}. ` +
+      'Restore the original file and put the change in a new migration.'
+    );
+    this.name = 'MigrationDriftError';
+    this.filenames = filenames;
+  }
+}
+
+//=============================================================================
+// DISCOVERY
+//=============================================================================
+
+/**
+ * Find every migration, ordered by version
+ * @throws If two migrations share a version
+ */
+export function loadMigrations(): MigrationDefinition[] {
+  if (!fs.existsSync(MIGRATIONS_PATH)) return [];
+
+  const migrations = fs.readdirSync(MIGRATIONS_PATH)
+    .map(filename => ({ filename, match: MIGRATION_FILE_PATTERN.exec(filename) }))
+    .filter(({ match }) => match !== null)
+    .map(({ filename, match }) => ({
+      version: parseInt(match![1], 10),
+      filename,
+      type: match![2] as 'sql' | 'ts',
+      checksum: getChecksum(filename)
+    }))
+    .sort((a, b) => a.version - b.version);
+
+  for (let index = 1; index < migrations.length; index++) {
+    if (migrations[index].version === migrations[index - 1].version) {
+      throw new Error(
+        `Migrations ${migrations[index - 1].filename} and ${migrations[index].filename} share version ${migrations[index].version}`
+      );
+    }
+  }
+
+  return migrations;
+}
+
+/**
+ * Checksum a migration's source, ignoring line ending differences between checkouts
+ */
+function getChecksum(filename: string): string {
+  const source = fs.readFileSync(path.join(MIGRATIONS_PATH, filename), 'utf8').replace(/\r\n/g, '\n');
+  return crypto.createHash('sha256').update(source).digest('hex');
+}
+
+function getDownFilename(migration: MigrationDefinition): string {
+  return migration.filename.replace(/\.sql$/, '.down.sql');
+}
+
+function loadModule(migration: MigrationDefinition): TypeScriptMigration {
+  const module = require(path.join(MIGRATION_MODULES_PATH, migration.filename.replace(/\.ts$/, '')));
+
+  if (typeof module.up !== 'function') {
+    throw new Error(`Migration ${migration.filename} does not export an up function`);
+  }
+
+  return module as TypeScriptMigration;
+}
+
+function isReversible(migration: MigrationDefinition): boolean {
+  return migration.type === 'sql'
+    ? fs.existsSync(path.join(MIGRATIONS_PATH, getDownFilename(migration)))
+    : typeof loadModule(migration).down === 'function';
+}
+
+//=============================================================================
+// BOOKKEEPING
+//=============================================================================
+
+/**
+ * Create the migrations table, adding the checksum column to tables from before it existed
+ */
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      filename TEXT UNIQUE NOT NULL,
+      checksum TEXT NULL,
+      executed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const columns = db.prepare('PRAGMA table_info(migrations)').all() as { name: string }[];
+  if (!columns.some(column => column.name === 'checksum')) {
+    db.exec('ALTER TABLE migrations ADD COLUMN checksum TEXT NULL');
+  }
+}
+
+function getAppliedMigrations(db: Database.Database): AppliedMigration[] {
+  return db
+    .prepare('SELECT id, filename, checksum, executed_at FROM migrations ORDER BY id')
+    .all() as AppliedMigration[];
+}
+
+/**
+ * Compare applied migrations with their files, recording checksums for rows from before they were tracked
+ * @param record Whether to store missing checksums, off for dry runs
+ * @throws MigrationDriftError if any applied migration has been edited
+ */
+function verifyChecksums(db: Database.Database, migrations: MigrationDefinition[], record: boolean): void {
+  const byFilename = new Map(migrations.map(migration => [migration.filename, migration]));
+  const drifted: string[] = [];
+  let backfilled = 0;
+
+  for (const applied of getAppliedMigrations(db)) {
+    const migration = byFilename.get(applied.filename);
+
+    if (!migration) {
+      logWithEmoji('warn', `Applied migration ${applied.filename} has no file`, 'Database');
+    } else if (applied.checksum === null) {
+      if (!record) continue;
+      db.prepare('UPDATE migrations SET checksum = ? WHERE id = ?').run(migration.checksum, applied.id);
+      backfilled++;
+    } else if (applied.checksum !== migration.checksum) {
+      drifted.push(applied.filename);
+    }
+  }
+
+  if (backfilled > 0) {
+    logWithEmoji('info', `Recorded checksums for ${backfilled} previously applied migration(s)`, 'Database');
+  }
+
+  if (drifted.length > 0) {
+    throw new MigrationDriftError(drifted);
+  }
+}
+
+//=============================================================================
+// EXECUTION
+//=============================================================================
+
+/**
+ * Run one direction of a migration on a connection
+ */
+function executeMigration(db: Database.Database, migration: MigrationDefinition, direction: 'up' | 'down'): void {
+  if (migration.type === 'sql') {
+    const filename = direction === 'up' ? migration.filename : getDownFilename(migration);
+    db.exec(fs.readFileSync(path.join(MIGRATIONS_PATH, filename), 'utf8'));
+    return;
+  }
+
+  const module = loadModule(migration);
+  const run = direction === 'up' ? module.up : module.down;
+  if (!run) {
+    throw new Error(`Migration ${migration.filename} has no down function`);
+  }
+
+  run(db);
+}
+
+/**
+ * Run migrations for real, each in its own transaction along with its bookkeeping
+ */
+function applyMigrations(
+  db: Database.Database,
+  migrations: MigrationDefinition[],
+  direction: 'up' | 'down'
+): MigrationResult[] {
+  const results: MigrationResult[] = [];
+
+  for (const migration of migrations) {
+    logWithEmoji('info', `${direction === 'up' ? 'Running' : 'Reverting'} migration: ${migration.filename}`, 'Database');
+
+    db.transaction(() => {
+      executeMigration(db, migration, direction);
+
+      if (direction === 'up') {
+        db.prepare('INSERT INTO migrations (filename, checksum) VALUES (?, ?)').run(migration.filename, migration.checksum);
+      } else {
+        db.prepare('DELETE FROM migrations WHERE filename = ?').run(migration.filename);
+      }
+    })();
+
+    results.push({ filename: migration.filename, direction, statements: [] });
+    logWithEmoji('success', `Migration ${direction === 'up' ? 'completed' : 'reverted'}: ${migration.filename}`, 'Database');
+  }
+
+  return results;
+}
+
+/**
+ * Run migrations on a second, traced connection inside a transaction that is always rolled back
+ * Later migrations see earlier ones' changes, so the SQL reported is what a real run would execute
+ */
+function traceMigrations(
+  db: Database.Database,
+  migrations: MigrationDefinition[],
+  direction: 'up' | 'down'
+): MigrationResult[] {
+  const results: MigrationResult[] = [];
+  let statements: string[] | null = null;
+
+  const tracer = new Database(db.name, {
+    verbose: (sql: unknown) => statements?.push(String(sql).trim())
+  });
+
+  try {
+    tracer.pragma('foreign_keys = ON');
+    tracer.exec('BEGIN');
+
+    for (const migration of migrations) {
+      statements = [];
+      executeMigration(tracer, migration, direction);
+      results.push({ filename: migration.filename, direction, statements });
+      statements = null;
+    }
+  } finally {
+    if (tracer.inTransaction) tracer.exec('ROLLBACK');
+    tracer.close();
+  }
+
+  return results;
+}
+
+//=============================================================================
+// MIGRATION COMMANDS
+//=============================================================================
+
+/**
+ * Apply every migration that hasn't run yet, oldest first
+ * @throws MigrationDriftError before running anything if an applied migration was edited
+ */
+export function migrateUp(db: Database.Database, options: MigrationOptions = {}): MigrationResult[] {
+  ensureMigrationsTable(db);
+
+  const migrations = loadMigrations();
+  verifyChecksums(db, migrations, !options.dryRun);
+
+  const applied = new Set(getAppliedMigrations(db).map(migration => migration.filename));
+  const pending = migrations.filter(migration => !applied.has(migration.filename));
+
+  return options.dryRun
+    ? traceMigrations(db, pending, 'up')
+    : applyMigrations(db, pending, 'up');
+}
+
+/**
+ * Revert the most recently applied migrations, newest first
+ * Nothing is reverted unless every migration involved can be
+ * @param steps Number of migrations to revert
+ */
+export function migrateDown(db: Database.Database, steps: number, options: MigrationOptions = {}): MigrationResult[] {
+  ensureMigrationsTable(db);
+
+  const migrations = loadMigrations();
+  verifyChecksums(db, migrations, !options.dryRun);
+
+  const byFilename = new Map(migrations.map(migration => [migration.filename, migration]));
+  const targets = getAppliedMigrations(db)
+    .reverse()
+    .slice(0, steps)
+    .map(applied => {
+      const migration = byFilename.get(applied.filename);
+      if (!migration) {
+        throw new Error(`Cannot revert ${applied.filename}: the migration file is missing`);
+      }
+      if (!isReversible(migration)) {
+        throw new Error(`Cannot revert ${applied.filename}: it has no down migration`);
+      }
+      return migration;
+    });
+
+  return options.dryRun
+    ? traceMigrations(db, targets, 'down')
+    : applyMigrations(db, targets, 'down');
+}
+
+/**
+ * List every migration, applied or not, without changing anything
+ */
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  ensureMigrationsTable(db);
+
+  const migrations = loadMigrations();
+  const applied = new Map(getAppliedMigrations(db).map(migration => [migration.filename, migration]));
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const record = applied.get(migration.filename);
+    const state = !record
+      ? 'pending'
+      : record.checksum !== null && record.checksum !== migration.checksum ? 'changed' : 'applied';
+
+    return {
+      version: migration.version,
+      filename: migration.filename,
+      state,
+      executedAt: record?.executed_at,
+      reversible: isReversible(migration)
+    };
+  });
+
+  // Applied migrations whose files have since been removed
+  for (const record of applied.values()) {
+    if (migrations.some(migration => migration.filename === record.filename)) continue;
+
+    statuses.push({
+      version: parseInt(record.filename, 10),
+      filename: record.filename,
+      state: 'missing',
+      executedAt: record.executed_at,
+      reversible: false
+    });
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
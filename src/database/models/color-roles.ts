@@ -0,0 +1,94 @@
+/**
+ * Color Role Database Models
+ * -------------------------
+ * Database models for the self-assignable color roles
+ */
+
+import { executeQuery, executeQueryOne, executeUpdate } from '../index';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export interface ColorRoleRecord {
+  id: number;
+  guild_id: string;
+  role_id: string;
+  role_name: string;
+  hex_color: string;
+  category: string;
+  display_order: number;
+  enabled: boolean;
+  created_at: string;
+}
+
+//=============================================================================
+// COLOR ROLE MODEL
+//=============================================================================
+
+export class ColorRoleModel {
+  /**
+   * Get a guild's enabled color roles, ordered by category then display order
+   */
+  static async getByGuild(guildId: string): Promise<ColorRoleRecord[]> {
+    return executeQuery<ColorRoleRecord>(`
+      SELECT * FROM color_roles
+      WHERE guild_id = ? AND enabled = TRUE
+      ORDER BY category ASC, display_order ASC, role_name ASC
+    `, [guildId]);
+  }
+
+  /**
+   * Get a single enabled color role
+   */
+  static async getByRoleId(guildId: string, roleId: string): Promise<ColorRoleRecord | null> {
+    return executeQueryOne<ColorRoleRecord>(`
+      SELECT * FROM color_roles
+      WHERE guild_id = ? AND role_id = ? AND enabled = TRUE
+    `, [guildId, roleId]);
+  }
+
+  /**
+   * Get every color role row for a guild, including disabled ones
+   */
+  static async getAllByGuild(guildId: string): Promise<ColorRoleRecord[]> {
+    return executeQuery<ColorRoleRecord>(`
+      SELECT * FROM color_roles
+      WHERE guild_id = ?
+      ORDER BY category ASC, display_order ASC, role_name ASC
+    `, [guildId]);
+  }
+
+  /**
+   * Insert a color role, or refresh the name and color of an existing one
+   * Existing rows keep their category and display order so manual curation survives a re-import
+   */
+  static async upsert(role: Pick<ColorRoleRecord, 'guild_id' | 'role_id' | 'role_name' | 'hex_color' | 'category'> & {
+    display_order?: number;
+  }): Promise<void> {
+    executeUpdate(`
+      INSERT INTO color_roles (guild_id, role_id, role_name, hex_color, category, display_order)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id, role_id) DO UPDATE SET
+        role_name = excluded.role_name,
+        hex_color = excluded.hex_color,
+        enabled = TRUE
+    `, [
+      role.guild_id,
+      role.role_id,
+      role.role_name,
+      role.hex_color,
+      role.category,
+      role.display_order || 0
+    ]);
+  }
+
+  /**
+   * Enable or disable a color role
+   */
+  static async setEnabled(guildId: string, roleId: string, enabled: boolean): Promise<void> {
+    executeUpdate(`
+      UPDATE color_roles SET enabled = ? WHERE guild_id = ? AND role_id = ?
+    `, [enabled, guildId, roleId]);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Command Usage Database Models
+ * ----------------------------
+ * Database models for slash command executions
+ */
+
+import { executeQuery, executeQueryOne, executeUpdate, toDatabaseTimestamp } from '../index';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export interface CommandUsage {
+  id: number;
+  command_name: string;
+  subcommand?: string;
+  user_id: string;
+  guild_id?: string;
+  channel_id?: string;
+  success: boolean;
+  error_message?: string;
+  execution_time_ms: number;
+  timestamp: string;
+}
+
+export interface CommandUsageStats {
+  command_name: string;
+  subcommand?: string;
+  uses: number;
+  failures: number;
+  avg_execution_time: number;
+  max_execution_time: number;
+  unique_users: number;
+  last_error?: string;
+}
+
+export interface CommandUsageTotals {
+  uses: number;
+  failures: number;
+  unique_users: number;
+}
+
+//=============================================================================
+// COMMAND USAGE MODEL
+//=============================================================================
+
+export class CommandUsageModel {
+  /**
+   * Record a command execution
+   */
+  static async record(usage: Omit<CommandUsage, 'id' | 'timestamp'>): Promise<void> {
+    executeUpdate(`
+      INSERT INTO command_usage (
+        command_name, subcommand, user_id, guild_id, channel_id,
+        success, error_message, execution_time_ms
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      usage.command_name,
+      usage.subcommand || null,
+      usage.user_id,
+      usage.guild_id || null,
+      usage.channel_id || null,
+      usage.success,
+      usage.error_message || null,
+      usage.execution_time_ms
+    ]);
+  }
+
+  /**
+   * Per-command and subcommand figures, most used first
+   * @param since Start of the period, or undefined for all time
+   */
+  static async getStats(since?: Date): Promise<CommandUsageStats[]> {
+    return executeQuery<CommandUsageStats>(`
+      SELECT
+        command_name,
+        subcommand,
+        COUNT(*) AS uses,
+        COUNT(CASE WHEN success = FALSE THEN 1 END) AS failures,
+        AVG(execution_time_ms) AS avg_execution_time,
+        MAX(execution_time_ms) AS max_execution_time,
+        COUNT(DISTINCT user_id) AS unique_users,
+        (
+          SELECT latest.error_message FROM command_usage latest
+          WHERE latest.command_name = usage.command_name
+            AND latest.subcommand IS usage.subcommand
+            AND latest.success = FALSE
+            ${since ? 'AND latest.timestamp >= ?' : ''}
+          ORDER BY latest.timestamp DESC, latest.id DESC
+          LIMIT 1
+        ) AS last_error
+      FROM command_usage usage
+      ${since ? 'WHERE usage.timestamp >= ?' : ''}
+      GROUP BY command_name, subcommand
+      ORDER BY uses DESC, command_name ASC
+    `, since ? [toDatabaseTimestamp(since), toDatabaseTimestamp(since)] : []);
+  }
+
+  /**
+   * Totals across every command
+   * @param since Start of the period, or undefined for all time
+   */
+  static async getTotals(since?: Date): Promise<CommandUsageTotals> {
+    const totals = executeQueryOne<CommandUsageTotals>(`
+      SELECT
+        COUNT(*) AS uses,
+        COUNT(CASE WHEN success = FALSE THEN 1 END) AS failures,
+        COUNT(DISTINCT user_id) AS unique_users
+      FROM command_usage
+      ${since ? 'WHERE timestamp >= ?' : ''}
+    `, since ? [toDatabaseTimestamp(since)] : []);
+
+    return totals || { uses: 0, failures: 0, unique_users: 0 };
+  }
+}
+
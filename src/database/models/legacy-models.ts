@@ -61,6 +61,18 @@ export interface Infraction {
   appeal_id?: string;
 }
 
+export interface InfractionEdit {
+  id: number;
+  infraction_id: string;
+  guild_id: string;
+  editor_id: string;
+  field: string;
+  old_value?: string;
+  new_value?: string;
+  reason?: string;
+  edited_at: string;
+}
+
 export interface Appeal {
   id: string;
   user_id: string;
@@ -73,6 +85,14 @@ export interface Appeal {
   reviewer_id?: string;
   review_reason?: string;
   review_timestamp?: string;
+  claimed_by?: string;
+  claimed_at?: string;
+}
+
+export interface PendingAppeal extends Appeal {
+  original_reason: string;
+  original_moderator: string;
+  guild_name: string;
 }
 
 export interface ModConfig {
@@ -88,10 +108,22 @@ export interface ModConfig {
   warn_threshold: number;
   allow_appeals: boolean;
   appeal_cooldown: number;
+  warning_ttl?: number; // days
   created_at: string;
   updated_at: string;
 }
 
+export interface EscalationStep {
+  id: number;
+  guild_id: string;
+  warning_count: number;
+  action: 'MUTE' | 'BAN';
+  duration?: number;
+  allow_appeal: boolean;
+  created_by?: string;
+  created_at: string;
+}
+
 export interface BotHealth {
   id: number;
   last_heartbeat: string;
@@ -102,15 +134,43 @@ export interface BotHealth {
   updated_at: string;
 }
 
+export interface ServerStatsDaily {
+  id: number;
+  guild_id: string;
+  date: string;
+  channel_id: string | null;
+  message_count: number;
+  join_count: number;
+  leave_count: number;
+  active_users: number;
+  moderation_actions: number;
+  created_at: string;
+}
+
+export interface WeeklyStats {
+  total_messages: number;
+  total_joins: number;
+  total_leaves: number;
+  avg_active_users: number;
+  total_mod_actions: number;
+  active_channels: number;
+}
+
 //=============================================================================
 // GUILD OPERATIONS
 //=============================================================================
 
 export class GuildModel {
   static async upsert(id: string, name: string, iconUrl?: string, memberCount?: number): Promise<void> {
+    // ON CONFLICT rather than REPLACE: a REPLACE deletes the row first, which
+    // cascades to every infraction, appeal and config belonging to the guild
     executeUpdate(`
-      INSERT OR REPLACE INTO guilds (id, name, icon_url, member_count)
+      INSERT INTO guilds (id, name, icon_url, member_count)
       VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        icon_url = COALESCE(excluded.icon_url, guilds.icon_url),
+        member_count = CASE WHEN excluded.member_count > 0 THEN excluded.member_count ELSE guilds.member_count END
     `, [id, name, iconUrl || null, memberCount || 0]);
   }
 
@@ -191,11 +251,24 @@ export class MessageLoggerConfigModel {
       : config.ignored_users || '[]';
 
     executeUpdate(`
-      INSERT OR REPLACE INTO message_logger_config (
+      INSERT INTO message_logger_config (
         guild_id, enabled, log_channel_id, ignored_channels, ignored_users,
         log_message_content, log_dms, log_edits, log_deletes, 
         log_joins, log_leaves, max_message_length
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id) DO UPDATE SET
+        enabled = excluded.enabled,
+        log_channel_id = excluded.log_channel_id,
+        ignored_channels = excluded.ignored_channels,
+        ignored_users = excluded.ignored_users,
+        log_message_content = excluded.log_message_content,
+        log_dms = excluded.log_dms,
+        log_edits = excluded.log_edits,
+        log_deletes = excluded.log_deletes,
+        log_joins = excluded.log_joins,
+        log_leaves = excluded.log_leaves,
+        max_message_length = excluded.max_message_length,
+        updated_at = CURRENT_TIMESTAMP
     `, [
       config.guild_id,
       config.enabled || false,
@@ -232,6 +305,13 @@ export class MessageLoggerConfigModel {
     return config;
   }
 
+  static async getDmLoggers(): Promise<MessageLoggerConfig[]> {
+    return executeQuery<MessageLoggerConfig>(`
+      SELECT * FROM message_logger_config
+      WHERE enabled = TRUE AND log_dms = TRUE AND log_channel_id IS NOT NULL
+    `);
+  }
+
   static async enable(guildId: string): Promise<void> {
     executeUpdate(`
       UPDATE message_logger_config SET enabled = TRUE WHERE guild_id = ?
@@ -311,10 +391,45 @@ export class InfractionModel {
     return executeQuery<Infraction>(`
       SELECT * FROM infractions 
       WHERE guild_id = ? AND user_id = ? AND type = 'WARNING' AND active = TRUE
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
       ORDER BY timestamp DESC
     `, [guildId, userId]);
   }
 
+  /**
+   * Recalculate expiry for a guild's active warnings from their issue time
+   * @param ttlDays Warning lifetime in days, or null to stop warnings expiring
+   * @returns Number of warnings that expired as a result
+   */
+  static async applyWarningTtl(guildId: string, ttlDays: number | null): Promise<number> {
+    let expired = 0;
+
+    executeTransaction(() => {
+      executeUpdate(`
+        UPDATE infractions
+        SET expires_at = CASE WHEN ? IS NULL THEN NULL ELSE datetime(timestamp, '+' || ? || ' days') END
+        WHERE guild_id = ? AND type = 'WARNING' AND active = TRUE
+      `, [ttlDays, ttlDays, guildId]);
+
+      expired = executeUpdate(`
+        UPDATE infractions
+        SET active = FALSE
+        WHERE guild_id = ? AND type = 'WARNING' AND active = TRUE
+          AND expires_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP
+      `, [guildId]).changes;
+    });
+
+    return expired;
+  }
+
+  static async getActiveExpiring(type: Infraction['type']): Promise<Infraction[]> {
+    return executeQuery<Infraction>(`
+      SELECT * FROM infractions
+      WHERE type = ? AND active = TRUE AND expires_at IS NOT NULL
+      ORDER BY expires_at ASC
+    `, [type]);
+  }
+
   static async update(id: string, updates: Partial<Infraction>): Promise<boolean> {
     const fields = Object.keys(updates).map(key => `${key} = ?`).join(', ');
     const values = Object.values(updates);
@@ -345,10 +460,46 @@ export class InfractionModel {
   }
 }
 
+//=============================================================================
+// INFRACTION EDIT OPERATIONS
+//=============================================================================
+
+export class InfractionEditModel {
+  static async create(edit: Omit<InfractionEdit, 'id' | 'edited_at'>): Promise<void> {
+    executeUpdate(`
+      INSERT INTO infraction_edits (
+        infraction_id, guild_id, editor_id, field, old_value, new_value, reason
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      edit.infraction_id,
+      edit.guild_id,
+      edit.editor_id,
+      edit.field,
+      edit.old_value ?? null,
+      edit.new_value ?? null,
+      edit.reason || null
+    ]);
+  }
+
+  static async getByInfraction(infractionId: string): Promise<InfractionEdit[]> {
+    return executeQuery<InfractionEdit>(`
+      SELECT * FROM infraction_edits
+      WHERE infraction_id = ?
+      ORDER BY edited_at ASC, id ASC
+    `, [infractionId]);
+  }
+}
+
 //=============================================================================
 // APPEAL OPERATIONS
 //=============================================================================
 
+// Claims lapse after this many minutes, so an abandoned review doesn't lock the appeal
+export const APPEAL_CLAIM_TIMEOUT_MINUTES = 15;
+
+// Whether an appeal's claim can be taken: unclaimed, already the moderator's own, or lapsed
+const CLAIM_AVAILABLE = `(claimed_by IS NULL OR claimed_by = ? OR claimed_at < datetime('now', '-${APPEAL_CLAIM_TIMEOUT_MINUTES} minutes'))`;
+
 export class AppealModel {
   static async create(appeal: Omit<Appeal, 'timestamp'>): Promise<void> {
     executeUpdate(`
@@ -402,6 +553,45 @@ export class AppealModel {
     }
   }
 
+  /**
+   * Get a guild's pending appeals with the original case details, oldest first
+   */
+  static async getPendingQueue(guildId: string): Promise<PendingAppeal[]> {
+    return executeQuery<PendingAppeal>(`
+      SELECT * FROM pending_appeals
+      WHERE guild_id = ?
+      ORDER BY timestamp ASC, id ASC
+    `, [guildId]);
+  }
+
+  /**
+   * Claim a pending appeal for a moderator
+   * @param force Take the claim over even if another moderator holds it
+   * @returns false if the appeal was decided or another moderator holds an unexpired claim
+   */
+  static async claim(id: string, moderatorId: string, force: boolean = false): Promise<boolean> {
+    const result = executeUpdate(`
+      UPDATE appeals
+      SET claimed_by = ?, claimed_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'PENDING' ${force ? '' : `AND ${CLAIM_AVAILABLE}`}
+    `, force ? [moderatorId, id] : [moderatorId, id, moderatorId]);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Release a moderator's claim on a pending appeal
+   */
+  static async unclaim(id: string, moderatorId: string): Promise<boolean> {
+    const result = executeUpdate(`
+      UPDATE appeals
+      SET claimed_by = NULL, claimed_at = NULL
+      WHERE id = ? AND status = 'PENDING' AND claimed_by = ?
+    `, [id, moderatorId]);
+
+    return result.changes > 0;
+  }
+
   static async update(id: string, updates: Partial<Appeal>): Promise<boolean> {
     const fields = Object.keys(updates).map(key => `${key} = ?`).join(', ');
     const values = Object.values(updates);
@@ -413,12 +603,16 @@ export class AppealModel {
     return result.changes > 0;
   }
 
+  /**
+   * Record a decision on a pending appeal
+   * @returns false if the appeal was missing, already decided or claimed by another moderator
+   */
   static async resolve(id: string, status: 'APPROVED' | 'DENIED', reviewerId: string, reason: string): Promise<boolean> {
     const result = executeUpdate(`
       UPDATE appeals 
       SET status = ?, reviewer_id = ?, review_reason = ?, review_timestamp = CURRENT_TIMESTAMP
-      WHERE id = ?
-    `, [status, reviewerId, reason, id]);
+      WHERE id = ? AND status = 'PENDING' AND ${CLAIM_AVAILABLE}
+    `, [status, reviewerId, reason, id, reviewerId]);
     
     return result.changes > 0;
   }
@@ -460,8 +654,9 @@ export class ModConfigModel {
 
   static async enable(guildId: string): Promise<void> {
     executeUpdate(`
-      INSERT OR REPLACE INTO mod_config (guild_id, enabled)
+      INSERT INTO mod_config (guild_id, enabled)
       VALUES (?, TRUE)
+      ON CONFLICT(guild_id) DO UPDATE SET enabled = TRUE
     `, [guildId]);
   }
 
@@ -475,7 +670,7 @@ export class ModConfigModel {
     const allowedFields = [
       'moderator_role_id', 'muted_role_id', 'log_channel_id', 'appeal_channel_id',
       'dm_notifications', 'auto_delete', 'delete_delay', 'warn_threshold', 
-      'allow_appeals', 'appeal_cooldown'
+      'allow_appeals', 'appeal_cooldown', 'warning_ttl'
     ];
 
     if (!allowedFields.includes(field)) {
@@ -488,6 +683,66 @@ export class ModConfigModel {
   }
 }
 
+//=============================================================================
+// ESCALATION LADDER OPERATIONS
+//=============================================================================
+
+export class EscalationStepModel {
+  static async upsert(step: Omit<EscalationStep, 'id' | 'created_at'>): Promise<void> {
+    executeUpdate(`
+      INSERT INTO escalation_steps (
+        guild_id, warning_count, action, duration, allow_appeal, created_by
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id, warning_count) DO UPDATE SET
+        action = excluded.action,
+        duration = excluded.duration,
+        allow_appeal = excluded.allow_appeal,
+        created_by = excluded.created_by
+    `, [
+      step.guild_id,
+      step.warning_count,
+      step.action,
+      step.duration || null,
+      step.allow_appeal !== false,
+      step.created_by || null
+    ]);
+  }
+
+  static async getByGuild(guildId: string): Promise<EscalationStep[]> {
+    return executeQuery<EscalationStep>(`
+      SELECT * FROM escalation_steps
+      WHERE guild_id = ?
+      ORDER BY warning_count ASC
+    `, [guildId]);
+  }
+
+  /**
+   * Get the step for a warning count, reusing the top step once the ladder is exhausted
+   */
+  static async getForWarningCount(guildId: string, warningCount: number): Promise<EscalationStep | null> {
+    const exact = executeQueryOne<EscalationStep>(`
+      SELECT * FROM escalation_steps
+      WHERE guild_id = ? AND warning_count = ?
+    `, [guildId, warningCount]);
+
+    if (exact) return exact;
+
+    return executeQueryOne<EscalationStep>(`
+      SELECT * FROM escalation_steps
+      WHERE guild_id = ? AND warning_count < ?
+        AND warning_count = (SELECT MAX(warning_count) FROM escalation_steps WHERE guild_id = ?)
+    `, [guildId, warningCount, guildId]);
+  }
+
+  static async remove(guildId: string, warningCount: number): Promise<boolean> {
+    const result = executeUpdate(`
+      DELETE FROM escalation_steps WHERE guild_id = ? AND warning_count = ?
+    `, [guildId, warningCount]);
+
+    return result.changes > 0;
+  }
+}
+
 //=============================================================================
 // BOT HEALTH OPERATIONS
 //=============================================================================
@@ -538,6 +793,10 @@ export class BotHealthModel {
 //=============================================================================
 
 export class ServerStatsModel {
+  /**
+   * Add counts to a day's row, creating it if needed
+   * channel_id is NULL for server-wide rows, which UNIQUE never matches, so the row is found with IS
+   */
   static async recordDailyStats(
     guildId: string, 
     date: string, 
@@ -548,44 +807,96 @@ export class ServerStatsModel {
     activeUsers: number = 0,
     moderationActions: number = 0
   ): Promise<void> {
+    const counts = [messageCount, joinCount, leaveCount, activeUsers, moderationActions];
+
+    const result = executeUpdate(`
+      UPDATE server_stats_daily SET
+        message_count = message_count + ?,
+        join_count = join_count + ?,
+        leave_count = leave_count + ?,
+        active_users = active_users + ?,
+        moderation_actions = moderation_actions + ?
+      WHERE guild_id = ? AND date = ? AND channel_id IS ?
+    `, [...counts, guildId, date, channelId]);
+
+    if (result.changes === 0) {
+      executeUpdate(`
+        INSERT INTO server_stats_daily (
+          guild_id, date, channel_id, message_count, join_count, 
+          leave_count, active_users, moderation_actions
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [guildId, date, channelId, ...counts]);
+    }
+  }
+
+  /**
+   * Recount a day's active users from active_users_daily, server-wide and per channel
+   */
+  static async refreshActiveUsers(guildId: string, date: string): Promise<void> {
+    executeUpdate(`
+      UPDATE server_stats_daily SET active_users = (
+        SELECT COUNT(*) FROM active_users_daily a
+        WHERE a.guild_id = server_stats_daily.guild_id AND a.date = server_stats_daily.date
+      )
+      WHERE guild_id = ? AND date = ? AND channel_id IS NULL
+    `, [guildId, date]);
+
     executeUpdate(`
-      INSERT OR REPLACE INTO server_stats_daily (
-        guild_id, date, channel_id, message_count, join_count, 
-        leave_count, active_users, moderation_actions
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `, [guildId, date, channelId, messageCount, joinCount, leaveCount, activeUsers, moderationActions]);
+      UPDATE server_stats_daily SET active_users = (
+        SELECT COUNT(*) FROM active_users_daily a, json_each(a.channels_active) c
+        WHERE a.guild_id = server_stats_daily.guild_id
+          AND a.date = server_stats_daily.date
+          AND c.value = server_stats_daily.channel_id
+      )
+      WHERE guild_id = ? AND date = ? AND channel_id IS NOT NULL
+    `, [guildId, date]);
   }
 
   static async getStatsForDateRange(
     guildId: string, 
     startDate: string, 
     endDate: string
-  ): Promise<any[]> {
-    return executeQuery(`
+  ): Promise<ServerStatsDaily[]> {
+    return executeQuery<ServerStatsDaily>(`
       SELECT * FROM server_stats_daily 
       WHERE guild_id = ? AND date BETWEEN ? AND ?
       ORDER BY date, channel_id
     `, [guildId, startDate, endDate]);
   }
 
-  static async getWeeklyStats(guildId: string, weekStart: string): Promise<any[]> {
+  /**
+   * Totals for the seven days from weekStart
+   * Counts come from the server-wide rows, since channel rows split up the same messages
+   */
+  static async getWeeklyStats(guildId: string, weekStart: string): Promise<WeeklyStats> {
     const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
+    weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
     
-    return executeQuery(`
+    return executeQueryOne<WeeklyStats>(`
       SELECT 
-        SUM(message_count) as total_messages,
-        SUM(join_count) as total_joins,
-        SUM(leave_count) as total_leaves,
-        AVG(active_users) as avg_active_users,
-        SUM(moderation_actions) as total_mod_actions,
+        TOTAL(CASE WHEN channel_id IS NULL THEN message_count END) as total_messages,
+        TOTAL(CASE WHEN channel_id IS NULL THEN join_count END) as total_joins,
+        TOTAL(CASE WHEN channel_id IS NULL THEN leave_count END) as total_leaves,
+        COALESCE(AVG(CASE WHEN channel_id IS NULL THEN active_users END), 0) as avg_active_users,
+        TOTAL(CASE WHEN channel_id IS NULL THEN moderation_actions END) as total_mod_actions,
         COUNT(DISTINCT channel_id) as active_channels
       FROM server_stats_daily 
       WHERE guild_id = ? AND date BETWEEN ? AND ?
-    `, [guildId, weekStart, weekEnd.toISOString().split('T')[0]]);
+    `, [guildId, weekStart, weekEnd.toISOString().split('T')[0]])!;
   }
 
-  static async recordActiveUser(guildId: string, userId: string, date: string, channelId: string): Promise<void> {
+  /**
+   * Add a user's messages for a day, merging in the channels they were seen in
+   */
+  static async recordActiveUser(
+    guildId: string,
+    userId: string,
+    date: string,
+    channelIds: string | string[],
+    messageCount: number = 1
+  ): Promise<void> {
+    const seenChannels = Array.isArray(channelIds) ? channelIds : [channelIds];
+
     // First, get current data
     const existing = executeQueryOne(`
       SELECT channels_active, message_count FROM active_users_daily 
@@ -594,22 +905,24 @@ export class ServerStatsModel {
 
     if (existing) {
       // Update existing record
-      const channels = JSON.parse(existing.channels_active || '[]');
-      if (!channels.includes(channelId)) {
-        channels.push(channelId);
+      const channels: string[] = JSON.parse(existing.channels_active || '[]');
+      for (const channelId of seenChannels) {
+        if (!channels.includes(channelId)) {
+          channels.push(channelId);
+        }
       }
       
       executeUpdate(`
         UPDATE active_users_daily 
-        SET message_count = message_count + 1, channels_active = ?
+        SET message_count = message_count + ?, channels_active = ?
         WHERE guild_id = ? AND user_id = ? AND date = ?
-      `, [JSON.stringify(channels), guildId, userId, date]);
+      `, [messageCount, JSON.stringify(channels), guildId, userId, date]);
     } else {
       // Create new record
       executeUpdate(`
         INSERT INTO active_users_daily (guild_id, user_id, date, message_count, channels_active)
-        VALUES (?, ?, ?, 1, ?)
-      `, [guildId, userId, date, JSON.stringify([channelId])]);
+        VALUES (?, ?, ?, ?, ?)
+      `, [guildId, userId, date, messageCount, JSON.stringify([...new Set(seenChannels)])]);
     }
   }
 }
@@ -685,7 +998,8 @@ export async function getUserInfractionSummary(guildId: string, userId: string):
     SELECT 
       COUNT(*) as total_infractions,
       COUNT(CASE WHEN active = 1 THEN 1 END) as active_infractions,
-      COUNT(CASE WHEN type = 'WARNING' AND active = 1 THEN 1 END) as active_warnings,
+      COUNT(CASE WHEN type = 'WARNING' AND active = 1
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP) THEN 1 END) as active_warnings,
       COUNT(CASE WHEN type = 'MUTE' AND active = 1 THEN 1 END) as active_mutes,
       COUNT(CASE WHEN type = 'BAN' AND active = 1 THEN 1 END) as active_bans,
       MAX(timestamp) as last_infraction
@@ -0,0 +1,239 @@
+/**
+ * Scheduler Database Models
+ * ------------------------
+ * Database models for the persistent job scheduler
+ */
+
+import { executeQuery, executeQueryOne, executeUpdate, executeTransaction, toDatabaseTimestamp } from '../index';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export type ScheduledJobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface ScheduledJob {
+  id: number;
+  type: string;
+  guild_id?: string;
+  payload: string; // JSON string
+  run_at: string;
+  status: ScheduledJobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error?: string;
+  dedupe_key?: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+export interface NewScheduledJob {
+  type: string;
+  guild_id?: string;
+  payload?: Record<string, any>;
+  run_at: Date | number;
+  max_attempts?: number;
+  dedupe_key?: string;
+}
+
+//=============================================================================
+// SCHEDULED JOB MODEL
+//=============================================================================
+
+export class ScheduledJobModel {
+  /**
+   * Create a job, or reschedule the pending job that shares its dedupe key
+   * @returns The job ID
+   */
+  static async create(job: NewScheduledJob): Promise<number> {
+    const payload = JSON.stringify(job.payload || {});
+    const runAt = toDatabaseTimestamp(job.run_at);
+    let jobId = 0;
+
+    executeTransaction(() => {
+      const existing = job.dedupe_key
+        ? executeQueryOne<ScheduledJob>(`
+            SELECT * FROM scheduled_jobs
+            WHERE dedupe_key = ? AND status = 'PENDING'
+          `, [job.dedupe_key])
+        : null;
+
+      if (existing) {
+        executeUpdate(`
+          UPDATE scheduled_jobs
+          SET payload = ?, run_at = ?, attempts = 0, last_error = NULL
+          WHERE id = ?
+        `, [payload, runAt, existing.id]);
+        jobId = existing.id;
+        return;
+      }
+
+      const result = executeUpdate(`
+        INSERT INTO scheduled_jobs (type, guild_id, payload, run_at, max_attempts, dedupe_key)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        job.type,
+        job.guild_id || null,
+        payload,
+        runAt,
+        job.max_attempts || 5,
+        job.dedupe_key || null
+      ]);
+      jobId = Number(result.lastInsertRowid);
+    });
+
+    return jobId;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  static async getById(id: number): Promise<ScheduledJob | null> {
+    return executeQueryOne<ScheduledJob>(`
+      SELECT * FROM scheduled_jobs WHERE id = ?
+    `, [id]);
+  }
+
+  /**
+   * Get the pending job for a dedupe key
+   */
+  static async getPendingByDedupeKey(dedupeKey: string): Promise<ScheduledJob | null> {
+    return executeQueryOne<ScheduledJob>(`
+      SELECT * FROM scheduled_jobs
+      WHERE dedupe_key = ? AND status = 'PENDING'
+    `, [dedupeKey]);
+  }
+
+  /**
+   * Get pending jobs whose run time has passed, oldest first
+   */
+  static async getDue(limit: number = 25): Promise<ScheduledJob[]> {
+    return executeQuery<ScheduledJob>(`
+      SELECT * FROM scheduled_jobs
+      WHERE status = 'PENDING' AND run_at <= ?
+      ORDER BY run_at ASC
+      LIMIT ?
+    `, [toDatabaseTimestamp(Date.now()), limit]);
+  }
+
+  /**
+   * Get pending jobs, optionally filtered by guild
+   */
+  static async getPending(guildId?: string): Promise<ScheduledJob[]> {
+    const whereClause = guildId ? 'AND guild_id = ?' : '';
+    const params = guildId ? [guildId] : [];
+
+    return executeQuery<ScheduledJob>(`
+      SELECT * FROM scheduled_jobs
+      WHERE status = 'PENDING' ${whereClause}
+      ORDER BY run_at ASC
+    `, params);
+  }
+
+  /**
+   * Mark a pending job as running
+   * @returns Whether this caller claimed the job
+   */
+  static async claim(id: number): Promise<boolean> {
+    const result = executeUpdate(`
+      UPDATE scheduled_jobs
+      SET status = 'RUNNING', attempts = attempts + 1
+      WHERE id = ? AND status = 'PENDING'
+    `, [id]);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Mark a job as completed
+   */
+  static async complete(id: number): Promise<void> {
+    executeUpdate(`
+      UPDATE scheduled_jobs
+      SET status = 'COMPLETED', last_error = NULL, completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [id]);
+  }
+
+  /**
+   * Record a failed run, either retrying at the given time or failing permanently
+   * A retry is dropped if the job was rescheduled while it ran, as the newer job takes its place
+   * @returns Whether the job will be retried
+   */
+  static async fail(id: number, error: string, retryAt?: Date | number): Promise<boolean> {
+    if (retryAt !== undefined) {
+      const result = executeUpdate(`
+        UPDATE scheduled_jobs
+        SET status = 'PENDING', last_error = ?, run_at = ?
+        WHERE id = ? AND NOT EXISTS (
+          SELECT 1 FROM scheduled_jobs AS pending
+          WHERE pending.dedupe_key = scheduled_jobs.dedupe_key AND pending.status = 'PENDING'
+        )
+      `, [error, toDatabaseTimestamp(retryAt), id]);
+      if (result.changes > 0) return true;
+    }
+
+    executeUpdate(`
+      UPDATE scheduled_jobs
+      SET status = 'FAILED', last_error = ?, completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [error, id]);
+
+    return false;
+  }
+
+  /**
+   * Cancel the pending job for a dedupe key
+   * @returns Number of jobs cancelled
+   */
+  static async cancelByDedupeKey(dedupeKey: string): Promise<number> {
+    const result = executeUpdate(`
+      UPDATE scheduled_jobs
+      SET status = 'CANCELLED', completed_at = CURRENT_TIMESTAMP
+      WHERE dedupe_key = ? AND status = 'PENDING'
+    `, [dedupeKey]);
+
+    return result.changes;
+  }
+
+  /**
+   * Return jobs left running by a previous process to the queue
+   * Ones rescheduled while they ran are cancelled instead, leaving the newer job
+   * @returns Number of jobs requeued
+   */
+  static async requeueStale(): Promise<number> {
+    let requeued = 0;
+
+    executeTransaction(() => {
+      executeUpdate(`
+        UPDATE scheduled_jobs
+        SET status = 'CANCELLED', completed_at = CURRENT_TIMESTAMP
+        WHERE status = 'RUNNING' AND EXISTS (
+          SELECT 1 FROM scheduled_jobs AS pending
+          WHERE pending.dedupe_key = scheduled_jobs.dedupe_key AND pending.status = 'PENDING'
+        )
+      `);
+
+      requeued = executeUpdate(`
+        UPDATE scheduled_jobs SET status = 'PENDING' WHERE status = 'RUNNING'
+      `).changes;
+    });
+
+    return requeued;
+  }
+
+  /**
+   * Delete finished jobs older than the given number of days
+   * @returns Number of jobs deleted
+   */
+  static async purgeFinished(olderThanDays: number = 30): Promise<number> {
+    const result = executeUpdate(`
+      DELETE FROM scheduled_jobs
+      WHERE status IN ('COMPLETED', 'FAILED', 'CANCELLED')
+        AND updated_at < datetime('now', '-' || ? || ' days')
+    `, [olderThanDays]);
+
+    return result.changes;
+  }
+}
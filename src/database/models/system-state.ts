@@ -0,0 +1,47 @@
+/**
+ * System State Database Models
+ * ---------------------------
+ * Database models for systems switched on or off at runtime
+ */
+
+import { executeQuery, executeUpdate } from '../index';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export interface SystemState {
+  name: string;
+  enabled: boolean;
+  updated_by?: string;
+  updated_at: string;
+}
+
+//=============================================================================
+// SYSTEM STATE MODEL
+//=============================================================================
+
+export class SystemStateModel {
+  /**
+   * Get every persisted system state
+   */
+  static async getAll(): Promise<SystemState[]> {
+    return executeQuery<SystemState>(`
+      SELECT * FROM system_state ORDER BY name ASC
+    `);
+  }
+
+  /**
+   * Persist whether a system is enabled
+   */
+  static async setEnabled(name: string, enabled: boolean, updatedBy?: string): Promise<void> {
+    executeUpdate(`
+      INSERT INTO system_state (name, enabled, updated_by)
+      VALUES (?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        enabled = excluded.enabled,
+        updated_by = excluded.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+    `, [name, enabled, updatedBy || null]);
+  }
+}
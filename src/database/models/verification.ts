@@ -4,7 +4,7 @@
  * Database models for the verification system
  */
 
-import { executeQuery, executeQueryOne, executeUpdate } from '../index';
+import { executeQuery, executeQueryOne, executeUpdate, toDatabaseTimestamp } from '../index';
 
 //=============================================================================
 // TYPES
@@ -16,7 +16,10 @@ export interface VerificationConfig {
   age_unverified_role_id?: string;
   nsfw_access_role_id?: string;
   nsfw_no_access_role_id?: string;
+  verified_role_id?: string;
   enabled: boolean;
+  image_retention_hours: number;
+  nsfw_cooldown_minutes: number;
   created_at: string;
   updated_at: string;
 }
@@ -28,20 +31,31 @@ export interface VerificationConfig {
 export class VerificationConfigModel {
   /**
    * Upsert verification configuration
+   * Fields left out keep their stored value, so partial updates don't clear the rest
    */
   static async upsert(config: Partial<VerificationConfig> & { guild_id: string }): Promise<void> {
     executeUpdate(`
-      INSERT OR REPLACE INTO verification_config (
+      INSERT INTO verification_config (
         guild_id, mod_channel_id, age_unverified_role_id, 
-        nsfw_access_role_id, nsfw_no_access_role_id, enabled
-      ) VALUES (?, ?, ?, ?, ?, ?)
+        nsfw_access_role_id, nsfw_no_access_role_id, verified_role_id, enabled
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id) DO UPDATE SET
+        mod_channel_id = COALESCE(excluded.mod_channel_id, mod_channel_id),
+        age_unverified_role_id = COALESCE(excluded.age_unverified_role_id, age_unverified_role_id),
+        nsfw_access_role_id = COALESCE(excluded.nsfw_access_role_id, nsfw_access_role_id),
+        nsfw_no_access_role_id = COALESCE(excluded.nsfw_no_access_role_id, nsfw_no_access_role_id),
+        verified_role_id = COALESCE(excluded.verified_role_id, verified_role_id),
+        enabled = COALESCE(?, enabled),
+        updated_at = CURRENT_TIMESTAMP
     `, [
       config.guild_id,
       config.mod_channel_id || null,
       config.age_unverified_role_id || null,
       config.nsfw_access_role_id || null,
       config.nsfw_no_access_role_id || null,
-      config.enabled !== false
+      config.verified_role_id || null,
+      config.enabled !== false,
+      config.enabled === undefined ? null : config.enabled
     ]);
   }
 
@@ -144,6 +158,56 @@ export class VerificationConfigModel {
     }
   }
 
+  /**
+   * Set the role granted to approved members for a guild
+   */
+  static async setVerifiedRole(guildId: string, roleId: string): Promise<void> {
+    await this.upsert({
+      guild_id: guildId,
+      verified_role_id: roleId
+    });
+  }
+
+  /**
+   * Set how long decided ID images are kept for a guild
+   */
+  static async setImageRetention(guildId: string, hours: number): Promise<void> {
+    const existing = await this.getByGuildId(guildId);
+    
+    if (!existing) {
+      await this.upsert({
+        guild_id: guildId,
+        enabled: true
+      });
+    }
+    
+    executeUpdate(`
+      UPDATE verification_config 
+      SET image_retention_hours = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE guild_id = ?
+    `, [hours, guildId]);
+  }
+
+  /**
+   * Set how long members wait between NSFW access changes for a guild
+   */
+  static async setNsfwCooldown(guildId: string, minutes: number): Promise<void> {
+    const existing = await this.getByGuildId(guildId);
+    
+    if (!existing) {
+      await this.upsert({
+        guild_id: guildId,
+        enabled: true
+      });
+    }
+    
+    executeUpdate(`
+      UPDATE verification_config 
+      SET nsfw_cooldown_minutes = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE guild_id = ?
+    `, [minutes, guildId]);
+  }
+
   /**
    * Enable verification system for a guild
    */
@@ -197,7 +261,7 @@ export class VerificationConfigModel {
 }
 
 //=============================================================================
-// VERIFICATION LOGS (for future implementation)
+// VERIFICATION LOGS
 //=============================================================================
 
 export interface VerificationLog {
@@ -205,11 +269,18 @@ export interface VerificationLog {
   user_id: string;
   guild_id: string;
   moderator_id?: string;
-  action: 'started' | 'submitted' | 'approved' | 'denied' | 'expired';
+  action:
+    | 'started' | 'submitted' | 'approved' | 'resubmit_requested'
+    | 'denied' | 'denied_kicked' | 'denied_banned'
+    | 'expired' | 'cancelled' | 'nsfw_enabled' | 'nsfw_disabled';
   timestamp: string;
   metadata?: string; // JSON string
 }
 
+export interface VerificationDecisionLog extends VerificationLog {
+  submitted_at?: string;
+}
+
 export class VerificationLogModel {
   /**
    * Log a verification action
@@ -243,10 +314,68 @@ export class VerificationLogModel {
     return executeQuery<VerificationLog>(`
       SELECT * FROM verification_logs 
       WHERE guild_id = ? AND user_id = ?
-      ORDER BY timestamp DESC
+      ORDER BY timestamp DESC, rowid DESC
     `, [guildId, userId]);
   }
 
+  /**
+   * Get a user's most recent log entry for any of the given actions
+   */
+  static async getLatestByActions(guildId: string, userId: string, actions: string[]): Promise<VerificationLog | null> {
+    return executeQueryOne<VerificationLog>(`
+      SELECT * FROM verification_logs
+      WHERE guild_id = ? AND user_id = ? AND action IN (${actions.map(() => '?').join(', ')})
+      ORDER BY timestamp DESC, rowid DESC
+      LIMIT 1
+    `, [guildId, userId, ...actions]);
+  }
+
+  /**
+   * Get recent log entries for the given actions, optionally for one user
+   */
+  static async getRecentByActions(
+    guildId: string,
+    actions: string[],
+    limit: number = 25,
+    userId?: string
+  ): Promise<VerificationLog[]> {
+    return executeQuery<VerificationLog>(`
+      SELECT * FROM verification_logs
+      WHERE guild_id = ? AND action IN (${actions.map(() => '?').join(', ')})
+        ${userId ? 'AND user_id = ?' : ''}
+      ORDER BY timestamp DESC, rowid DESC
+      LIMIT ?
+    `, [guildId, ...actions, ...(userId ? [userId] : []), limit]);
+  }
+
+  /**
+   * Count a guild's log entries per action, optionally since a point in time
+   */
+  static async countByAction(guildId: string, since?: Date): Promise<{ action: string; count: number }[]> {
+    return executeQuery<{ action: string; count: number }>(`
+      SELECT action, COUNT(*) as count FROM verification_logs
+      WHERE guild_id = ? ${since ? 'AND timestamp >= ?' : ''}
+      GROUP BY action
+    `, since ? [guildId, toDatabaseTimestamp(since)] : [guildId]);
+  }
+
+  /**
+   * Get a guild's moderator decisions, each paired with the submission it decided
+   */
+  static async getDecisions(guildId: string, actions: string[], since?: Date): Promise<VerificationDecisionLog[]> {
+    return executeQuery<VerificationDecisionLog>(`
+      SELECT d.*, (
+        SELECT MAX(s.timestamp) FROM verification_logs s
+        WHERE s.guild_id = d.guild_id AND s.user_id = d.user_id
+          AND s.action = 'submitted' AND s.timestamp <= d.timestamp
+      ) as submitted_at
+      FROM verification_logs d
+      WHERE d.guild_id = ? AND d.action IN (${actions.map(() => '?').join(', ')})
+        ${since ? 'AND d.timestamp >= ?' : ''}
+      ORDER BY d.timestamp ASC, d.rowid ASC
+    `, [guildId, ...actions, ...(since ? [toDatabaseTimestamp(since)] : [])]);
+  }
+
   /**
    * Get recent verification logs for a guild
    */
@@ -259,3 +388,208 @@ export class VerificationLogModel {
     `, [guildId, limit]);
   }
 }
+
+//=============================================================================
+// PENDING VERIFICATIONS
+//=============================================================================
+
+export interface PendingVerificationRecord {
+  user_id: string;
+  guild_id: string;
+  step: 'initiated' | 'awaiting_upload' | 'reviewing' | 'completed';
+  dm_channel_id?: string;
+  message_id?: string;
+  attachment_url?: string;
+  timestamp: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class PendingVerificationModel {
+  /**
+   * Create or replace a user's pending verification in a guild
+   */
+  static async upsert(verification: Pick<PendingVerificationRecord, 'user_id' | 'guild_id' | 'step'> & {
+    dm_channel_id?: string;
+    message_id?: string;
+    attachment_url?: string;
+    timestamp: Date | number;
+  }): Promise<void> {
+    executeUpdate(`
+      INSERT INTO pending_verifications (
+        user_id, guild_id, step, dm_channel_id, message_id, attachment_url, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, guild_id) DO UPDATE SET
+        step = excluded.step,
+        dm_channel_id = excluded.dm_channel_id,
+        message_id = excluded.message_id,
+        attachment_url = excluded.attachment_url,
+        timestamp = excluded.timestamp
+    `, [
+      verification.user_id,
+      verification.guild_id,
+      verification.step,
+      verification.dm_channel_id || null,
+      verification.message_id || null,
+      verification.attachment_url || null,
+      toDatabaseTimestamp(verification.timestamp)
+    ]);
+  }
+
+  /**
+   * Get a user's pending verification in a guild
+   */
+  static async get(userId: string, guildId: string): Promise<PendingVerificationRecord | null> {
+    return executeQueryOne<PendingVerificationRecord>(`
+      SELECT * FROM pending_verifications WHERE user_id = ? AND guild_id = ?
+    `, [userId, guildId]);
+  }
+
+  /**
+   * Get a user's pending verifications across every guild, most recently updated first
+   * DM uploads and buttons from before guild IDs were added carry no guild, so they go by this
+   */
+  static async getByUser(userId: string, step?: PendingVerificationRecord['step']): Promise<PendingVerificationRecord[]> {
+    return executeQuery<PendingVerificationRecord>(`
+      SELECT * FROM pending_verifications
+      WHERE user_id = ? ${step ? 'AND step = ?' : ''}
+      ORDER BY timestamp DESC
+    `, step ? [userId, step] : [userId]);
+  }
+
+  /**
+   * Get every pending verification, oldest first
+   */
+  static async getAll(): Promise<PendingVerificationRecord[]> {
+    return executeQuery<PendingVerificationRecord>(`
+      SELECT * FROM pending_verifications ORDER BY timestamp ASC
+    `);
+  }
+
+  /**
+   * Count a guild's pending verifications, optionally at one step
+   */
+  static async countByGuild(guildId: string, step?: PendingVerificationRecord['step']): Promise<number> {
+    const result = executeQueryOne<{ count: number }>(`
+      SELECT COUNT(*) as count FROM pending_verifications
+      WHERE guild_id = ? ${step ? 'AND step = ?' : ''}
+    `, step ? [guildId, step] : [guildId]);
+
+    return result?.count || 0;
+  }
+
+  /**
+   * Take a verification under review for a moderator's decision, so no one else can decide it too
+   * @returns false if it was already decided, claimed or is not awaiting review
+   */
+  static async claimForDecision(userId: string, guildId: string): Promise<boolean> {
+    const result = executeUpdate(`
+      UPDATE pending_verifications SET step = 'completed'
+      WHERE user_id = ? AND guild_id = ? AND step = 'reviewing'
+    `, [userId, guildId]);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Put a claimed verification back up for review after its decision fell through
+   */
+  static async releaseDecision(userId: string, guildId: string): Promise<void> {
+    executeUpdate(`
+      UPDATE pending_verifications SET step = 'reviewing'
+      WHERE user_id = ? AND guild_id = ? AND step = 'completed'
+    `, [userId, guildId]);
+  }
+
+  /**
+   * Remove a user's pending verification in a guild
+   * @returns Whether a row was removed
+   */
+  static async delete(userId: string, guildId: string): Promise<boolean> {
+    const result = executeUpdate(`
+      DELETE FROM pending_verifications WHERE user_id = ? AND guild_id = ?
+    `, [userId, guildId]);
+
+    return result.changes > 0;
+  }
+}
+
+//=============================================================================
+// VERIFICATION IMAGES
+//=============================================================================
+
+export interface VerificationImage {
+  id: number;
+  guild_id: string;
+  user_id: string;
+  kind: 'review' | 'upload';
+  channel_id: string;
+  message_id: string;
+  created_at: string;
+  decided_at?: string;
+  redacted_at?: string;
+}
+
+export class VerificationImageModel {
+  /**
+   * Record a message that carries a user's ID image
+   */
+  static async record(
+    guildId: string,
+    userId: string,
+    kind: VerificationImage['kind'],
+    channelId: string,
+    messageId: string
+  ): Promise<void> {
+    executeUpdate(`
+      INSERT INTO verification_images (guild_id, user_id, kind, channel_id, message_id)
+      VALUES (?, ?, ?, ?, ?)
+    `, [guildId, userId, kind, channelId, messageId]);
+  }
+
+  /**
+   * Start the retention window for a user's images once their verification is decided
+   */
+  static async markDecided(guildId: string, userId: string): Promise<void> {
+    executeUpdate(`
+      UPDATE verification_images
+      SET decided_at = CURRENT_TIMESTAMP
+      WHERE guild_id = ? AND user_id = ? AND decided_at IS NULL
+    `, [guildId, userId]);
+  }
+
+  /**
+   * Get a user's decided images that haven't been removed yet
+   */
+  static async getDecidedByUser(guildId: string, userId: string): Promise<VerificationImage[]> {
+    return executeQuery<VerificationImage>(`
+      SELECT * FROM verification_images
+      WHERE guild_id = ? AND user_id = ? AND decided_at IS NOT NULL AND redacted_at IS NULL
+      ORDER BY id ASC
+    `, [guildId, userId]);
+  }
+
+  /**
+   * Get decided images whose guild's retention window has passed
+   */
+  static async getDue(limit: number = 50): Promise<VerificationImage[]> {
+    return executeQuery<VerificationImage>(`
+      SELECT i.* FROM verification_images i
+      LEFT JOIN verification_config c ON c.guild_id = i.guild_id
+      WHERE i.redacted_at IS NULL
+        AND i.decided_at IS NOT NULL
+        AND datetime(i.decided_at, '+' || COALESCE(c.image_retention_hours, 0) || ' hours') <= ?
+      ORDER BY i.decided_at ASC
+      LIMIT ?
+    `, [toDatabaseTimestamp(Date.now()), limit]);
+  }
+
+  /**
+   * Mark an image as removed
+   */
+  static async markRedacted(id: number): Promise<void> {
+    executeUpdate(`
+      UPDATE verification_images SET redacted_at = CURRENT_TIMESTAMP WHERE id = ?
+    `, [id]);
+  }
+}
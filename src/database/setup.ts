@@ -4,9 +4,31 @@
  * Sets up the database and migrates from JSON files
  */
 
-import { initializeDatabase, getDatabaseStats, checkDatabaseHealth, backupDatabase } from './index';
+import {
+  initializeDatabase,
+  closeDatabase,
+  getDatabaseStats,
+  checkDatabaseHealth,
+  backupDatabase,
+  applyPendingMigrations,
+  revertMigrations,
+  getMigrationStatus,
+  MigrationResult
+} from './index';
+import { checkBackupIntegrity, pruneBackups, restoreBackup } from './backups';
+import { isHealthy } from '../utils/healthcheck';
 import { migrateJsonToDatabase, verifyMigration, rollbackMigration } from './migrations/json-to-db';
+import { Client, GatewayIntentBits } from 'discord.js';
+import dotenv from 'dotenv';
 import fs from 'fs';
+import {
+  planColorRoleImport,
+  applyColorRoleImport,
+  formatColorRoleImportPlan,
+  ColorRoleImportSource
+} from '../systems/color-roles/import';
+
+dotenv.config();
 
 // Command line arguments
 const args = process.argv.slice(2);
@@ -22,16 +44,32 @@ Commands:
   verify    - Verify migration integrity
   rollback  - Rollback to JSON files (emergency use)
   backup    - Create database backup
+  restore <file>
+            - Replace the database with a backup after checking its integrity (stop the bot first)
   stats     - Show database statistics
   health    - Check database health
   reset     - Reset database (DANGEROUS - removes all data)
+  import-colors <guildId> [--file <path>] [--dry-run]
+            - Import color roles from the server, or from a fetch-roles dump
+  migrate:status
+            - List schema migrations and whether each has been applied
+  migrate:up [--dry-run]
+            - Apply pending schema migrations
+  migrate:down [steps] [--dry-run]
+            - Revert the last schema migration, or the last <steps>
+
+  --dry-run on migrate:up/down prints the SQL that would run without changing anything
 
 Examples:
   npm run db:init
   npm run db:migrate
   npm run db:verify
   npm run db:backup
+  npm run db:restore -- data/backups/bot-backup-2024-01-01T00-00-00-000Z.db
   npm run db:stats
+  npm run db:import-colors -- 123456789012345678 --file roommates_roles.txt --dry-run
+  npm run db:migrate:status
+  npm run db:migrate:down -- 2 --dry-run
 
 For first-time setup, run:
   npm run db:init && npm run db:migrate && npm run db:verify
@@ -145,14 +183,82 @@ async function createBackup(): Promise<void> {
   console.log('🔄 Creating database backup...');
   
   try {
-    const backupPath = backupDatabase();
+    await initializeDatabase({ skipMigrations: true });
+    
+    const backupPath = await backupDatabase();
     console.log(`✅ Backup created: ${backupPath}`);
+    
+    const removed = pruneBackups();
+    if (removed.length > 0) {
+      console.log(`🗑️ Removed ${removed.length} old backup(s) past the retention policy`);
+    }
   } catch (error) {
     console.error('❌ Backup failed:', error);
     process.exit(1);
   }
 }
 
+async function restoreDatabase(): Promise<void> {
+  const filePath = args[1];
+  
+  if (!filePath) {
+    console.log('Usage: restore <file>');
+    process.exit(1);
+  }
+  
+  if (!fs.existsSync(filePath)) {
+    console.error(`❌ Backup not found: ${filePath}`);
+    process.exit(1);
+  }
+  
+  if (isHealthy()) {
+    console.error('❌ The bot looks to be running (health.json reports it online). Stop it before restoring.');
+    process.exit(1);
+  }
+  
+  console.log(`🔍 Checking ${filePath}...`);
+  
+  const integrity = checkBackupIntegrity(filePath);
+  if (!integrity.ok) {
+    console.error('❌ Backup failed its integrity check:');
+    integrity.problems.forEach(problem => console.error(`   - ${problem}`));
+    process.exit(1);
+  }
+  
+  console.log('✅ Backup passed its integrity check');
+  console.log('⚠️ This will replace the current database with the backup');
+  
+  // Confirm action
+  const readline = require('readline');
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+  
+  const answer = await new Promise<string>((resolve) => {
+    rl.question('Are you sure you want to restore? (yes/no): ', resolve);
+  });
+  
+  rl.close();
+  
+  if (answer.toLowerCase() !== 'yes') {
+    console.log('Restore cancelled');
+    return;
+  }
+  
+  try {
+    const previousPath = await restoreBackup(filePath);
+    
+    if (previousPath) {
+      console.log(`The database it replaced was saved to: ${previousPath}`);
+    }
+    console.log('✅ Database restored. Pending migrations will run when the bot next starts.');
+  } catch (error) {
+    console.error('❌ Restore failed:', error);
+    process.exit(1);
+  }
+}
+
 async function showStats(): Promise<void> {
   console.log('📊 Database Statistics');
   console.log('='.repeat(50));
@@ -221,8 +327,10 @@ async function resetDatabase(): Promise<void> {
   try {
     // Create backup first
     console.log('Creating backup before reset...');
-    const backupPath = backupDatabase();
+    await initializeDatabase({ skipMigrations: true });
+    const backupPath = await backupDatabase();
     console.log(`Backup created: ${backupPath}`);
+    closeDatabase();
     
     // Delete database file
     const dbPath = process.env.DATABASE_PATH || './data/bot.db';
@@ -241,6 +349,175 @@ async function resetDatabase(): Promise<void> {
   }
 }
 
+async function importColorRoles(): Promise<void> {
+  const guildId = args[1];
+  const fileIndex = args.indexOf('--file');
+  const filePath = fileIndex !== -1 ? args[fileIndex + 1] : undefined;
+  const dryRun = args.includes('--dry-run');
+  
+  if (!guildId || (fileIndex !== -1 && !filePath)) {
+    console.log('Usage: import-colors <guildId> [--file <path>] [--dry-run]');
+    process.exit(1);
+  }
+  
+  if (!process.env.DISCORD_TOKEN) {
+    console.error('❌ DISCORD_TOKEN is required to read the live roles');
+    process.exit(1);
+  }
+  
+  console.log(`🎨 Importing color roles from ${filePath || 'the server'}${dryRun ? ' (dry run)' : ''}...`);
+  
+  const client = new Client({ intents: [GatewayIntentBits.Guilds] });
+  
+  try {
+    let source: ColorRoleImportSource = { type: 'guild' };
+    if (filePath) {
+      source = { type: 'file', contents: fs.readFileSync(filePath, 'utf8') };
+    }
+    
+    await initializeDatabase();
+    await client.login(process.env.DISCORD_TOKEN);
+    
+    const guild = await client.guilds.fetch(guildId);
+    const plan = await planColorRoleImport(guild, source);
+    
+    console.log(formatColorRoleImportPlan(plan));
+    
+    if (dryRun) {
+      console.log('ℹ️ Dry run - nothing was written');
+    } else {
+      await applyColorRoleImport(guild, plan);
+      console.log('✅ Color roles imported successfully!');
+    }
+    
+  } catch (error) {
+    console.error('❌ Color role import failed:', error);
+    process.exit(1);
+  } finally {
+    await client.destroy();
+  }
+}
+
+async function showMigrationStatus(): Promise<void> {
+  console.log('📋 Schema Migrations');
+  console.log('='.repeat(50));
+  
+  try {
+    await initializeDatabase({ skipMigrations: true });
+    
+    const statuses = getMigrationStatus();
+    const stateIcons = { applied: '✅', pending: '⏳', changed: '❌', missing: '⚠️' };
+    
+    statuses.forEach(status => {
+      console.log(
+        `${stateIcons[status.state]} ${status.filename.padEnd(40)} ${status.state.padEnd(8)} ` +
+        `${(status.executedAt || '').padEnd(20)} ${status.reversible ? 'down' : 'no down'}`
+      );
+    });
+    
+    console.log();
+    console.log(`${statuses.filter(s => s.state === 'pending').length} pending of ${statuses.length}`);
+    
+    if (statuses.some(status => status.state === 'changed')) {
+      console.log('❌ Migrations marked changed were edited after being applied - restore them before migrating');
+      process.exit(1);
+    }
+    
+  } catch (error) {
+    console.error('❌ Failed to read migration status:', error);
+    process.exit(1);
+  }
+}
+
+async function migrateSchemaUp(): Promise<void> {
+  const dryRun = args.includes('--dry-run');
+  
+  console.log(`🔄 Applying pending schema migrations${dryRun ? ' (dry run)' : ''}...`);
+  
+  try {
+    await initializeDatabase({ skipMigrations: true });
+    
+    const results = applyPendingMigrations({ dryRun });
+    
+    if (results.length === 0) {
+      console.log('✅ Database is up to date');
+    } else if (dryRun) {
+      printMigrationPlan(results);
+    } else {
+      console.log(`✅ Applied ${results.length} migration(s)`);
+    }
+    
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+async function migrateSchemaDown(): Promise<void> {
+  const dryRun = args.includes('--dry-run');
+  const stepsArg = args.slice(1).find(arg => !arg.startsWith('--'));
+  const steps = stepsArg ? parseInt(stepsArg, 10) : 1;
+  
+  if (isNaN(steps) || steps < 1) {
+    console.log('Usage: migrate:down [steps] [--dry-run]');
+    process.exit(1);
+  }
+  
+  console.log(`🔄 Reverting the last ${steps} schema migration(s)${dryRun ? ' (dry run)' : ''}...`);
+  
+  try {
+    await initializeDatabase({ skipMigrations: true });
+    
+    // A dry run first, so a migration that can't be reverted stops us before anything changes
+    const plan = revertMigrations(steps, { dryRun: true });
+    
+    if (dryRun) {
+      printMigrationPlan(plan);
+      return;
+    }
+    
+    // Confirm action
+    const readline = require('readline');
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+    
+    const answer = await new Promise<string>((resolve) => {
+      rl.question('Down migrations can drop tables and columns. Continue? (yes/no): ', resolve);
+    });
+    
+    rl.close();
+    
+    if (answer.toLowerCase() !== 'yes') {
+      console.log('Revert cancelled');
+      return;
+    }
+    
+    console.log('Creating backup before reverting...');
+    const backupPath = await backupDatabase();
+    console.log(`Backup created: ${backupPath}`);
+    
+    const results = revertMigrations(steps);
+    console.log(`✅ Reverted ${results.length} migration(s): ${results.map(result => result.filename).join(', ')}`);
+    
+  } catch (error) {
+    console.error('❌ Revert failed:', error);
+    process.exit(1);
+  }
+}
+
+function printMigrationPlan(results: MigrationResult[]): void {
+  for (const result of results) {
+    console.log();
+    console.log(`-- ${result.filename} (${result.direction})`);
+    console.log(result.statements.map(statement => statement.endsWith(';') ? statement : `${statement};`).join('\n'));
+  }
+  
+  console.log();
+  console.log('ℹ️ Dry run - nothing was written');
+}
+
 // Main execution
 async function main(): Promise<void> {
   switch (command) {
@@ -264,6 +541,10 @@ async function main(): Promise<void> {
       await createBackup();
       break;
     
+    case 'restore':
+      await restoreDatabase();
+      break;
+    
     case 'stats':
       await showStats();
       break;
@@ -276,6 +557,22 @@ async function main(): Promise<void> {
       await resetDatabase();
       break;
     
+    case 'import-colors':
+      await importColorRoles();
+      break;
+    
+    case 'migrate:status':
+      await showMigrationStatus();
+      break;
+    
+    case 'migrate:up':
+      await migrateSchemaUp();
+      break;
+    
+    case 'migrate:down':
+      await migrateSchemaDown();
+      break;
+    
     case 'help':
     case '--help':
     case '-h':
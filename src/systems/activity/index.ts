@@ -0,0 +1,77 @@
+/**
+ * Activity System for The Roommates Helper
+ * ---------------------------------------
+ * Records daily message, member and moderation activity for server statistics
+ */
+
+import { Client, Events } from 'discord.js';
+import { BotSystem } from '../../types';
+import { logWithEmoji } from '../../utils';
+import {
+  trackMessage,
+  trackJoin,
+  trackLeave,
+  trackModerationAction,
+  flushActivity,
+  startActivityTracking,
+  stopActivityTracking
+} from './tracker';
+import { getServerActivity } from './stats';
+
+//=============================================================================
+// ACTIVITY SYSTEM IMPLEMENTATION
+//=============================================================================
+
+export const activitySystem: BotSystem = {
+  name: 'Activity',
+  enabled: true,
+
+  setup: async (client: Client) => {
+    logWithEmoji('info', 'Setting up activity tracking...', 'Activity');
+
+    setupActivityHandlers(client);
+    startActivityTracking(client);
+
+    logWithEmoji('success', 'Activity tracking initialized', 'Activity');
+  },
+
+  cleanup: async () => {
+    logWithEmoji('info', 'Saving remaining activity...', 'Activity');
+    await stopActivityTracking();
+  }
+};
+
+//=============================================================================
+// EVENT HANDLERS
+//=============================================================================
+
+/**
+ * Count messages, joins and leaves as they arrive
+ */
+function setupActivityHandlers(client: Client): void {
+  client.on(Events.MessageCreate, (message) => {
+    if (!message.inGuild() || message.author.bot) return;
+
+    trackMessage(message.guildId, message.channelId, message.author.id);
+  });
+
+  client.on(Events.GuildMemberAdd, (member) => {
+    trackJoin(member.guild.id);
+  });
+
+  client.on(Events.GuildMemberRemove, (member) => {
+    trackLeave(member.guild.id);
+  });
+}
+
+//=============================================================================
+// EXPORTS
+//=============================================================================
+
+export {
+  trackModerationAction,
+  flushActivity,
+  getServerActivity
+};
+
+export * from './types';
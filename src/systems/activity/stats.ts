@@ -0,0 +1,99 @@
+/**
+ * Activity Statistics
+ * ------------------
+ * Daily, per-channel and week-over-week figures built from server_stats_daily
+ */
+
+import { ServerStatsModel } from '../../database/models/legacy-models';
+import { ChannelActivity, DailyActivity, ServerActivityStats } from './types';
+
+//=============================================================================
+// STATISTICS
+//=============================================================================
+
+/**
+ * Compute a guild's activity for the last few UTC days, today included
+ * @param days Number of days to cover
+ */
+export async function getServerActivity(guildId: string, days: number): Promise<ServerActivityStats> {
+  const endDate = formatDate(new Date());
+  const startDate = addDays(endDate, -(days - 1));
+  const thisWeekStart = addDays(endDate, -6);
+  const lastWeekStart = addDays(endDate, -13);
+
+  // Fetch at least two weeks so channels can be compared week over week
+  const rows = await ServerStatsModel.getStatsForDateRange(
+    guildId,
+    startDate < lastWeekStart ? startDate : lastWeekStart,
+    endDate
+  );
+
+  const serverRows = new Map(
+    rows.filter(row => row.channel_id === null).map(row => [row.date, row])
+  );
+
+  const daily: DailyActivity[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const row = serverRows.get(date);
+    daily.push({
+      date,
+      messages: row?.message_count || 0,
+      joins: row?.join_count || 0,
+      leaves: row?.leave_count || 0,
+      activeUsers: row?.active_users || 0,
+      moderationActions: row?.moderation_actions || 0
+    });
+  }
+
+  const channels = new Map<string, ChannelActivity>();
+  for (const row of rows) {
+    if (row.channel_id === null) continue;
+
+    let channel = channels.get(row.channel_id);
+    if (!channel) {
+      channel = { channelId: row.channel_id, messages: 0, thisWeek: 0, lastWeek: 0 };
+      channels.set(row.channel_id, channel);
+    }
+
+    if (row.date >= startDate) channel.messages += row.message_count;
+    if (row.date >= thisWeekStart) channel.thisWeek += row.message_count;
+    else if (row.date >= lastWeekStart) channel.lastWeek += row.message_count;
+  }
+
+  const sum = (key: keyof Omit<DailyActivity, 'date'>) => daily.reduce((total, day) => total + day[key], 0);
+
+  return {
+    startDate,
+    endDate,
+    days: daily,
+    totals: {
+      messages: sum('messages'),
+      joins: sum('joins'),
+      leaves: sum('leaves'),
+      activeUsers: sum('activeUsers') / daily.length,
+      moderationActions: sum('moderationActions')
+    },
+    channels: [...channels.values()]
+      .filter(channel => channel.messages > 0)
+      .sort((a, b) => b.messages - a.messages),
+    thisWeek: await ServerStatsModel.getWeeklyStats(guildId, thisWeekStart),
+    lastWeek: await ServerStatsModel.getWeeklyStats(guildId, lastWeekStart)
+  };
+}
+
+//=============================================================================
+// HELPERS
+//=============================================================================
+
+/**
+ * A date as the YYYY-MM-DD UTC day the stats tables use
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+}
@@ -0,0 +1,221 @@
+/**
+ * Activity Tracker
+ * ---------------
+ * Counts gateway activity in memory and flushes it to the daily stats tables in batches
+ */
+
+import { Client } from 'discord.js';
+import { logWithEmoji } from '../../utils';
+import { toDatabaseTimestamp } from '../../database';
+import { GuildModel, ServerStatsModel } from '../../database/models/legacy-models';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+const FLUSH_INTERVAL = 60 * 1000; // 1 minute
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+/**
+ * One guild's unflushed activity for one day
+ */
+interface GuildActivity {
+  guildId: string;
+  date: string;
+  messages: number;
+  joins: number;
+  leaves: number;
+  moderationActions: number;
+  channelMessages: Map<string, number>;
+  users: Map<string, { messages: number; channels: Set<string> }>;
+}
+
+//=============================================================================
+// STATE
+//=============================================================================
+
+// Keyed by guild and day, so activity either side of midnight lands on the right date
+let pending = new Map<string, GuildActivity>();
+
+let activeClient: Client | null = null;
+let flushInterval: NodeJS.Timeout | null = null;
+let flushing: Promise<void> | null = null;
+
+//=============================================================================
+// TRACKING
+//=============================================================================
+
+/**
+ * Get the buffer for a guild's activity today, or null while tracking is stopped
+ */
+function getActivity(guildId: string): GuildActivity | null {
+  if (!activeClient) return null;
+
+  // server_stats_daily dates are UTC days
+  const date = toDatabaseTimestamp(new Date()).slice(0, 10);
+  const key = `${guildId}:${date}`;
+
+  let activity = pending.get(key);
+  if (!activity) {
+    activity = {
+      guildId,
+      date,
+      messages: 0,
+      joins: 0,
+      leaves: 0,
+      moderationActions: 0,
+      channelMessages: new Map(),
+      users: new Map()
+    };
+    pending.set(key, activity);
+  }
+
+  return activity;
+}
+
+/**
+ * Count a message sent by a member
+ */
+export function trackMessage(guildId: string, channelId: string, userId: string): void {
+  const activity = getActivity(guildId);
+  if (!activity) return;
+
+  activity.messages++;
+  activity.channelMessages.set(channelId, (activity.channelMessages.get(channelId) || 0) + 1);
+
+  let user = activity.users.get(userId);
+  if (!user) {
+    user = { messages: 0, channels: new Set() };
+    activity.users.set(userId, user);
+  }
+  user.messages++;
+  user.channels.add(channelId);
+}
+
+/**
+ * Count a member joining
+ */
+export function trackJoin(guildId: string): void {
+  const activity = getActivity(guildId);
+  if (activity) activity.joins++;
+}
+
+/**
+ * Count a member leaving
+ */
+export function trackLeave(guildId: string): void {
+  const activity = getActivity(guildId);
+  if (activity) activity.leaves++;
+}
+
+/**
+ * Count a moderation action taken through the bot
+ */
+export function trackModerationAction(guildId: string): void {
+  const activity = getActivity(guildId);
+  if (activity) activity.moderationActions++;
+}
+
+//=============================================================================
+// FLUSHING
+//=============================================================================
+
+/**
+ * Write everything counted so far to the database
+ * Waits for a flush that is already running rather than starting a second one
+ */
+export async function flushActivity(): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = writePendingActivity().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+/**
+ * Swap out the buffers and write them, so activity counted meanwhile waits for the next flush
+ */
+async function writePendingActivity(): Promise<void> {
+  if (pending.size === 0) return;
+
+  const batch = [...pending.values()];
+  pending = new Map();
+
+  for (const activity of batch) {
+    try {
+      await writeGuildActivity(activity);
+    } catch (error) {
+      logWithEmoji('error', `Error saving activity for guild ${activity.guildId} on ${activity.date}: ${error}`, 'Activity');
+    }
+  }
+}
+
+/**
+ * Add one guild's counts for a day to server_stats_daily and active_users_daily
+ */
+async function writeGuildActivity(activity: GuildActivity): Promise<void> {
+  // The stats tables need their guild row
+  const guild = activeClient?.guilds.cache.get(activity.guildId);
+  if (guild) {
+    await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+  }
+
+  await ServerStatsModel.recordDailyStats(
+    activity.guildId,
+    activity.date,
+    null,
+    activity.messages,
+    activity.joins,
+    activity.leaves,
+    0,
+    activity.moderationActions
+  );
+
+  for (const [channelId, messages] of activity.channelMessages) {
+    await ServerStatsModel.recordDailyStats(activity.guildId, activity.date, channelId, messages);
+  }
+
+  for (const [userId, user] of activity.users) {
+    await ServerStatsModel.recordActiveUser(activity.guildId, userId, activity.date, [...user.channels], user.messages);
+  }
+
+  // Active users are distinct per day, so they are recounted rather than added
+  if (activity.users.size > 0) {
+    await ServerStatsModel.refreshActiveUsers(activity.guildId, activity.date);
+  }
+}
+
+//=============================================================================
+// LIFECYCLE
+//=============================================================================
+
+/**
+ * Start counting activity and flushing it on an interval
+ */
+export function startActivityTracking(client: Client): void {
+  if (flushInterval) clearInterval(flushInterval);
+
+  activeClient = client;
+
+  flushInterval = setInterval(() => {
+    flushActivity();
+  }, FLUSH_INTERVAL);
+}
+
+/**
+ * Stop counting activity and write out whatever is still buffered
+ */
+export async function stopActivityTracking(): Promise<void> {
+  if (flushInterval) {
+    clearInterval(flushInterval);
+    flushInterval = null;
+  }
+
+  await flushActivity();
+  activeClient = null;
+}
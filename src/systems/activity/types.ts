@@ -0,0 +1,58 @@
+/**
+ * Activity System Types
+ * --------------------
+ * Type definitions for server activity statistics
+ */
+
+import { WeeklyStats } from '../../database/models/legacy-models';
+
+//=============================================================================
+// STATISTICS TYPES
+//=============================================================================
+
+/**
+ * Server-wide activity for one UTC day
+ */
+export interface DailyActivity {
+  /** Day as YYYY-MM-DD */
+  date: string;
+  messages: number;
+  joins: number;
+  leaves: number;
+  /** Distinct members who sent a message */
+  activeUsers: number;
+  moderationActions: number;
+}
+
+/**
+ * Messages in one channel over the period and the last two weeks
+ */
+export interface ChannelActivity {
+  channelId: string;
+  /** Messages over the whole period */
+  messages: number;
+  /** Messages over the last seven days */
+  thisWeek: number;
+  /** Messages over the seven days before that */
+  lastWeek: number;
+}
+
+/**
+ * A guild's activity over a period, with the last two weeks for comparison
+ */
+export interface ServerActivityStats {
+  /** First day covered, as YYYY-MM-DD */
+  startDate: string;
+  /** Last day covered (today), as YYYY-MM-DD */
+  endDate: string;
+  /** Every day in the period, including days with no activity */
+  days: DailyActivity[];
+  /** Totals over the period, with active users averaged per day */
+  totals: Omit<DailyActivity, 'date'>;
+  /** Channels by messages over the period, busiest first */
+  channels: ChannelActivity[];
+  /** The last seven days */
+  thisWeek: WeeklyStats;
+  /** The seven days before that */
+  lastWeek: WeeklyStats;
+}
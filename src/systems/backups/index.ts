@@ -0,0 +1,90 @@
+/**
+ * Backup System for The Roommates Helper
+ * -------------------------------------
+ * Scheduled database backups with rotation, run through the job scheduler
+ */
+
+import { Client } from 'discord.js';
+import { BotSystem } from '../../types';
+import { logWithEmoji, formatDuration } from '../../utils';
+import { createRotatedBackup, getBackupInterval, listBackups } from '../../database/backups';
+import { registerJobHandler, scheduleJob, cancelJob, ScheduledJobTypes } from '../scheduler';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+const BACKUP_JOB_KEY = 'database-backup';
+
+// A failed backup is tried again sooner than the next regular one
+const FAILED_BACKUP_RETRY = 60 * 60 * 1000; // 1 hour
+
+//=============================================================================
+// BACKUP SYSTEM IMPLEMENTATION
+//=============================================================================
+
+export const backupSystem: BotSystem = {
+  name: 'Backups',
+  enabled: true,
+  dependencies: ['Scheduler'],
+
+  setup: async (client: Client) => {
+    logWithEmoji('info', 'Setting up database backups...', 'Backups');
+
+    registerJobHandler(ScheduledJobTypes.DATABASE_BACKUP, handleBackupJob);
+
+    const interval = getBackupIntervalMs();
+    if (interval === 0) {
+      await cancelJob(BACKUP_JOB_KEY);
+      logWithEmoji('info', 'Scheduled backups are off (BACKUP_INTERVAL_HOURS=0)', 'Backups');
+      return;
+    }
+
+    // Carry on from the newest backup, so restarts don't push the next one back
+    const latest = listBackups()[0];
+    const nextRun = latest ? Math.max(Date.now(), latest.createdAt.getTime() + interval) : Date.now();
+    await scheduleNextBackup(nextRun);
+
+    logWithEmoji('success', `Database backups scheduled every ${formatDuration(interval)}`, 'Backups');
+  },
+
+  cleanup: async () => {
+    logWithEmoji('info', 'Cleaning up database backups...', 'Backups');
+
+    // Setup schedules the next run again, so a disabled system leaves nothing queued
+    await cancelJob(BACKUP_JOB_KEY);
+  }
+};
+
+//=============================================================================
+// SCHEDULED BACKUPS
+//=============================================================================
+
+/**
+ * Take a backup and queue the next one
+ * Failures are handled here rather than retried by the scheduler, so the schedule never stops
+ */
+async function handleBackupJob(): Promise<void> {
+  const interval = getBackupIntervalMs();
+  if (interval === 0) return;
+
+  try {
+    const result = await createRotatedBackup();
+    logWithEmoji('success',
+      `Scheduled backup saved to ${result.path} (${Math.round(result.size / 1024)} KB), ${result.removed.length} old backup(s) removed`,
+      'Backups'
+    );
+    await scheduleNextBackup(Date.now() + interval);
+  } catch (error) {
+    logWithEmoji('error', `Scheduled backup failed: ${error}`, 'Backups');
+    await scheduleNextBackup(Date.now() + Math.min(interval, FAILED_BACKUP_RETRY));
+  }
+}
+
+async function scheduleNextBackup(runAt: number): Promise<void> {
+  await scheduleJob(ScheduledJobTypes.DATABASE_BACKUP, runAt, {}, { dedupeKey: BACKUP_JOB_KEY });
+}
+
+function getBackupIntervalMs(): number {
+  return getBackupInterval() * 60 * 60 * 1000;
+}
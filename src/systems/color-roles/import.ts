@@ -0,0 +1,295 @@
+/**
+ * Color Role Import
+ * -----------------
+ * Fills color_roles from a guild's live roles or a fetch-roles dump
+ */
+
+import { Guild, PermissionFlagsBits, Role } from 'discord.js';
+import { logWithEmoji } from '../../utils';
+import { GuildModel } from '../../database/models/legacy-models';
+import { ColorRoleModel, ColorRoleRecord } from '../../database/models/color-roles';
+import { getProtectedRoleIds } from './picker';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+// Name keywords per category; the last keyword in a name wins, so "Blue Green" is Green
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Red: ['red', 'crimson', 'scarlet', 'maroon', 'cherry', 'wine', 'ruby'],
+  Orange: ['orange', 'coral', 'salmon', 'cantaloupe', 'mango', 'saffron', 'peach', 'apricot'],
+  Yellow: ['yellow', 'gold', 'mustard', 'lemon', 'champagne', 'cream', 'parchment'],
+  Green: ['green', 'lime', 'chartreuse', 'mint', 'sage', 'fern', 'shrek', 'venom', 'algae'],
+  Blue: ['blue', 'cyan', 'aquamarine', 'turquoise', 'teal', 'sky', 'ocean', 'navy', 'sapphire', 'azure', 'denim', 'iceberg'],
+  Purple: ['purple', 'violet', 'indigo', 'plum', 'mauve', 'lavender', 'magenta', 'magneta', 'amethyst', 'tyrian'],
+  Pink: ['pink', 'rose', 'blush', 'candy'],
+  Gray: ['gray', 'grey', 'silver', 'platinum', 'black', 'white', 'night', 'oil', 'shadow', 'slate']
+};
+
+// Staff roles must never become self-assignable, whatever color they have
+const STAFF_PERMISSIONS = [
+  PermissionFlagsBits.Administrator,
+  PermissionFlagsBits.ManageGuild,
+  PermissionFlagsBits.ManageRoles,
+  PermissionFlagsBits.ManageMessages,
+  PermissionFlagsBits.KickMembers,
+  PermissionFlagsBits.BanMembers,
+  PermissionFlagsBits.ModerateMembers
+];
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export type ColorRoleImportSource =
+  | { type: 'guild' }
+  | { type: 'file'; contents: string };
+
+export interface ColorRoleImportEntry {
+  roleId: string;
+  name: string;
+  hexColor: string;
+  category: string;
+}
+
+export interface ColorRoleImportPlan {
+  guildId: string;
+  added: ColorRoleImportEntry[];
+  updated: { entry: ColorRoleImportEntry; previous: ColorRoleRecord }[];
+  unchanged: ColorRoleImportEntry[];
+  skipped: { name: string; roleId: string; reason: string }[];
+  /** Enabled rows whose role has been deleted from the guild */
+  stale: ColorRoleRecord[];
+  /** Enabled rows whose role can no longer be a color role, e.g. one since used by verification */
+  unsafe: ColorRoleRecord[];
+}
+
+//=============================================================================
+// CATEGORIES
+//=============================================================================
+
+/**
+ * Infer a color category from a role name, falling back to the color's hue
+ */
+export function inferColorCategory(name: string, hexColor: string): string {
+  return categoryFromName(name) || categoryFromHue(hexColor);
+}
+
+/**
+ * Find the category a role name's color keyword belongs to, or null if it names no known color
+ */
+function categoryFromName(name: string): string | null {
+  const words = name.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  let category: string | null = null;
+
+  for (const word of words) {
+    for (const [candidate, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+      if (keywords.includes(word)) {
+        category = candidate;
+      }
+    }
+  }
+
+  return category;
+}
+
+/**
+ * Bucket a hex color into a category by hue
+ */
+function categoryFromHue(hexColor: string): string {
+  const value = parseInt(hexColor.replace('#', ''), 16);
+  if (isNaN(value)) return 'Other';
+
+  const r = ((value >> 16) & 0xFF) / 255;
+  const g = ((value >> 8) & 0xFF) / 255;
+  const b = (value & 0xFF) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+
+  if (saturation < 0.15 || lightness < 0.12 || lightness > 0.92) return 'Gray';
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+  hue = (hue * 60 + 360) % 360;
+
+  if (hue < 15 || hue >= 345) return 'Red';
+  if (hue < 45) return 'Orange';
+  if (hue < 70) return 'Yellow';
+  if (hue < 165) return 'Green';
+  if (hue < 255) return 'Blue';
+  if (hue < 290) return 'Purple';
+  return 'Pink';
+}
+
+//=============================================================================
+// PLANNING
+//=============================================================================
+
+/**
+ * Parse a fetch-roles dump of `[Name, id]` lines
+ */
+export function parseRoleDump(contents: string): { name: string; id: string }[] {
+  return contents
+    .split(/\r?\n/)
+    .map(line => line.trim().match(/^\[(.+),\s*(\d{17,20})\]$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({ name: match[1].trim(), id: match[2] }));
+}
+
+/**
+ * Explain why a role can't be a color role, or null if it can
+ * Only roles named after a color qualify, so access roles that happen to be colored are never offered
+ * @param protectedRoleIds Roles verification and moderation depend on
+ */
+function getSkipReason(role: Role, protectedRoleIds: Set<string>): string | null {
+  if (role.id === role.guild.id) return '@everyone';
+  if (role.managed) return 'managed by an integration';
+  if (protectedRoleIds.has(role.id)) return 'used by verification or moderation';
+  if (role.color === 0) return 'has no color';
+  if (STAFF_PERMISSIONS.some(permission => role.permissions.has(permission, false))) {
+    return 'grants staff permissions';
+  }
+  if (!categoryFromName(role.name)) return 'name is not a known color';
+  return null;
+}
+
+/**
+ * Work out what an import would change, without writing anything
+ */
+export async function planColorRoleImport(guild: Guild, source: ColorRoleImportSource): Promise<ColorRoleImportPlan> {
+  const roles = await guild.roles.fetch();
+  const existing = new Map((await ColorRoleModel.getAllByGuild(guild.id)).map(row => [row.role_id, row]));
+  const protectedRoleIds = await getProtectedRoleIds(guild.id);
+
+  const plan: ColorRoleImportPlan = {
+    guildId: guild.id,
+    added: [],
+    updated: [],
+    unchanged: [],
+    skipped: [],
+    stale: [...existing.values()].filter(row => row.enabled && !roles.has(row.role_id)),
+    unsafe: [...existing.values()].filter(row => {
+      const role = roles.get(row.role_id);
+      return row.enabled && !!role && getSkipReason(role, protectedRoleIds) !== null;
+    })
+  };
+
+  const candidates: { name: string; id: string }[] = source.type === 'guild'
+    ? roles.map(role => ({ name: role.name, id: role.id }))
+    : parseRoleDump(source.contents);
+
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (seen.has(candidate.id)) continue;
+    seen.add(candidate.id);
+
+    // The live role is the source of truth for the color, even when importing from a dump
+    const role = roles.get(candidate.id);
+    if (!role) {
+      plan.skipped.push({ name: candidate.name, roleId: candidate.id, reason: 'not found in the server' });
+      continue;
+    }
+
+    const skipReason = getSkipReason(role, protectedRoleIds);
+    if (skipReason) {
+      plan.skipped.push({ name: role.name, roleId: role.id, reason: skipReason });
+      continue;
+    }
+
+    const previous = existing.get(role.id);
+    const entry: ColorRoleImportEntry = {
+      roleId: role.id,
+      name: role.name,
+      hexColor: role.hexColor.toUpperCase(),
+      category: previous?.category || inferColorCategory(role.name, role.hexColor)
+    };
+
+    if (!previous) {
+      plan.added.push(entry);
+    } else if (previous.role_name !== entry.name || previous.hex_color !== entry.hexColor || !previous.enabled) {
+      plan.updated.push({ entry, previous });
+    } else {
+      plan.unchanged.push(entry);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Render a plan as a diff, one line per change
+ */
+export function formatColorRoleImportPlan(plan: ColorRoleImportPlan): string {
+  const lines: string[] = [];
+
+  for (const entry of plan.added) {
+    lines.push(`+ ${entry.name} ${entry.hexColor} [${entry.category}]`);
+  }
+
+  for (const { entry, previous } of plan.updated) {
+    const changes: string[] = [];
+    if (previous.role_name !== entry.name) changes.push(`name "${previous.role_name}" -> "${entry.name}"`);
+    if (previous.hex_color !== entry.hexColor) changes.push(`color ${previous.hex_color} -> ${entry.hexColor}`);
+    if (!previous.enabled) changes.push('re-enabled');
+    lines.push(`~ ${entry.name}: ${changes.join(', ')}`);
+  }
+
+  for (const row of plan.stale) {
+    lines.push(`- ${row.role_name} (role deleted, will be disabled)`);
+  }
+
+  for (const row of plan.unsafe) {
+    lines.push(`- ${row.role_name} (can no longer be a color role, will be disabled)`);
+  }
+
+  for (const skipped of plan.skipped) {
+    lines.push(`! ${skipped.name} (${skipped.roleId}): ${skipped.reason}`);
+  }
+
+  lines.push(
+    '',
+    `${plan.added.length} added, ${plan.updated.length} updated, ${plan.unchanged.length} unchanged, ` +
+    `${plan.stale.length + plan.unsafe.length} disabled, ${plan.skipped.length} skipped`
+  );
+
+  return lines.join('\n');
+}
+
+//=============================================================================
+// APPLYING
+//=============================================================================
+
+/**
+ * Write a planned import to the database
+ */
+export async function applyColorRoleImport(guild: Guild, plan: ColorRoleImportPlan): Promise<void> {
+  // color_roles rows need their guild row
+  await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+
+  for (const entry of [...plan.added, ...plan.updated.map(update => update.entry)]) {
+    await ColorRoleModel.upsert({
+      guild_id: guild.id,
+      role_id: entry.roleId,
+      role_name: entry.name,
+      hex_color: entry.hexColor,
+      category: entry.category
+    });
+  }
+
+  for (const row of [...plan.stale, ...plan.unsafe]) {
+    await ColorRoleModel.setEnabled(guild.id, row.role_id, false);
+  }
+
+  logWithEmoji('success',
+    `Imported color roles for ${guild.name}: ${plan.added.length} added, ${plan.updated.length} updated, ` +
+    `${plan.stale.length + plan.unsafe.length} disabled`,
+    'Colors'
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Color Role System for The Roommates Helper
+ * -----------------------------------------
+ * Self-assignable color roles backed by the color_roles table
+ */
+
+import { Client, Events } from 'discord.js';
+import { BotSystem } from '../../types';
+import { logWithEmoji } from '../../utils';
+import { handleColorSelect, handleColorButton } from './picker';
+
+//=============================================================================
+// COLOR ROLE SYSTEM IMPLEMENTATION
+//=============================================================================
+
+export const colorRoleSystem: BotSystem = {
+  name: 'Color Roles',
+  enabled: true,
+
+  setup: async (client: Client) => {
+    logWithEmoji('info', 'Setting up color role system...', 'Colors');
+
+    setupColorHandlers(client);
+
+    logWithEmoji('success', 'Color role system initialized', 'Colors');
+  },
+
+  cleanup: async () => {
+    logWithEmoji('info', 'Cleaning up color role system...', 'Colors');
+  }
+};
+
+//=============================================================================
+// EVENT HANDLERS
+//=============================================================================
+
+/**
+ * Set up picker select menu and button handlers
+ */
+function setupColorHandlers(client: Client): void {
+  client.on(Events.InteractionCreate, async (interaction) => {
+    if (!interaction.inGuild()) return;
+
+    try {
+      if (interaction.isStringSelectMenu() &&
+          (interaction.customId === 'color_category' || interaction.customId.startsWith('color_select_'))) {
+        await handleColorSelect(interaction);
+      } else if (interaction.isButton() &&
+          (interaction.customId === 'color_remove' || interaction.customId.startsWith('color_page_'))) {
+        await handleColorButton(interaction);
+      }
+    } catch (error) {
+      logWithEmoji('error', `Error handling color picker interaction: ${error}`, 'Colors');
+    }
+  });
+}
+
+//=============================================================================
+// EXPORTS
+//=============================================================================
+
+export * from './picker';
+export * from './import';
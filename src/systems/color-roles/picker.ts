@@ -0,0 +1,307 @@
+/**
+ * Color Role Picker
+ * -----------------
+ * Categorized, paginated select menus for choosing a color role
+ */
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  EmbedBuilder,
+  Guild,
+  GuildMember,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction
+} from 'discord.js';
+import { ColorCategory, ColorRole } from '../../types';
+import { logWithEmoji } from '../../utils';
+import { ColorRoleModel } from '../../database/models/color-roles';
+import { ModConfigModel } from '../../database/models/legacy-models';
+import { VerificationConfigModel } from '../../database/models/verification';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+// Discord allows at most 25 options per select menu
+const ROLES_PER_PAGE = 25;
+
+// Roles without a category are listed last
+const FALLBACK_CATEGORY = 'Other';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export interface ColorPicker {
+  embeds: EmbedBuilder[];
+  components: ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[];
+}
+
+//=============================================================================
+// COLOR ROLES
+//=============================================================================
+
+/**
+ * Get a guild's color roles grouped by category, skipping roles that no longer exist or are protected
+ */
+export async function getColorCategories(guild: Guild): Promise<ColorCategory[]> {
+  const records = await ColorRoleModel.getByGuild(guild.id);
+  const protectedRoleIds = await getProtectedRoleIds(guild.id);
+  const categories = new Map<string, ColorRole[]>();
+
+  for (const record of records) {
+    if (!guild.roles.cache.has(record.role_id) || protectedRoleIds.has(record.role_id)) continue;
+
+    const category = record.category || FALLBACK_CATEGORY;
+    if (!categories.has(category)) {
+      categories.set(category, []);
+    }
+
+    categories.get(category)!.push({
+      id: record.role_id,
+      name: record.role_name,
+      hexColor: record.hex_color,
+      category
+    });
+  }
+
+  return [...categories.entries()]
+    .map(([name, roles]) => ({ name, roles }))
+    .sort((a, b) => {
+      if (a.name === FALLBACK_CATEGORY) return 1;
+      if (b.name === FALLBACK_CATEGORY) return -1;
+      return a.name.localeCompare(b.name);
+    });
+}
+
+/**
+ * Get the roles verification and moderation depend on, which must never be handed out or taken away as colors
+ */
+export async function getProtectedRoleIds(guildId: string): Promise<Set<string>> {
+  const verification = await VerificationConfigModel.getByGuildId(guildId);
+  const moderation = await ModConfigModel.getByGuildId(guildId);
+
+  return new Set([
+    verification?.verified_role_id,
+    verification?.age_unverified_role_id,
+    verification?.nsfw_access_role_id,
+    verification?.nsfw_no_access_role_id,
+    moderation?.muted_role_id,
+    moderation?.moderator_role_id
+  ].filter((roleId): roleId is string => !!roleId));
+}
+
+/**
+ * Get the color roles a member currently holds, leaving out protected roles
+ */
+async function getHeldColorRoleIds(member: GuildMember): Promise<string[]> {
+  const records = await ColorRoleModel.getByGuild(member.guild.id);
+  const protectedRoleIds = await getProtectedRoleIds(member.guild.id);
+
+  return records
+    .map(record => record.role_id)
+    .filter(roleId => member.roles.cache.has(roleId) && !protectedRoleIds.has(roleId));
+}
+
+/**
+ * Give a member a color role, removing any other color role they hold
+ * @returns Whether the role was applied
+ */
+export async function setMemberColor(member: GuildMember, roleId: string): Promise<boolean> {
+  const colorRole = await ColorRoleModel.getByRoleId(member.guild.id, roleId);
+  const role = member.guild.roles.cache.get(roleId);
+
+  if (!colorRole || !role || !role.editable) {
+    logWithEmoji('warn', `Color role ${roleId} is missing or cannot be assigned`, 'Colors');
+    return false;
+  }
+
+  // A role listed as a color by mistake must not bypass verification or moderation
+  if ((await getProtectedRoleIds(member.guild.id)).has(roleId)) {
+    logWithEmoji('warn', `${member.user.tag} tried to take protected role ${colorRole.role_name} as a color`, 'Colors');
+    return false;
+  }
+
+  try {
+    const previous = (await getHeldColorRoleIds(member)).filter(id => id !== roleId);
+
+    if (previous.length > 0) {
+      await member.roles.remove(previous, 'Color role changed');
+    }
+
+    if (!member.roles.cache.has(roleId)) {
+      await member.roles.add(roleId, 'Color role selected');
+    }
+
+    logWithEmoji('info', `${member.user.tag} chose color ${colorRole.role_name}`, 'Colors');
+    return true;
+  } catch (error) {
+    logWithEmoji('error', `Error setting color role for ${member.user.tag}: ${error}`, 'Colors');
+    return false;
+  }
+}
+
+/**
+ * Remove every color role from a member
+ * @returns The number of roles removed
+ */
+export async function removeMemberColor(member: GuildMember): Promise<number> {
+  const held = await getHeldColorRoleIds(member);
+
+  if (held.length > 0) {
+    await member.roles.remove(held, 'Color role removed');
+    logWithEmoji('info', `Removed color role from ${member.user.tag}`, 'Colors');
+  }
+
+  return held.length;
+}
+
+//=============================================================================
+// RENDERING
+//=============================================================================
+
+/**
+ * Build the picker for one page of a category
+ * @param notice Optional line shown above the listing, e.g. the result of the last choice
+ */
+export async function buildColorPicker(
+  member: GuildMember,
+  categoryIndex: number = 0,
+  page: number = 0,
+  notice?: string
+): Promise<ColorPicker> {
+  const categories = await getColorCategories(member.guild);
+
+  if (categories.length === 0) {
+    const embed = new EmbedBuilder()
+      .setTitle('🎨 Color Roles')
+      .setColor(0x5865F2)
+      .setDescription('No color roles have been set up in this server yet.');
+
+    return { embeds: [embed], components: [] };
+  }
+
+  const currentIndex = Math.min(Math.max(categoryIndex, 0), categories.length - 1);
+  const category = categories[currentIndex];
+  const pageCount = Math.ceil(category.roles.length / ROLES_PER_PAGE);
+  const currentPage = Math.min(Math.max(page, 0), pageCount - 1);
+  const pageRoles = category.roles.slice(currentPage * ROLES_PER_PAGE, (currentPage + 1) * ROLES_PER_PAGE);
+
+  const heldIds = await getHeldColorRoleIds(member);
+  const description = [
+    notice,
+    `**Current color:** ${heldIds.length > 0 ? heldIds.map(id => `<@&${id}>`).join(', ') : 'None'}`,
+    '',
+    pageRoles.map(role => `<@&${role.id}>`).join(' ')
+  ].filter(line => line !== undefined).join('\n');
+
+  const embed = new EmbedBuilder()
+    .setTitle(`🎨 ${category.name} Colors`)
+    .setColor(member.displayColor || 0x5865F2)
+    .setDescription(description)
+    .setFooter({
+      text: `Category ${currentIndex + 1} of ${categories.length} | Page ${currentPage + 1} of ${pageCount}`
+    });
+
+  // Discord caps select menus at 25 options, so only the first 25 categories are offered
+  const categoryMenu = new StringSelectMenuBuilder()
+    .setCustomId('color_category')
+    .setPlaceholder('Choose a category')
+    .addOptions(
+      categories.slice(0, ROLES_PER_PAGE).map((cat, index) => ({
+        label: cat.name,
+        description: `${cat.roles.length} color${cat.roles.length !== 1 ? 's' : ''}`,
+        value: `${index}`,
+        default: index === currentIndex
+      }))
+    );
+
+  const colorMenu = new StringSelectMenuBuilder()
+    .setCustomId(`color_select_${currentIndex}_${currentPage}`)
+    .setPlaceholder(`Choose a ${category.name.toLowerCase()} color`)
+    .addOptions(
+      pageRoles.map(role => ({
+        label: role.name,
+        description: role.hexColor,
+        value: role.id,
+        default: heldIds.includes(role.id)
+      }))
+    );
+
+  const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`color_page_${currentIndex}_${currentPage - 1}`)
+      .setLabel('Previous')
+      .setEmoji('◀️')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage === 0),
+    new ButtonBuilder()
+      .setCustomId(`color_page_${currentIndex}_${currentPage + 1}`)
+      .setLabel('Next')
+      .setEmoji('▶️')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage >= pageCount - 1),
+    new ButtonBuilder()
+      .setCustomId('color_remove')
+      .setLabel('Remove Color')
+      .setStyle(ButtonStyle.Danger)
+      .setDisabled(heldIds.length === 0)
+  );
+
+  return {
+    embeds: [embed],
+    components: [
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(categoryMenu),
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(colorMenu),
+      buttons
+    ]
+  };
+}
+
+//=============================================================================
+// INTERACTIONS
+//=============================================================================
+
+/**
+ * Handle the category and color select menus
+ */
+export async function handleColorSelect(interaction: StringSelectMenuInteraction): Promise<void> {
+  const member = await interaction.guild!.members.fetch(interaction.user.id);
+
+  if (interaction.customId === 'color_category') {
+    const categoryIndex = parseInt(interaction.values[0], 10) || 0;
+    await interaction.update(await buildColorPicker(member, categoryIndex, 0));
+    return;
+  }
+
+  const [categoryIndex, page] = interaction.customId.replace('color_select_', '').split('_').map(Number);
+  const roleId = interaction.values[0];
+  const success = await setMemberColor(member, roleId);
+
+  const notice = success
+    ? `✅ Your color is now <@&${roleId}>.`
+    : '❌ I couldn\'t give you that color. Please ask a server administrator to check my role permissions.';
+
+  await interaction.update(await buildColorPicker(member, categoryIndex, page, notice));
+}
+
+/**
+ * Handle the page and remove buttons
+ */
+export async function handleColorButton(interaction: ButtonInteraction): Promise<void> {
+  const member = await interaction.guild!.members.fetch(interaction.user.id);
+
+  if (interaction.customId === 'color_remove') {
+    const removed = await removeMemberColor(member);
+    const notice = removed > 0 ? '✅ Your color role has been removed.' : 'You don\'t have a color role.';
+
+    await interaction.update(await buildColorPicker(member, 0, 0, notice));
+    return;
+  }
+
+  const [categoryIndex, page] = interaction.customId.replace('color_page_', '').split('_').map(Number);
+  await interaction.update(await buildColorPicker(member, categoryIndex, page));
+}
@@ -7,83 +7,109 @@
 import { Client } from 'discord.js';
 import { logWithEmoji } from '../utils';
 import { BotSystem } from '../types';
+import { SystemStateModel } from '../database/models/system-state';
 
 // Import all system modules
-// Note: We'll create placeholder imports for now and update as we create the actual systems
-// import { verificationSystem } from './verification';
-// import { moderationSystem } from './moderation';
-// import { loggingSystem } from './logging';
-// import { welcomeSystem } from './welcome';
-// import { statusSystem } from './status';
-
-//=============================================================================
-// SYSTEM DEFINITIONS
-//=============================================================================
-
-// Placeholder system implementations
-// These will be replaced as we create the actual system files
-
-const verificationSystem: BotSystem = {
-  name: 'Verification',
-  enabled: true,
-  setup: async (client: Client) => {
-    logWithEmoji('info', 'Verification system setup (placeholder)', 'Verification');
-    // TODO: Replace with actual verification system setup
-  }
-};
-
-const moderationSystem: BotSystem = {
-  name: 'Moderation',
-  enabled: true,
-  setup: async (client: Client) => {
-    logWithEmoji('info', 'Moderation system setup (placeholder)', 'Moderation');
-    // TODO: Replace with actual moderation system setup
-  }
-};
-
-const loggingSystem: BotSystem = {
-  name: 'Logging',
-  enabled: true,
-  setup: async (client: Client) => {
-    logWithEmoji('info', 'Logging system setup (placeholder)', 'Logging');
-    // TODO: Replace with actual logging system setup
-  }
-};
-
-const welcomeSystem: BotSystem = {
-  name: 'Welcome',
-  enabled: true,
-  setup: async (client: Client) => {
-    logWithEmoji('info', 'Welcome system setup (placeholder)', 'Welcome');
-    // TODO: Replace with actual welcome system setup
-  }
-};
-
-const statusSystem: BotSystem = {
-  name: 'Status',
-  enabled: true,
-  setup: async (client: Client) => {
-    logWithEmoji('info', 'Status system setup (placeholder)', 'Status');
-    // TODO: Replace with actual status system setup
-  }
-};
+import { verificationSystem } from './verification';
+import { moderationSystem } from './moderation';
+import { schedulerSystem } from './scheduler';
+import { colorRoleSystem } from './color-roles';
+import { loggingSystem } from './logging';
+import { welcomeSystem } from './welcome';
+import { statusSystem } from './status';
+import { activitySystem } from './activity';
+import { backupSystem } from './backups';
 
 //=============================================================================
 // SYSTEM REGISTRY
 //=============================================================================
 
 /**
- * All bot systems in initialization order
- * Order matters! Systems that depend on others should come later
+ * All bot systems
+ * Setup order comes from each system's dependencies, so this order only breaks ties
  */
 const botSystems: BotSystem[] = [
-  loggingSystem,      // Set up logging first
+  loggingSystem,      // Message logging and audit trails
+  schedulerSystem,    // Persistent job scheduler for timed actions
   verificationSystem, // Age verification system
   moderationSystem,   // Warning and punishment system
+  colorRoleSystem,    // Self-assignable color roles
   welcomeSystem,      // Welcome messages for new members
+  activitySystem,     // Daily activity counts for server statistics
+  backupSystem,       // Scheduled database backups with rotation
   statusSystem        // Bot status and presence management
 ];
 
+// Systems whose setup has completed and not been cleaned up since
+const activeSystems = new Set<string>();
+
+// Discord listeners each system registered during setup, removed when it stops
+const systemListeners = new Map<string, { client: Client; event: string | symbol; listener: (...args: any[]) => void }[]>();
+
+/**
+ * Outcome of changing a system at runtime
+ */
+export interface SystemChangeResult {
+  success: boolean;
+  message: string;
+}
+
+//=============================================================================
+// DEPENDENCY RESOLUTION
+//=============================================================================
+
+/**
+ * Order systems so each comes after its dependencies
+ * Systems with no ordering between them keep their registry order
+ * @throws If a dependency is unknown or the dependencies form a cycle
+ */
+export function resolveSystemOrder(systems: BotSystem[]): BotSystem[] {
+  const byName = new Map(systems.map(system => [system.name, system]));
+  const ordered: BotSystem[] = [];
+  const visited = new Set<string>();
+  const visiting: string[] = [];
+  
+  const visit = (system: BotSystem): void => {
+    if (visited.has(system.name)) return;
+    
+    if (visiting.includes(system.name)) {
+      const cycle = [...visiting.slice(visiting.indexOf(system.name)), system.name];
+      throw new Error(`System dependency cycle: ${cycle.join(' -> ')}`);
+    }
+    
+    visiting.push(system.name);
+    
+    for (const dependencyName of system.dependencies || []) {
+      const dependency = byName.get(dependencyName);
+      if (!dependency) {
+        throw new Error(`System ${system.name} depends on unknown system ${dependencyName}`);
+      }
+      visit(dependency);
+    }
+    
+    visiting.pop();
+    visited.add(system.name);
+    ordered.push(system);
+  };
+  
+  systems.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Find why a system can't be set up yet, or null if its dependencies are ready
+ */
+function getBlockedDependency(system: BotSystem): string | null {
+  for (const dependencyName of system.dependencies || []) {
+    const dependency = getSystem(dependencyName);
+    
+    if (!dependency?.enabled) return `${dependencyName} is disabled`;
+    if (!activeSystems.has(dependencyName)) return `${dependencyName} is not running`;
+  }
+  
+  return null;
+}
+
 //=============================================================================
 // SYSTEM MANAGEMENT
 //=============================================================================
@@ -95,11 +121,16 @@ export async function setupSystems(client: Client): Promise<void> {
   try {
     logWithEmoji('info', 'Setting up bot systems...', 'Systems');
     
+    await applyPersistedState();
+    
+    const orderedSystems = resolveSystemOrder(botSystems);
+    logWithEmoji('info', `System setup order: ${orderedSystems.map(s => s.name).join(' -> ')}`, 'Systems');
+    
     let successCount = 0;
     let failureCount = 0;
     
     // Initialize each system
-    for (const system of botSystems) {
+    for (const system of orderedSystems) {
       try {
         if (!system.enabled) {
           logWithEmoji('info', `Skipping disabled system: ${system.name}`, 'Systems');
@@ -107,7 +138,7 @@ export async function setupSystems(client: Client): Promise<void> {
         }
         
         logWithEmoji('info', `Setting up ${system.name} system...`, 'Systems');
-        await system.setup(client);
+        await startSystem(client, system);
         logWithEmoji('success', `${system.name} system ready`, 'Systems');
         successCount++;
         
@@ -149,15 +180,15 @@ export async function cleanupSystems(): Promise<void> {
   try {
     logWithEmoji('info', 'Cleaning up bot systems...', 'Systems');
     
-    // Cleanup in reverse order
-    const reversedSystems = [...botSystems].reverse();
+    // Cleanup in reverse setup order, so dependents go before what they rely on
+    const reversedSystems = resolveSystemOrder(botSystems).reverse();
     
     for (const system of reversedSystems) {
       try {
-        if (!system.enabled || !system.cleanup) continue;
+        if (!activeSystems.has(system.name)) continue;
         
         logWithEmoji('info', `Cleaning up ${system.name} system...`, 'Systems');
-        await system.cleanup();
+        await stopSystem(system);
         logWithEmoji('success', `${system.name} system cleaned up`, 'Systems');
         
       } catch (error) {
@@ -204,69 +235,185 @@ export function getEnabledSystems(): BotSystem[] {
 }
 
 /**
- * Enable a system
+ * Start a system and, once it is running, persist it as enabled
+ * A system that fails to start stays disabled, so it isn't retried on every boot
+ * @param updatedBy User who made the change
  */
-export function enableSystem(name: string): boolean {
+export async function enableSystem(client: Client, name: string, updatedBy?: string): Promise<SystemChangeResult> {
   const system = getSystem(name);
-  if (system) {
-    system.enabled = true;
-    logWithEmoji('info', `System enabled: ${name}`, 'Systems');
-    return true;
+  if (!system) {
+    return { success: false, message: `System not found: ${name}` };
   }
-  return false;
+  
+  const alreadyRunning = activeSystems.has(system.name);
+  
+  if (!alreadyRunning) {
+    try {
+      await startSystem(client, system);
+    } catch (error) {
+      logWithEmoji('error', `Failed to start ${name} system: ${error}`, 'Systems');
+      return { success: false, message: `${system.name} failed to start and has been left disabled: ${error}` };
+    }
+  }
+  
+  system.enabled = true;
+  await SystemStateModel.setEnabled(system.name, true, updatedBy);
+  logWithEmoji('info', `System enabled: ${name}`, 'Systems');
+  
+  return alreadyRunning
+    ? { success: true, message: `${system.name} is already running.` }
+    : { success: true, message: `${system.name} has been enabled and started.` };
 }
 
 /**
- * Disable a system
+ * Disable a system, persist it and stop it receiving events
+ * Critical systems and systems others are running on can't be disabled
+ * @param updatedBy User who made the change
  */
-export function disableSystem(name: string): boolean {
+export async function disableSystem(name: string, updatedBy?: string): Promise<SystemChangeResult> {
   const system = getSystem(name);
-  if (system && !isSystemCritical(system)) {
-    system.enabled = false;
-    logWithEmoji('info', `System disabled: ${name}`, 'Systems');
-    return true;
+  if (!system) {
+    return { success: false, message: `System not found: ${name}` };
+  }
+  
+  if (isSystemCritical(system)) {
+    return { success: false, message: `${system.name} is critical and can't be disabled.` };
+  }
+  
+  const dependents = botSystems
+    .filter(other => other.enabled && other.dependencies?.includes(system.name))
+    .map(other => other.name);
+  
+  if (dependents.length > 0) {
+    return { success: false, message: `Disable ${dependents.join(', ')} first, as they depend on ${system.name}.` };
   }
-  return false;
+  
+  system.enabled = false;
+  await SystemStateModel.setEnabled(system.name, false, updatedBy);
+  
+  try {
+    await stopSystem(system);
+  } catch (error) {
+    logWithEmoji('error', `Failed to cleanup ${name} system: ${error}`, 'Systems');
+  }
+  
+  logWithEmoji('info', `System disabled: ${name}`, 'Systems');
+  return { success: true, message: `${system.name} has been disabled and no longer receives events.` };
 }
 
 /**
  * Get system status
  */
-export function getSystemStatus(): { name: string; enabled: boolean; critical: boolean }[] {
+export function getSystemStatus(): { 
+  name: string; 
+  enabled: boolean; 
+  critical: boolean; 
+  active: boolean; 
+  dependencies: string[];
+  listeners: number;
+}[] {
   return botSystems.map(system => ({
     name: system.name,
     enabled: system.enabled,
-    critical: isSystemCritical(system)
+    critical: isSystemCritical(system),
+    active: activeSystems.has(system.name),
+    dependencies: system.dependencies || [],
+    listeners: systemListeners.get(system.name)?.length || 0
   }));
 }
 
 /**
  * Restart a specific system
  */
-export async function restartSystem(client: Client, name: string): Promise<boolean> {
+export async function restartSystem(client: Client, name: string): Promise<SystemChangeResult> {
+  const system = getSystem(name);
+  if (!system) {
+    logWithEmoji('error', `System not found: ${name}`, 'Systems');
+    return { success: false, message: `System not found: ${name}` };
+  }
+  
+  if (!system.enabled) {
+    return { success: false, message: `${system.name} is disabled. Enable it instead.` };
+  }
+  
   try {
-    const system = getSystem(name);
-    if (!system) {
-      logWithEmoji('error', `System not found: ${name}`, 'Systems');
-      return false;
-    }
-    
     logWithEmoji('info', `Restarting system: ${name}`, 'Systems');
     
-    // Cleanup if possible
-    if (system.cleanup) {
-      await system.cleanup();
-    }
-    
-    // Setup again
-    await system.setup(client);
+    await stopSystem(system);
+    await startSystem(client, system);
     
     logWithEmoji('success', `System restarted: ${name}`, 'Systems');
-    return true;
+    return { success: true, message: `${system.name} has been restarted.` };
     
   } catch (error) {
     logWithEmoji('error', `Failed to restart system ${name}: ${error}`, 'Systems');
-    return false;
+    return { success: false, message: `${system.name} failed to restart: ${error}` };
+  }
+}
+
+//=============================================================================
+// SYSTEM LIFECYCLE
+//=============================================================================
+
+/**
+ * Apply enabled states persisted by /system over the registry defaults
+ */
+async function applyPersistedState(): Promise<void> {
+  for (const state of await SystemStateModel.getAll()) {
+    const system = getSystem(state.name);
+    if (!system || (isSystemCritical(system) && !state.enabled)) continue;
+    
+    system.enabled = !!state.enabled;
+  }
+}
+
+/**
+ * Set up a system, recording the Discord listeners it registers so it can be stopped later
+ * @throws If a dependency isn't running or setup fails
+ */
+async function startSystem(client: Client, system: BotSystem): Promise<void> {
+  const blocked = getBlockedDependency(system);
+  if (blocked) {
+    throw new Error(`dependency not available (${blocked})`);
+  }
+  
+  const before = new Map(client.eventNames().map(event => [event, client.rawListeners(event)]));
+  
+  const collectListeners = () => client.eventNames().flatMap(event => {
+    const existing = before.get(event) || [];
+    return client.rawListeners(event)
+      .filter(listener => !existing.includes(listener))
+      .map(listener => ({ client, event, listener: listener as (...args: any[]) => void }));
+  });
+  
+  try {
+    await system.setup(client);
+  } catch (error) {
+    // Don't leave a half set up system listening
+    for (const { event, listener } of collectListeners()) {
+      client.off(event as string, listener);
+    }
+    throw error;
+  }
+  
+  systemListeners.set(system.name, collectListeners());
+  activeSystems.add(system.name);
+}
+
+/**
+ * Clean up a running system and detach its Discord listeners
+ */
+async function stopSystem(system: BotSystem): Promise<void> {
+  if (!activeSystems.has(system.name)) return;
+  activeSystems.delete(system.name);
+  
+  for (const { client, event, listener } of systemListeners.get(system.name) || []) {
+    client.off(event as string, listener);
+  }
+  systemListeners.delete(system.name);
+  
+  if (system.cleanup) {
+    await system.cleanup();
   }
 }
 
@@ -276,29 +423,28 @@ export async function restartSystem(client: Client, name: string): Promise<boole
 
 /**
  * Check health of all systems
+ * An enabled system is unhealthy when it isn't running, e.g. its setup failed
  */
 export async function checkSystemHealth(): Promise<{ 
   healthy: boolean; 
-  systems: { name: string; status: 'healthy' | 'unhealthy' | 'unknown' }[] 
+  systems: { name: string; status: 'healthy' | 'unhealthy' | 'disabled'; listeners: number }[] 
 }> {
   const systemHealth = [];
   let overallHealthy = true;
   
   for (const system of botSystems) {
+    const listeners = systemListeners.get(system.name)?.length || 0;
+    
     if (!system.enabled) {
-      systemHealth.push({ name: system.name, status: 'unknown' as const });
+      systemHealth.push({ name: system.name, status: 'disabled' as const, listeners });
       continue;
     }
     
-    try {
-      // Basic health check - system is healthy if it's enabled and no recent errors
-      // In the future, systems could implement their own health check methods
-      systemHealth.push({ name: system.name, status: 'healthy' as const });
-    } catch (error) {
-      systemHealth.push({ name: system.name, status: 'unhealthy' as const });
-      if (isSystemCritical(system)) {
-        overallHealthy = false;
-      }
+    if (activeSystems.has(system.name)) {
+      systemHealth.push({ name: system.name, status: 'healthy' as const, listeners });
+    } else {
+      systemHealth.push({ name: system.name, status: 'unhealthy' as const, listeners });
+      overallHealthy = false;
     }
   }
   
@@ -316,6 +462,8 @@ export {
   botSystems,
   verificationSystem,
   moderationSystem,
+  schedulerSystem,
+  colorRoleSystem,
   loggingSystem,
   welcomeSystem,
   statusSystem
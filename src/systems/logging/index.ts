@@ -4,10 +4,10 @@
  * Manages message logging and audit trails
  */
 
-import { Client } from 'discord.js';
+import { Client, Events } from 'discord.js';
 import { BotSystem } from '../../types';
 import { logWithEmoji } from '../../utils';
-import { setupMessageLogger, registerMessageLoggerCommands } from './message-logger';
+import { setupMessageLogger, importLegacyLoggerConfig, invalidateLoggerConfig } from './message-logger';
 
 export const loggingSystem: BotSystem = {
   name: 'Logging',
@@ -19,11 +19,19 @@ export const loggingSystem: BotSystem = {
     // Set up message logger
     setupMessageLogger(client);
     
+    // The legacy config file is matched to a guild through its log channel
+    if (client.isReady()) {
+      await importLegacyLoggerConfig(client);
+    } else {
+      client.once(Events.ClientReady, () => importLegacyLoggerConfig(client));
+    }
+    
     logWithEmoji('success', 'Logging system initialized', 'Logging');
   },
   
   cleanup: async () => {
     logWithEmoji('info', 'Cleaning up logging system...', 'Logging');
+    invalidateLoggerConfig();
   }
 };
 
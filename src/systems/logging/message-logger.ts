@@ -32,9 +32,16 @@ import {
   GuildMember,
   User,
   PartialGuildMember,
-  MessageFlags
+  MessageFlags,
+  Guild
 } from 'discord.js';
 import fs from 'fs';
+import { logWithEmoji } from '../../utils';
+import {
+  GuildModel,
+  MessageLoggerConfigModel,
+  MessageLoggerConfig as MessageLoggerConfigRecord
+} from '../../database/models/legacy-models';
 
 //=============================================================================
 // CONFIGURATION INTERFACES
@@ -43,7 +50,7 @@ import fs from 'fs';
 /**
  * Configuration interface for the message logger system
  */
-interface MessageLoggerConfig {
+export interface MessageLoggerConfig {
   enabled: boolean;
   logChannelId?: string;
   ignoredChannels: string[];
@@ -72,54 +79,174 @@ const defaultConfig: MessageLoggerConfig = {
   maxMessageLength: 1000 // Maximum message length to log
 };
 
-// Current configuration
-let loggerConfig: MessageLoggerConfig = { ...defaultConfig };
+// File the configuration lived in before it moved to the database
+const LEGACY_CONFIG_FILE = 'message_logger_config.json';
 
-// File path for configuration
-const CONFIG_FILE = 'message_logger_config.json';
+// Configurations read from the database, so message events don't query it every time
+const configCache = new Map<string, MessageLoggerConfig>();
+let dmConfigCache: MessageLoggerConfig[] | null = null;
 
 //=============================================================================
 // CONFIGURATION MANAGEMENT
 //=============================================================================
 
 /**
- * Load the message logger configuration from disk
- * @returns The current logger configuration
+ * Get a guild's logger configuration, or the defaults if it has none
+ * Returns a copy, so callers can change it before saving
+ * @param guildId Guild to get the configuration for
  */
-export function loadMessageLoggerConfig(): MessageLoggerConfig {
-  try {
-    if (fs.existsSync(CONFIG_FILE)) {
-      const configData = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
-      loggerConfig = { ...defaultConfig, ...configData };
-      console.log(`Message logger configuration loaded: ${loggerConfig.enabled ? 'Enabled' : 'Disabled'}`);
-      console.log(`Loaded logger config. Channel ID: ${loggerConfig.logChannelId}, Enabled: ${loggerConfig.enabled}`);
-      
-      if (loggerConfig.enabled && !loggerConfig.logChannelId) {
-        console.warn('Message logger is enabled but no log channel is configured');
-      }
-    } else {
-      // Create default config file if it doesn't exist
-      saveMessageLoggerConfig(loggerConfig);
-    }
-  } catch (error) {
-    console.error("Error loading message logger config:", error);
+export async function getLoggerConfig(guildId: string): Promise<MessageLoggerConfig> {
+  let config = configCache.get(guildId);
+  
+  if (!config) {
+    const record = await MessageLoggerConfigModel.getByGuildId(guildId);
+    config = record ? fromRecord(record) : defaultConfig;
+    configCache.set(guildId, config);
   }
   
-  return loggerConfig;
+  return copyConfig(config);
 }
 
 /**
- * Save the message logger configuration to disk
+ * Save a guild's logger configuration
+ * @param guild Guild the configuration belongs to
  * @param config Configuration to save
  */
-export function saveMessageLoggerConfig(config: MessageLoggerConfig): void {
+export async function saveLoggerConfig(guild: Guild, config: MessageLoggerConfig): Promise<void> {
+  // message_logger_config rows need their guild row
+  await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+
+  await MessageLoggerConfigModel.upsert({
+    guild_id: guild.id,
+    enabled: config.enabled,
+    log_channel_id: config.logChannelId,
+    ignored_channels: JSON.stringify(config.ignoredChannels),
+    ignored_users: JSON.stringify(config.ignoredUsers),
+    log_message_content: config.logMessageContent,
+    log_dms: config.logDMs,
+    log_edits: config.logEdits,
+    log_deletes: config.logDeletes,
+    log_joins: config.logJoins,
+    log_leaves: config.logLeaves,
+    max_message_length: config.maxMessageLength
+  });
+  
+  invalidateLoggerConfig(guild.id);
+}
+
+/**
+ * Drop cached configuration so the next event reads it from the database
+ * @param guildId Guild to drop, or every guild if omitted
+ */
+export function invalidateLoggerConfig(guildId?: string): void {
+  if (guildId) {
+    configCache.delete(guildId);
+  } else {
+    configCache.clear();
+  }
+  
+  // Any guild can change whether it logs DMs
+  dmConfigCache = null;
+}
+
+/**
+ * Get the configurations that apply to an event
+ * DMs belong to no guild, so they go to every guild that has DM logging on
+ * @param guildId Guild the event happened in, or null for a DM
+ */
+async function getConfigsForEvent(guildId: string | null): Promise<MessageLoggerConfig[]> {
+  if (guildId) {
+    return [await getLoggerConfig(guildId)];
+  }
+
+  if (!dmConfigCache) {
+    dmConfigCache = (await MessageLoggerConfigModel.getDmLoggers()).map(fromRecord);
+  }
+
+  return dmConfigCache.map(copyConfig);
+}
+
+/**
+ * Copy a configuration, including its ID lists
+ */
+function copyConfig(config: MessageLoggerConfig): MessageLoggerConfig {
+  return {
+    ...config,
+    ignoredChannels: [...config.ignoredChannels],
+    ignoredUsers: [...config.ignoredUsers]
+  };
+}
+
+/**
+ * Convert a database row to the logger's configuration shape
+ */
+function fromRecord(record: MessageLoggerConfigRecord): MessageLoggerConfig {
+  return {
+    enabled: !!record.enabled,
+    logChannelId: record.log_channel_id || undefined,
+    ignoredChannels: parseIdList(record.ignored_channels),
+    ignoredUsers: parseIdList(record.ignored_users),
+    logMessageContent: !!record.log_message_content,
+    logDMs: !!record.log_dms,
+    logEdits: !!record.log_edits,
+    logDeletes: !!record.log_deletes,
+    logJoins: !!record.log_joins,
+    logLeaves: !!record.log_leaves,
+    maxMessageLength: record.max_message_length || defaultConfig.maxMessageLength
+  };
+}
+
+/**
+ * Parse a JSON array of IDs, treating anything malformed as empty
+ */
+function parseIdList(value: string): string[] {
   try {
-    fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
-    loggerConfig = config;
-    console.log(`Message logger configuration saved: ${config.enabled ? 'Enabled' : 'Disabled'}`);
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+//=============================================================================
+// LEGACY IMPORT
+//=============================================================================
+
+/**
+ * Move the configuration from message_logger_config.json into the database, once
+ * The file had no guild ID, so it goes to the guild that owns its log channel
+ * @param client Discord.js client, ready so its channel cache is filled
+ */
+export async function importLegacyLoggerConfig(client: Client): Promise<void> {
+  if (!fs.existsSync(LEGACY_CONFIG_FILE)) return;
+
+  try {
+    const legacy: MessageLoggerConfig = {
+      ...defaultConfig,
+      ...JSON.parse(fs.readFileSync(LEGACY_CONFIG_FILE, 'utf8'))
+    };
+
+    const channel = legacy.logChannelId ? client.channels.cache.get(legacy.logChannelId) : undefined;
+    if (!channel || !('guild' in channel)) {
+      logWithEmoji('warn',
+        `Could not find the log channel from ${LEGACY_CONFIG_FILE}, leaving it in place`,
+        'Logging'
+      );
+      return;
+    }
+
+    // A guild configured through /logger since keeps its own settings
+    if (await MessageLoggerConfigModel.getByGuildId(channel.guild.id)) {
+      logWithEmoji('info', `${channel.guild.name} already has a logger config, skipping ${LEGACY_CONFIG_FILE}`, 'Logging');
+    } else {
+      await saveLoggerConfig(channel.guild, legacy);
+      logWithEmoji('success', `Imported ${LEGACY_CONFIG_FILE} for ${channel.guild.name}`, 'Logging');
+    }
+
+    // Keep the file for reference, but never import it again
+    fs.renameSync(LEGACY_CONFIG_FILE, `${LEGACY_CONFIG_FILE}.imported`);
   } catch (error) {
-    console.error("Error saving message logger config:", error);
-    throw error;
+    logWithEmoji('error', `Error importing ${LEGACY_CONFIG_FILE}: ${error}`, 'Logging');
   }
 }
 
@@ -128,11 +255,10 @@ export function saveMessageLoggerConfig(config: MessageLoggerConfig): void {
 //=============================================================================
 
 /**
- * Register message logger commands
- * @param commandsArray Array to add the commands to
+ * Build the /logger command
  */
-export function registerMessageLoggerCommands(commandsArray: any[]): void {
-  const loggerCommand = new SlashCommandBuilder()
+export function buildLoggerCommand(): SlashCommandBuilder {
+  return new SlashCommandBuilder()
     .setName('logger')
     .setDescription('Configure message logging')
     .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
@@ -221,10 +347,15 @@ export function registerMessageLoggerCommands(commandsArray: any[]): void {
             .setDescription('The ID of the channel or user to unignore')
             .setRequired(true)
         )
-    )
-    .toJSON();
+    ) as SlashCommandBuilder;
+}
 
-  commandsArray.push(loggerCommand);
+/**
+ * Register message logger commands
+ * @param commandsArray Array to add the commands to
+ */
+export function registerMessageLoggerCommands(commandsArray: any[]): void {
+  commandsArray.push(buildLoggerCommand().toJSON());
 }
 
 //=============================================================================
@@ -233,153 +364,56 @@ export function registerMessageLoggerCommands(commandsArray: any[]): void {
 
 /**
  * Set up the message logger system
+ * Each event is checked against the configuration of the guild it happened in
  * @param client Discord.js client
  */
 export function setupMessageLogger(client: Client): void {
-  // Load the configuration
-  loadMessageLoggerConfig();
-  
-  console.log("Setting up message logger with events:");
-  console.log("Edit events enabled:", loggerConfig.logEdits);
-  console.log("Delete events enabled:", loggerConfig.logDeletes);
-  console.log("Join events enabled:", loggerConfig.logJoins);
-  console.log("Leave events enabled:", loggerConfig.logLeaves);
-  console.log("Log channel ID:", loggerConfig.logChannelId);
-
   // Set up event listeners for message updates (edits)
   client.on(Events.MessageUpdate, async (oldMessage: Message | PartialMessage, newMessage: Message | PartialMessage) => {
-    console.log("Message update event triggered");
-    console.log(`Message ID: ${newMessage.id}, Channel: ${newMessage.channelId}`);
-    
-    if (!loggerConfig.enabled || !loggerConfig.logChannelId || !loggerConfig.logEdits) {
-      console.log("Message update event ignored - logger not enabled or configured");
-      return;
-    }
-    
-    if (newMessage.author?.bot) {
-      console.log("Message update event ignored - message from bot");
-      return;
-    }
-    
-    // Don't log edits in the log channel itself
-    if (newMessage.channelId === loggerConfig.logChannelId) {
-      console.log("Message update event ignored - edit in log channel");
-      return;
-    }
-    
-    // Debug channel types
-    console.log("Message channel type:", newMessage.channel?.type);
-    
-    // Check if this is a DM - using type casting to avoid TypeScript errors
-    const isDM = (newMessage.channel?.type as number) === 1;
-    console.log("Is DM channel:", isDM);
-    
-    if (isDM && !loggerConfig.logDMs) {
-      console.log("Message update event ignored - DM logging disabled");
-      return;
-    }
-    
-    // Check ignored channels and users
-    if (!isDM && loggerConfig.ignoredChannels.includes(newMessage.channelId)) {
-      console.log("Message update event ignored - channel is ignored");
-      return;
-    }
+    if (newMessage.author?.bot) return;
     
-    if (newMessage.author && loggerConfig.ignoredUsers.includes(newMessage.author.id)) {
-      console.log("Message update event ignored - user is ignored");
+    // Only log if the content has changed and isn't empty
+    if (oldMessage.content === newMessage.content || 
+        oldMessage.content === null || 
+        newMessage.content === null) {
       return;
     }
     
-    try {
-      // Only log if the content has changed and isn't empty
-      if (oldMessage.content !== newMessage.content && 
-          oldMessage.content !== null && 
-          newMessage.content !== null) {
-        await logMessageEdit(client, oldMessage, newMessage);
-      } else {
-        console.log("Message update event ignored - content didn't change or is empty");
+    for (const config of await getConfigsForEvent(newMessage.guildId)) {
+      if (!shouldLogMessage(config, config.logEdits, newMessage.channelId, newMessage.author?.id, !newMessage.guildId)) {
+        continue;
+      }
+      
+      try {
+        await logMessageEdit(client, config, oldMessage, newMessage);
+      } catch (error) {
+        console.error("Error logging message edit:", error);
       }
-    } catch (error) {
-      console.error("Error logging message edit:", error);
     }
   });
 
   // Set up event listeners for message deletions
   client.on(Events.MessageDelete, async (message: Message | PartialMessage) => {
-    console.log("Message delete event triggered");
-    console.log(`Message ID: ${message.id}, Channel: ${message.channelId}`);
-    
-    if (!loggerConfig.enabled || !loggerConfig.logChannelId || !loggerConfig.logDeletes) {
-      console.log("Message delete event ignored - logger not enabled or configured");
-      return;
-    }
-    
-    if (message.author?.bot) {
-      console.log("Message delete event ignored - message from bot");
-      return;
-    }
-    
-    // Don't log deletions in the log channel itself
-    if (message.channelId === loggerConfig.logChannelId) {
-      console.log("Message delete event ignored - deletion in log channel");
-      return;
-    }
+    if (message.author?.bot) return;
     
-    // Check if this is a DM - using type casting to avoid TypeScript errors
-    const isDM = (message.channel?.type as number) === 1;
-    console.log("Is DM channel:", isDM);
-    
-    if (isDM && !loggerConfig.logDMs) {
-      console.log("Message delete event ignored - DM logging disabled");
-      return;
-    }
-    
-    // Check ignored channels and users
-    if (!isDM && loggerConfig.ignoredChannels.includes(message.channelId)) {
-      console.log("Message delete event ignored - channel is ignored");
-      return;
-    }
-    
-    if (message.author && loggerConfig.ignoredUsers.includes(message.author.id)) {
-      console.log("Message delete event ignored - user is ignored");
-      return;
-    }
-    
-    try {
-      await logMessageDeletion(client, message);
-    } catch (error) {
-      console.error("Error logging message deletion:", error);
+    for (const config of await getConfigsForEvent(message.guildId)) {
+      if (!shouldLogMessage(config, config.logDeletes, message.channelId, message.author?.id, !message.guildId)) {
+        continue;
+      }
+      
+      try {
+        await logMessageDeletion(client, config, message);
+      } catch (error) {
+        console.error("Error logging message deletion:", error);
+      }
     }
   });
 
   // Set up event listeners for bulk message deletions
   client.on(Events.MessageBulkDelete, async (messages, channel) => {
-    console.log("Bulk message delete event triggered");
-    console.log(`Messages: ${messages.size}, Channel: ${channel.id}`);
-    
-    if (!loggerConfig.enabled || !loggerConfig.logChannelId || !loggerConfig.logDeletes) {
-      console.log("Bulk message delete event ignored - logger not enabled or configured");
-      return;
-    }
-    
-    // Don't log deletions in the log channel itself
-    if (channel.id === loggerConfig.logChannelId) {
-      console.log("Bulk message delete event ignored - deletion in log channel");
-      return;
-    }
-    
-    // Check if this is a DM channel - using type casting to avoid TypeScript errors
-    const isDM = (channel.type as number) === 1;
-    console.log("Is DM channel:", isDM);
-    
-    if (isDM && !loggerConfig.logDMs) {
-      console.log("Bulk message delete event ignored - DM logging disabled");
-      return;
-    }
+    const config = await getLoggerConfig(channel.guildId);
     
-    // Check ignored channels
-    if (!isDM && loggerConfig.ignoredChannels.includes(channel.id)) {
-      console.log("Bulk message delete event ignored - channel is ignored");
+    if (!shouldLogMessage(config, config.logDeletes, channel.id, undefined, false)) {
       return;
     }
     
@@ -392,7 +426,7 @@ export function setupMessageLogger(client: Client): void {
         messageCollection.set(id, message);
       });
       
-      await logBulkDeletion(client, messageCollection, channel);
+      await logBulkDeletion(client, config, messageCollection, channel);
     } catch (error) {
       console.error("Error logging bulk deletion:", error);
     }
@@ -400,28 +434,18 @@ export function setupMessageLogger(client: Client): void {
 
   // Set up event listeners for member joins
   client.on(Events.GuildMemberAdd, async (member: GuildMember) => {
-    console.log("Member join event triggered");
-    console.log(`Member: ${member.user.tag}, Guild: ${member.guild.name}`);
+    // Check if the member is a bot
+    if (member.user.bot) return;
     
-    if (!loggerConfig.enabled || !loggerConfig.logChannelId || !loggerConfig.logJoins) {
-      console.log("Member join event ignored - logger not enabled or configured");
-      return;
-    }
+    const config = await getLoggerConfig(member.guild.id);
     
-    // Check if the member is a bot
-    if (member.user.bot) {
-      console.log("Member join event ignored - member is a bot");
-      return;
-    }
+    if (!config.enabled || !config.logChannelId || !config.logJoins) return;
     
     // Check ignored users
-    if (loggerConfig.ignoredUsers.includes(member.id)) {
-      console.log("Member join event ignored - user is ignored");
-      return;
-    }
+    if (config.ignoredUsers.includes(member.id)) return;
     
     try {
-      await logMemberJoin(client, member);
+      await logMemberJoin(client, config, member);
     } catch (error) {
       console.error("Error logging member join:", error);
     }
@@ -429,60 +453,72 @@ export function setupMessageLogger(client: Client): void {
 
   // Set up event listeners for member leaves
   client.on(Events.GuildMemberRemove, async (member: GuildMember | PartialGuildMember) => {
-    console.log("Member leave event triggered");
-    console.log(`Member: ${member.user.tag}, Guild: ${member.guild.name}`);
+    // Check if the member is a bot
+    if (member.user.bot) return;
     
-    if (!loggerConfig.enabled || !loggerConfig.logChannelId || !loggerConfig.logLeaves) {
-      console.log("Member leave event ignored - logger not enabled or configured");
-      return;
-    }
+    const config = await getLoggerConfig(member.guild.id);
     
-    // Check if the member is a bot
-    if (member.user.bot) {
-      console.log("Member leave event ignored - member is a bot");
-      return;
-    }
+    if (!config.enabled || !config.logChannelId || !config.logLeaves) return;
     
     // Check ignored users
-    if (loggerConfig.ignoredUsers.includes(member.id)) {
-      console.log("Member leave event ignored - user is ignored");
-      return;
-    }
+    if (config.ignoredUsers.includes(member.id)) return;
     
     try {
-      await logMemberLeave(client, member);
+      await logMemberLeave(client, config, member);
     } catch (error) {
       console.error("Error logging member leave:", error);
     }
   });
   
-  // Check intents
-  const intents = client.options.intents;
-  console.log("Bot Intents Check:");
-  console.log(`- GuildMembers: ${intents.has(1 << 1)}`);
-  console.log(`- GuildMessages: ${intents.has(1 << 9)}`);
-  console.log(`- GuildMessageReactions: ${intents.has(1 << 10)}`);
-  console.log(`- GuildMessageTyping: ${intents.has(1 << 11)}`);
-  console.log(`- DirectMessages: ${intents.has(1 << 12)}`);
-  console.log(`- MessageContent: ${intents.has(1 << 15)}`);
-  
   console.log("Message logger set up successfully");
 }
 
 /**
- * Test the logger channel is properly configured
+ * Check a message event against a guild's configuration
+ * @param config Configuration of the guild being logged to
+ * @param featureEnabled Whether this kind of event is logged
+ * @param channelId Channel the message was in
+ * @param authorId Author of the message, if known
+ * @param isDM Whether the message was a direct message
+ */
+function shouldLogMessage(
+  config: MessageLoggerConfig,
+  featureEnabled: boolean,
+  channelId: string,
+  authorId: string | undefined,
+  isDM: boolean
+): boolean {
+  if (!config.enabled || !config.logChannelId || !featureEnabled) return false;
+  
+  // Don't log events in the log channel itself
+  if (channelId === config.logChannelId) return false;
+  
+  if (isDM && !config.logDMs) return false;
+  
+  // Check ignored channels and users
+  if (!isDM && config.ignoredChannels.includes(channelId)) return false;
+  if (authorId && config.ignoredUsers.includes(authorId)) return false;
+  
+  return true;
+}
+
+/**
+ * Test a guild's logger channel is properly configured
  * @param client Discord.js client
+ * @param guildId Guild whose log channel to test
  */
-export async function testLoggerChannel(client: Client): Promise<void> {
-  if (!loggerConfig.logChannelId) {
+export async function testLoggerChannel(client: Client, guildId: string): Promise<void> {
+  const config = await getLoggerConfig(guildId);
+  
+  if (!config.logChannelId) {
     console.log("No log channel ID configured - skipping test");
     return;
   }
 
   try {
-    console.log(`Testing logger channel with ID: ${loggerConfig.logChannelId}`);
+    console.log(`Testing logger channel with ID: ${config.logChannelId}`);
     
-    const channel = await client.channels.fetch(loggerConfig.logChannelId);
+    const channel = await client.channels.fetch(config.logChannelId);
     console.log("Log channel fetch result:", channel ? "Found" : "Not found");
     
     if (!channel) {
@@ -523,6 +559,14 @@ export async function testLoggerChannel(client: Client): Promise<void> {
 export async function handleLoggerCommand(interaction: CommandInteraction): Promise<void> {
   if (!interaction.isChatInputCommand()) return;
   
+  if (!interaction.inCachedGuild()) {
+    await interaction.reply({
+      content: 'This command can only be used in a server!',
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+  
   const subcommand = interaction.options.getSubcommand();
   
   switch (subcommand) {
@@ -557,6 +601,8 @@ export async function handleLoggerCommand(interaction: CommandInteraction): Prom
 async function handleSetChannelCommand(interaction: CommandInteraction): Promise<void> {
   if (!interaction.isChatInputCommand()) return;
   
+  const config = await getLoggerConfig(interaction.guildId!);
+  
   const selectedChannel = interaction.options.getChannel('channel');
   
   if (!selectedChannel) {
@@ -604,8 +650,8 @@ async function handleSetChannelCommand(interaction: CommandInteraction): Promise
     console.log("Test message sent successfully");
     
     // If the message was sent successfully, save the config
-    loggerConfig.logChannelId = selectedChannel.id;
-    saveMessageLoggerConfig(loggerConfig);
+    config.logChannelId = selectedChannel.id;
+    await saveLoggerConfig(interaction.guild!, config);
     
     // Delete the test message after a few seconds
     setTimeout(() => {
@@ -630,7 +676,9 @@ async function handleSetChannelCommand(interaction: CommandInteraction): Promise
  * @param interaction Command interaction
  */
 async function handleEnableCommand(interaction: CommandInteraction): Promise<void> {
-  if (!loggerConfig.logChannelId) {
+  const config = await getLoggerConfig(interaction.guildId!);
+  
+  if (!config.logChannelId) {
     await interaction.reply({
       content: 'No log channel has been set. Please use `/logger setchannel` first.',
       flags: MessageFlags.Ephemeral
@@ -638,11 +686,11 @@ async function handleEnableCommand(interaction: CommandInteraction): Promise<voi
     return;
   }
   
-  loggerConfig.enabled = true;
-  saveMessageLoggerConfig(loggerConfig);
+  config.enabled = true;
+  await saveLoggerConfig(interaction.guild!, config);
   
   await interaction.reply({
-    content: `Message logging has been enabled. Logs will be sent to <#${loggerConfig.logChannelId}>.`,
+    content: `Message logging has been enabled. Logs will be sent to <#${config.logChannelId}>.`,
     flags: MessageFlags.Ephemeral
   });
 }
@@ -652,8 +700,10 @@ async function handleEnableCommand(interaction: CommandInteraction): Promise<voi
  * @param interaction Command interaction
  */
 async function handleDisableCommand(interaction: CommandInteraction): Promise<void> {
-  loggerConfig.enabled = false;
-  saveMessageLoggerConfig(loggerConfig);
+  const config = await getLoggerConfig(interaction.guildId!);
+  
+  config.enabled = false;
+  await saveLoggerConfig(interaction.guild!, config);
   
   await interaction.reply({
     content: 'Message logging has been disabled.',
@@ -668,6 +718,8 @@ async function handleDisableCommand(interaction: CommandInteraction): Promise<vo
 async function handleToggleCommand(interaction: CommandInteraction): Promise<void> {
   if (!interaction.isChatInputCommand()) return;
   
+  const config = await getLoggerConfig(interaction.guildId!);
+  
   const feature = interaction.options.getString('feature', true);
   
   let toggledValue = false;
@@ -675,33 +727,33 @@ async function handleToggleCommand(interaction: CommandInteraction): Promise<voi
   
   switch (feature) {
     case 'edits':
-      loggerConfig.logEdits = !loggerConfig.logEdits;
-      toggledValue = loggerConfig.logEdits;
+      config.logEdits = !config.logEdits;
+      toggledValue = config.logEdits;
       featureName = "Message edits logging";
       break;
     case 'deletes':
-      loggerConfig.logDeletes = !loggerConfig.logDeletes;
-      toggledValue = loggerConfig.logDeletes;
+      config.logDeletes = !config.logDeletes;
+      toggledValue = config.logDeletes;
       featureName = "Message deletions logging";
       break;
     case 'joins':
-      loggerConfig.logJoins = !loggerConfig.logJoins;
-      toggledValue = loggerConfig.logJoins;
+      config.logJoins = !config.logJoins;
+      toggledValue = config.logJoins;
       featureName = "Member joins logging";
       break;
     case 'leaves':
-      loggerConfig.logLeaves = !loggerConfig.logLeaves;
-      toggledValue = loggerConfig.logLeaves;
+      config.logLeaves = !config.logLeaves;
+      toggledValue = config.logLeaves;
       featureName = "Member leaves logging";
       break;
     case 'dms':
-      loggerConfig.logDMs = !loggerConfig.logDMs;
-      toggledValue = loggerConfig.logDMs;
+      config.logDMs = !config.logDMs;
+      toggledValue = config.logDMs;
       featureName = "DM logging";
       break;
   }
   
-  saveMessageLoggerConfig(loggerConfig);
+  await saveLoggerConfig(interaction.guild!, config);
   
   await interaction.reply({
     content: `${featureName} has been ${toggledValue ? 'enabled' : 'disabled'}.`,
@@ -714,30 +766,32 @@ async function handleToggleCommand(interaction: CommandInteraction): Promise<voi
  * @param interaction Command interaction
  */
 async function handleStatusCommand(interaction: CommandInteraction): Promise<void> {
-  let statusMessage = `Message logging is currently ${loggerConfig.enabled ? 'enabled' : 'disabled'}.\n`;
+  const config = await getLoggerConfig(interaction.guildId!);
+  
+  let statusMessage = `Message logging is currently ${config.enabled ? 'enabled' : 'disabled'}.\n`;
   
-  if (loggerConfig.logChannelId) {
-    statusMessage += `Log channel: <#${loggerConfig.logChannelId}>\n`;
+  if (config.logChannelId) {
+    statusMessage += `Log channel: <#${config.logChannelId}>\n`;
   } else {
     statusMessage += 'No log channel has been set.\n';
   }
   
-  statusMessage += `Message edits logging: ${loggerConfig.logEdits ? 'Enabled' : 'Disabled'}\n`;
-  statusMessage += `Message deletions logging: ${loggerConfig.logDeletes ? 'Enabled' : 'Disabled'}\n`;
-  statusMessage += `Member joins logging: ${loggerConfig.logJoins ? 'Enabled' : 'Disabled'}\n`;
-  statusMessage += `Member leaves logging: ${loggerConfig.logLeaves ? 'Enabled' : 'Disabled'}\n`;
-  statusMessage += `DM logging: ${loggerConfig.logDMs ? 'Enabled' : 'Disabled'}\n`;
+  statusMessage += `Message edits logging: ${config.logEdits ? 'Enabled' : 'Disabled'}\n`;
+  statusMessage += `Message deletions logging: ${config.logDeletes ? 'Enabled' : 'Disabled'}\n`;
+  statusMessage += `Member joins logging: ${config.logJoins ? 'Enabled' : 'Disabled'}\n`;
+  statusMessage += `Member leaves logging: ${config.logLeaves ? 'Enabled' : 'Disabled'}\n`;
+  statusMessage += `DM logging: ${config.logDMs ? 'Enabled' : 'Disabled'}\n`;
   
-  if (loggerConfig.ignoredChannels.length > 0) {
+  if (config.ignoredChannels.length > 0) {
     statusMessage += '\nIgnored Channels:\n';
-    loggerConfig.ignoredChannels.forEach(channelId => {
+    config.ignoredChannels.forEach(channelId => {
       statusMessage += `- <#${channelId}>\n`;
     });
   }
   
-  if (loggerConfig.ignoredUsers.length > 0) {
+  if (config.ignoredUsers.length > 0) {
     statusMessage += '\nIgnored Users:\n';
-    loggerConfig.ignoredUsers.forEach(userId => {
+    config.ignoredUsers.forEach(userId => {
       statusMessage += `- <@${userId}>\n`;
     });
   }
@@ -755,6 +809,8 @@ async function handleStatusCommand(interaction: CommandInteraction): Promise<voi
 async function handleIgnoreCommand(interaction: CommandInteraction): Promise<void> {
   if (!interaction.isChatInputCommand()) return;
   
+  const config = await getLoggerConfig(interaction.guildId!);
+  
   const type = interaction.options.getString('type', true);
   const id = interaction.options.getString('id', true);
   
@@ -787,9 +843,9 @@ async function handleIgnoreCommand(interaction: CommandInteraction): Promise<voi
       }
       
       // Add to ignored channels if not already there
-      if (!loggerConfig.ignoredChannels.includes(id)) {
-        loggerConfig.ignoredChannels.push(id);
-        saveMessageLoggerConfig(loggerConfig);
+      if (!config.ignoredChannels.includes(id)) {
+        config.ignoredChannels.push(id);
+        await saveLoggerConfig(interaction.guild!, config);
         
         await interaction.reply({
           content: `Channel <#${id}> has been added to the ignore list.`,
@@ -821,9 +877,9 @@ async function handleIgnoreCommand(interaction: CommandInteraction): Promise<voi
       }
       
       // Add to ignored users if not already there
-      if (!loggerConfig.ignoredUsers.includes(id)) {
-        loggerConfig.ignoredUsers.push(id);
-        saveMessageLoggerConfig(loggerConfig);
+      if (!config.ignoredUsers.includes(id)) {
+        config.ignoredUsers.push(id);
+        await saveLoggerConfig(interaction.guild!, config);
         
         await interaction.reply({
           content: `User <@${id}> has been added to the ignore list.`,
@@ -852,6 +908,8 @@ async function handleIgnoreCommand(interaction: CommandInteraction): Promise<voi
 async function handleUnignoreCommand(interaction: CommandInteraction): Promise<void> {
   if (!interaction.isChatInputCommand()) return;
   
+  const config = await getLoggerConfig(interaction.guildId!);
+  
   const type = interaction.options.getString('type', true);
   const id = interaction.options.getString('id', true);
   
@@ -866,10 +924,10 @@ async function handleUnignoreCommand(interaction: CommandInteraction): Promise<v
   try {
     if (type === 'channel') {
       // Remove from ignored channels
-      const index = loggerConfig.ignoredChannels.indexOf(id);
+      const index = config.ignoredChannels.indexOf(id);
       if (index !== -1) {
-        loggerConfig.ignoredChannels.splice(index, 1);
-        saveMessageLoggerConfig(loggerConfig);
+        config.ignoredChannels.splice(index, 1);
+        await saveLoggerConfig(interaction.guild!, config);
         
         await interaction.reply({
           content: `Channel <#${id}> has been removed from the ignore list.`,
@@ -883,10 +941,10 @@ async function handleUnignoreCommand(interaction: CommandInteraction): Promise<v
       }
     } else if (type === 'user') {
       // Remove from ignored users
-      const index = loggerConfig.ignoredUsers.indexOf(id);
+      const index = config.ignoredUsers.indexOf(id);
       if (index !== -1) {
-        loggerConfig.ignoredUsers.splice(index, 1);
-        saveMessageLoggerConfig(loggerConfig);
+        config.ignoredUsers.splice(index, 1);
+        await saveLoggerConfig(interaction.guild!, config);
         
         await interaction.reply({
           content: `User <@${id}> has been removed from the ignore list.`,
@@ -915,24 +973,26 @@ async function handleUnignoreCommand(interaction: CommandInteraction): Promise<v
 /**
  * Log a message edit
  * @param client Discord.js client
+ * @param config Configuration of the guild being logged to
  * @param oldMessage Original message
  * @param newMessage Edited message
  */
 async function logMessageEdit(
   client: Client, 
+  config: MessageLoggerConfig, 
   oldMessage: Message | PartialMessage, 
   newMessage: Message | PartialMessage
 ): Promise<void> {
   console.log("Attempting to log message edit");
   
-  if (!loggerConfig.logChannelId) {
+  if (!config.logChannelId) {
     console.log("No log channel configured");
     return;
   }
   
   try {
-    console.log("Fetching log channel:", loggerConfig.logChannelId);
-    const logChannel = await client.channels.fetch(loggerConfig.logChannelId);
+    console.log("Fetching log channel:", config.logChannelId);
+    const logChannel = await client.channels.fetch(config.logChannelId);
     console.log("Log channel fetch result:", logChannel ? "Found" : "Not found");
     
     if (!logChannel) {
@@ -970,17 +1030,17 @@ async function logMessageEdit(
       .setTimestamp();
     
     // Add message content if enabled
-    if (loggerConfig.logMessageContent) {
+    if (config.logMessageContent) {
       // Before content
       let beforeContent = oldMessage.content || '';
-      if (beforeContent.length > loggerConfig.maxMessageLength) {
-        beforeContent = beforeContent.substring(0, loggerConfig.maxMessageLength) + '...';
+      if (beforeContent.length > config.maxMessageLength) {
+        beforeContent = beforeContent.substring(0, config.maxMessageLength) + '...';
       }
       
       // After content
       let afterContent = newMessage.content || '';
-      if (afterContent.length > loggerConfig.maxMessageLength) {
-        afterContent = afterContent.substring(0, loggerConfig.maxMessageLength) + '...';
+      if (afterContent.length > config.maxMessageLength) {
+        afterContent = afterContent.substring(0, config.maxMessageLength) + '...';
       }
       
       embed.addFields(
@@ -1013,19 +1073,20 @@ async function logMessageEdit(
 /**
  * Log a message deletion
  * @param client Discord.js client
+ * @param config Configuration of the guild being logged to
  * @param message Deleted message
  */
-async function logMessageDeletion(client: Client, message: Message | PartialMessage): Promise<void> {
+async function logMessageDeletion(client: Client, config: MessageLoggerConfig, message: Message | PartialMessage): Promise<void> {
   console.log("Attempting to log message deletion");
   
-  if (!loggerConfig.logChannelId) {
+  if (!config.logChannelId) {
     console.log("No log channel configured");
     return;
   }
   
   try {
-    console.log("Fetching log channel:", loggerConfig.logChannelId);
-    const logChannel = await client.channels.fetch(loggerConfig.logChannelId);
+    console.log("Fetching log channel:", config.logChannelId);
+    const logChannel = await client.channels.fetch(config.logChannelId);
     console.log("Log channel fetch result:", logChannel ? "Found" : "Not found");
     
     if (!logChannel) {
@@ -1065,12 +1126,12 @@ async function logMessageDeletion(client: Client, message: Message | PartialMess
       .setTimestamp();
     
     // Add message content if enabled
-    if (loggerConfig.logMessageContent && message.content) {
+    if (config.logMessageContent && message.content) {
       let content = message.content;
       
       // Truncate long messages
-      if (content.length > loggerConfig.maxMessageLength) {
-        content = content.substring(0, loggerConfig.maxMessageLength) + '...';
+      if (content.length > config.maxMessageLength) {
+        content = content.substring(0, config.maxMessageLength) + '...';
       }
       
       embed.addFields({
@@ -1099,24 +1160,26 @@ async function logMessageDeletion(client: Client, message: Message | PartialMess
 /**
  * Log bulk message deletions
  * @param client Discord.js client
+ * @param config Configuration of the guild being logged to
  * @param messages Collection of deleted messages
  * @param channel Channel where messages were deleted
  */
 async function logBulkDeletion(
   client: Client,
+  config: MessageLoggerConfig,
   messages: Collection<string, Message | PartialMessage>,
   channel: GuildTextBasedChannel
 ): Promise<void> {
   console.log("Attempting to log bulk message deletion");
   
-  if (!loggerConfig.logChannelId) {
+  if (!config.logChannelId) {
     console.log("No log channel configured");
     return;
   }
   
   try {
-    console.log("Fetching log channel:", loggerConfig.logChannelId);
-    const logChannel = await client.channels.fetch(loggerConfig.logChannelId);
+    console.log("Fetching log channel:", config.logChannelId);
+    const logChannel = await client.channels.fetch(config.logChannelId);
     console.log("Log channel fetch result:", logChannel ? "Found" : "Not found");
     
     if (!logChannel) {
@@ -1142,7 +1205,7 @@ async function logBulkDeletion(
     console.log("Log message sent successfully");
     
     // If content logging is enabled, create a detailed log
-    if (loggerConfig.logMessageContent) {
+    if (config.logMessageContent) {
       // Sort messages by timestamp, oldest first
       const sortedMessages = [...messages.values()].sort((a, b) => 
         (a.createdTimestamp || 0) - (b.createdTimestamp || 0)
@@ -1202,19 +1265,20 @@ async function logBulkDeletion(
 /**
  * Log a member joining the server
  * @param client Discord.js client
+ * @param config Configuration of the guild being logged to
  * @param member The member who joined
  */
-async function logMemberJoin(client: Client, member: GuildMember): Promise<void> {
+async function logMemberJoin(client: Client, config: MessageLoggerConfig, member: GuildMember): Promise<void> {
   console.log("Attempting to log member join");
   
-  if (!loggerConfig.logChannelId) {
+  if (!config.logChannelId) {
     console.log("No log channel configured");
     return;
   }
   
   try {
-    console.log("Fetching log channel:", loggerConfig.logChannelId);
-    const logChannel = await client.channels.fetch(loggerConfig.logChannelId);
+    console.log("Fetching log channel:", config.logChannelId);
+    const logChannel = await client.channels.fetch(config.logChannelId);
     console.log("Log channel fetch result:", logChannel ? "Found" : "Not found");
     
     if (!logChannel) {
@@ -1267,19 +1331,20 @@ async function logMemberJoin(client: Client, member: GuildMember): Promise<void>
 /**
  * Log a member leaving the server
  * @param client Discord.js client
+ * @param config Configuration of the guild being logged to
  * @param member The member who left
  */
-async function logMemberLeave(client: Client, member: GuildMember | PartialGuildMember): Promise<void> {
+async function logMemberLeave(client: Client, config: MessageLoggerConfig, member: GuildMember | PartialGuildMember): Promise<void> {
   console.log("Attempting to log member leave");
   
-  if (!loggerConfig.logChannelId) {
+  if (!config.logChannelId) {
     console.log("No log channel configured");
     return;
   }
   
   try {
-    console.log("Fetching log channel:", loggerConfig.logChannelId);
-    const logChannel = await client.channels.fetch(loggerConfig.logChannelId);
+    console.log("Fetching log channel:", config.logChannelId);
+    const logChannel = await client.channels.fetch(config.logChannelId);
     console.log("Log channel fetch result:", logChannel ? "Found" : "Not found");
     
     if (!logChannel) {
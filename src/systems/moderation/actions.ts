@@ -0,0 +1,670 @@
+/**
+ * Moderation Actions
+ * ------------------
+ * Warning, mute and ban logic backed by the infractions table
+ * Ported from legacy/warning-system.ts
+ */
+
+import { Client, EmbedBuilder, Guild, TextChannel } from 'discord.js';
+import { logWithEmoji, formatDuration } from '../../utils';
+import { toDatabaseTimestamp, fromDatabaseTimestamp } from '../../database';
+import {
+  GuildModel,
+  InfractionModel,
+  ModConfigModel,
+  ModConfig,
+  Infraction,
+  EscalationStepModel,
+  EscalationStep,
+  generateCaseId
+} from '../../database/models/legacy-models';
+import { scheduleJob, cancelJob, ScheduledJobTypes } from '../scheduler';
+import { trackModerationAction } from '../activity';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+// Default punishment tiers for guilds without an escalation ladder,
+// applied once a user goes past the warning threshold
+const PUNISHMENT_TIERS = [
+  { tier: 1, type: 'MUTE' as const, duration: 2 * 60 * 60 * 1000 }, // 2 hours in ms
+  { tier: 2, type: 'MUTE' as const, duration: 24 * 60 * 60 * 1000 }, // 24 hours in ms
+  { tier: 3, type: 'BAN' as const, duration: 0, allowAppeal: true }, // Permanent ban with appeal
+  { tier: 4, type: 'BAN' as const, duration: 0, allowAppeal: false } // Permanent ban without appeal
+];
+
+// Embed colors per infraction type
+const INFRACTION_COLORS: Record<Infraction['type'], number> = {
+  WARNING: 0xFFCC00, // Yellow
+  MUTE: 0xFF9900,    // Orange
+  UNMUTE: 0x00CCFF,  // Light blue
+  BAN: 0xFF0000,     // Red
+  UNBAN: 0x00FF00,   // Green
+  KICK: 0xFF6600,    // Dark orange
+  NOTE: 0xCCCCCC     // Light gray
+};
+
+//=============================================================================
+// CONFIGURATION
+//=============================================================================
+
+/**
+ * Get the moderation config for a guild, creating the default row if needed
+ */
+export async function getModConfig(guild: Guild): Promise<ModConfig> {
+  let config = await ModConfigModel.getByGuildId(guild.id);
+
+  if (!config) {
+    await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+    await ModConfigModel.upsert({ guild_id: guild.id });
+    config = await ModConfigModel.getByGuildId(guild.id);
+  }
+
+  return config!;
+}
+
+/**
+ * Check whether a user holds the configured moderator role
+ */
+export async function isProtectedMember(guild: Guild, userId: string, config: ModConfig): Promise<boolean> {
+  if (!config.moderator_role_id) return false;
+
+  const member = await guild.members.fetch(userId).catch(() => null);
+  return !!member && member.roles.cache.has(config.moderator_role_id);
+}
+
+//=============================================================================
+// INFRACTION RECORDS
+//=============================================================================
+
+/**
+ * Create an infraction row and return it as stored
+ */
+export async function recordInfraction(
+  guildId: string,
+  userId: string,
+  moderatorId: string,
+  type: Infraction['type'],
+  reason: string,
+  expiresAt?: number
+): Promise<Infraction> {
+  const id = generateCaseId(guildId);
+
+  await InfractionModel.create({
+    id,
+    user_id: userId,
+    guild_id: guildId,
+    moderator_id: moderatorId,
+    type,
+    reason,
+    expires_at: expiresAt ? toDatabaseTimestamp(expiresAt) : undefined,
+    active: true,
+    appealed: false
+  });
+
+  if (type !== 'NOTE') {
+    trackModerationAction(guildId);
+  }
+
+  return (await InfractionModel.getById(id))!;
+}
+
+/**
+ * Log a moderation action to the configured log channel
+ */
+export async function logModAction(client: Client, guildId: string, infraction: Infraction): Promise<void> {
+  try {
+    await sendModLog(client, guildId, await buildModLogEmbed(client, infraction));
+  } catch (error) {
+    logWithEmoji('error', `Error logging moderation action: ${error}`, 'Moderation');
+  }
+}
+
+/**
+ * Send an embed to the configured log channel
+ */
+export async function sendModLog(client: Client, guildId: string, embed: EmbedBuilder): Promise<void> {
+  const config = await ModConfigModel.getByGuildId(guildId);
+  if (!config?.log_channel_id) return;
+
+  const guild = await client.guilds.fetch(guildId);
+  const logChannel = await guild.channels.fetch(config.log_channel_id);
+
+  if (!logChannel || !('send' in logChannel)) {
+    logWithEmoji('error', `Log channel ${config.log_channel_id} not found or is not a text channel`, 'Moderation');
+    return;
+  }
+
+  await (logChannel as TextChannel).send({ embeds: [embed] });
+}
+
+/**
+ * Build the mod-log embed for an infraction
+ */
+export async function buildModLogEmbed(client: Client, infraction: Infraction): Promise<EmbedBuilder> {
+  const user = await client.users.fetch(infraction.user_id).catch(() => null);
+  const moderator = infraction.moderator_id === 'System'
+    ? null
+    : await client.users.fetch(infraction.moderator_id).catch(() => null);
+  const issuedAt = Math.floor(fromDatabaseTimestamp(infraction.timestamp).getTime() / 1000);
+
+  const embed = new EmbedBuilder()
+    .setTitle(`${infraction.type} | Case ${infraction.id}`)
+    .setColor(INFRACTION_COLORS[infraction.type])
+    .setDescription(`**User:** ${user ? `${user.toString()} (${user.tag})` : infraction.user_id}`)
+    .addFields(
+      { name: 'Reason', value: infraction.reason },
+      { name: 'Moderator', value: moderator ? `${moderator.toString()} (${moderator.tag})` : infraction.moderator_id },
+      { name: 'Time', value: `<t:${issuedAt}:F>` }
+    )
+    .setFooter({ text: `ID: ${infraction.id}` })
+    .setTimestamp();
+
+  // Add expiration if it's a temporary action
+  if (infraction.expires_at) {
+    const expiresAt = Math.floor(fromDatabaseTimestamp(infraction.expires_at).getTime() / 1000);
+    embed.addFields({
+      name: 'Expires',
+      value: `<t:${expiresAt}:R> (<t:${expiresAt}:F>)`
+    });
+  }
+
+  return embed;
+}
+
+//=============================================================================
+// WARNINGS
+//=============================================================================
+
+/**
+ * Warn a user, escalating and notifying as configured
+ */
+export async function warnUser(
+  client: Client,
+  guild: Guild,
+  userId: string,
+  reason: string,
+  moderatorId: string,
+  notify: boolean = true
+): Promise<Infraction> {
+  const config = await getModConfig(guild);
+
+  const expiresAt = config.warning_ttl ? Date.now() + config.warning_ttl * 24 * 60 * 60 * 1000 : undefined;
+  const warning = await recordInfraction(guild.id, userId, moderatorId, 'WARNING', reason, expiresAt);
+
+  // Schedule the warning to stop counting once it reaches the guild's TTL
+  if (expiresAt) {
+    await scheduleJob(ScheduledJobTypes.EXPIRE_WARNING, expiresAt, { infractionId: warning.id }, {
+      guildId: guild.id,
+      dedupeKey: getWarningExpiryJobKey(warning.id)
+    });
+  }
+
+  // Check if we need to escalate
+  await checkAndEscalate(client, guild, userId);
+
+  // Send a DM to the user if enabled
+  if (config.dm_notifications && notify) {
+    await sendWarningDM(client, guild, userId, warning, config);
+  }
+
+  await logModAction(client, guild.id, warning);
+
+  return warning;
+}
+
+/**
+ * Dedupe key for a warning's pending expiry job
+ */
+export function getWarningExpiryJobKey(infractionId: string): string {
+  return `expire_warning:${infractionId}`;
+}
+
+/**
+ * Apply a new warning TTL to a guild's existing active warnings
+ * @param ttlDays Warning lifetime in days, or null to stop warnings expiring
+ * @returns Number of warnings that expired immediately
+ */
+export async function applyWarningTtl(guildId: string, ttlDays: number | null): Promise<number> {
+  // Cancel existing expiry jobs before the recalculation changes which warnings have one
+  const previouslyExpiring = (await InfractionModel.getActiveExpiring('WARNING'))
+    .filter(warning => warning.guild_id === guildId);
+
+  for (const warning of previouslyExpiring) {
+    await cancelJob(getWarningExpiryJobKey(warning.id));
+  }
+
+  const expired = await InfractionModel.applyWarningTtl(guildId, ttlDays);
+
+  const expiring = (await InfractionModel.getActiveExpiring('WARNING'))
+    .filter(warning => warning.guild_id === guildId);
+
+  for (const warning of expiring) {
+    await scheduleJob(
+      ScheduledJobTypes.EXPIRE_WARNING,
+      fromDatabaseTimestamp(warning.expires_at!),
+      { infractionId: warning.id },
+      { guildId, dedupeKey: getWarningExpiryJobKey(warning.id) }
+    );
+  }
+
+  return expired;
+}
+
+/**
+ * Resolve the escalation step for a warning count
+ * Guilds without a configured ladder fall back to the default tiers past warn_threshold
+ */
+export async function getEscalationStep(
+  guildId: string,
+  warningCount: number,
+  config: ModConfig
+): Promise<Pick<EscalationStep, 'action' | 'duration' | 'allow_appeal'> | null> {
+  const ladder = await EscalationStepModel.getByGuild(guildId);
+
+  if (ladder.length > 0) {
+    return EscalationStepModel.getForWarningCount(guildId, warningCount);
+  }
+
+  if (warningCount <= config.warn_threshold) {
+    // No escalation needed yet
+    return null;
+  }
+
+  // Find which tier of punishment we need, falling back to the highest tier
+  const punishmentTier = warningCount - config.warn_threshold;
+  const punishment = PUNISHMENT_TIERS.find(p => p.tier === punishmentTier)
+    || PUNISHMENT_TIERS[PUNISHMENT_TIERS.length - 1];
+
+  return {
+    action: punishment.type,
+    duration: punishment.duration || undefined,
+    allow_appeal: punishment.allowAppeal !== false
+  };
+}
+
+/**
+ * Check and escalate punishment according to the guild's escalation ladder
+ */
+export async function checkAndEscalate(client: Client, guild: Guild, userId: string): Promise<void> {
+  const config = await getModConfig(guild);
+
+  const warningCount = (await InfractionModel.getActiveWarningsByUser(guild.id, userId)).length;
+
+  const step = await getEscalationStep(guild.id, warningCount, config);
+  if (!step) return;
+
+  switch (step.action) {
+    case 'MUTE':
+      await muteUser(
+        client,
+        guild,
+        userId,
+        `Automatic mute after ${warningCount} warnings`,
+        'System',
+        step.duration || 0
+      );
+      break;
+
+    case 'BAN':
+      await banUser(
+        client,
+        guild,
+        userId,
+        `Automatic ban after ${warningCount} warnings`,
+        'System',
+        !!step.allow_appeal,
+        0,
+        step.duration || 0
+      );
+      break;
+  }
+}
+
+/**
+ * Send a warning DM to a user
+ */
+async function sendWarningDM(
+  client: Client,
+  guild: Guild,
+  userId: string,
+  warning: Infraction,
+  config: ModConfig
+): Promise<void> {
+  try {
+    const user = await client.users.fetch(userId);
+    const moderator = await client.users.fetch(warning.moderator_id).catch(() => null);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Warning from ${guild.name}`)
+      .setColor(INFRACTION_COLORS.WARNING)
+      .setDescription(`You have received a warning in ${guild.name}.`)
+      .addFields(
+        { name: 'Reason', value: warning.reason },
+        { name: 'Moderator', value: moderator ? moderator.tag : warning.moderator_id },
+        { name: 'Time', value: `<t:${Math.floor(fromDatabaseTimestamp(warning.timestamp).getTime() / 1000)}:F>` }
+      )
+      .setFooter({ text: `Warning ID: ${warning.id}` })
+      .setTimestamp();
+
+    if (config.allow_appeals) {
+      embed.addFields({
+        name: 'Appeal',
+        value: 'You can appeal this warning by using the `/appeal` command and selecting "Warning" as the type.'
+      });
+    }
+
+    await user.send({ embeds: [embed] });
+  } catch (error) {
+    // User may have DMs disabled, we'll just log the error
+    logWithEmoji('warn', `Could not send warning DM to ${userId}: ${error}`, 'Moderation');
+  }
+}
+
+//=============================================================================
+// MUTES
+//=============================================================================
+
+/**
+ * Mute a user with the configured muted role
+ * @param duration The duration in milliseconds (0 for permanent)
+ * @returns The created infraction, or null if the mute failed
+ */
+export async function muteUser(
+  client: Client,
+  guild: Guild,
+  userId: string,
+  reason: string,
+  moderatorId: string,
+  duration: number = 0
+): Promise<Infraction | null> {
+  const config = await getModConfig(guild);
+
+  if (!config.muted_role_id) {
+    logWithEmoji('error', 'No muted role configured', 'Moderation');
+    return null;
+  }
+
+  try {
+    const member = await guild.members.fetch(userId);
+
+    const mutedRole = guild.roles.cache.get(config.muted_role_id);
+    if (!mutedRole) {
+      logWithEmoji('error', `Muted role ${config.muted_role_id} not found`, 'Moderation');
+      return null;
+    }
+
+    await member.roles.add(mutedRole, reason);
+
+    const expiresAt = duration > 0 ? Date.now() + duration : undefined;
+    const mute = await recordInfraction(guild.id, userId, moderatorId, 'MUTE', reason, expiresAt);
+
+    await logModAction(client, guild.id, mute);
+
+    // Schedule the unmute if it's temporary, otherwise drop any earlier temporary mute's unmute
+    if (expiresAt) {
+      await scheduleJob(ScheduledJobTypes.UNMUTE, expiresAt, { guildId: guild.id, userId }, {
+        guildId: guild.id,
+        dedupeKey: getUnmuteJobKey(guild.id, userId)
+      });
+    } else {
+      await cancelJob(getUnmuteJobKey(guild.id, userId));
+    }
+
+    if (config.dm_notifications) {
+      try {
+        const user = await client.users.fetch(userId);
+
+        const embed = new EmbedBuilder()
+          .setTitle(`You have been muted in ${guild.name}`)
+          .setColor(INFRACTION_COLORS.MUTE)
+          .setDescription(`You have been muted in ${guild.name}.`)
+          .addFields(
+            { name: 'Reason', value: reason },
+            { name: 'Duration', value: duration > 0 ? formatDuration(duration) : 'Permanent' }
+          )
+          .setFooter({ text: `Mute ID: ${mute.id}` })
+          .setTimestamp();
+
+        if (expiresAt) {
+          embed.addFields({
+            name: 'Expires',
+            value: `<t:${Math.floor(expiresAt / 1000)}:F>`
+          });
+        }
+
+        if (config.allow_appeals) {
+          embed.addFields({
+            name: 'Appeal',
+            value: 'You can appeal this mute by using the `/appeal` command and selecting "Mute" as the type.'
+          });
+        }
+
+        await user.send({ embeds: [embed] });
+      } catch (error) {
+        logWithEmoji('warn', `Could not send mute DM to ${userId}: ${error}`, 'Moderation');
+      }
+    }
+
+    return mute;
+  } catch (error) {
+    logWithEmoji('error', `Error muting user ${userId}: ${error}`, 'Moderation');
+    return null;
+  }
+}
+
+/**
+ * Unmute a user and close their active mute infractions
+ * @returns Whether the unmute was successful
+ */
+export async function unmuteUser(
+  client: Client,
+  guild: Guild,
+  userId: string,
+  reason: string,
+  moderatorId: string
+): Promise<boolean> {
+  const config = await getModConfig(guild);
+
+  if (!config.muted_role_id) {
+    logWithEmoji('error', 'No muted role configured', 'Moderation');
+    return false;
+  }
+
+  try {
+    const member = await guild.members.fetch(userId);
+
+    if (!member.roles.cache.has(config.muted_role_id)) {
+      logWithEmoji('warn', `User ${userId} is not muted`, 'Moderation');
+      return false;
+    }
+
+    await member.roles.remove(config.muted_role_id, reason);
+
+    // Mark active mutes as inactive
+    const activeMutes = (await InfractionModel.getActiveByUser(guild.id, userId))
+      .filter(infraction => infraction.type === 'MUTE');
+
+    for (const mute of activeMutes) {
+      await InfractionModel.setInactive(mute.id);
+    }
+
+    const unmute = await recordInfraction(guild.id, userId, moderatorId, 'UNMUTE', reason);
+    await logModAction(client, guild.id, unmute);
+
+    await cancelJob(getUnmuteJobKey(guild.id, userId));
+
+    if (config.dm_notifications) {
+      try {
+        const user = await client.users.fetch(userId);
+
+        const embed = new EmbedBuilder()
+          .setTitle(`You have been unmuted in ${guild.name}`)
+          .setColor(INFRACTION_COLORS.UNMUTE)
+          .setDescription(`You have been unmuted in ${guild.name}.`)
+          .addFields({ name: 'Reason', value: reason })
+          .setTimestamp();
+
+        await user.send({ embeds: [embed] });
+      } catch (error) {
+        logWithEmoji('warn', `Could not send unmute DM to ${userId}: ${error}`, 'Moderation');
+      }
+    }
+
+    return true;
+  } catch (error) {
+    logWithEmoji('error', `Error unmuting user ${userId}: ${error}`, 'Moderation');
+    return false;
+  }
+}
+
+/**
+ * Dedupe key for a user's pending unmute job
+ */
+export function getUnmuteJobKey(guildId: string, userId: string): string {
+  return `unmute:${guildId}:${userId}`;
+}
+
+//=============================================================================
+// BANS
+//=============================================================================
+
+/**
+ * Ban a user
+ * @param duration The duration in milliseconds (0 for permanent)
+ * @returns The created infraction, or null if the ban failed
+ */
+export async function banUser(
+  client: Client,
+  guild: Guild,
+  userId: string,
+  reason: string,
+  moderatorId: string,
+  allowAppeal: boolean = true,
+  deleteDays: number = 0,
+  duration: number = 0
+): Promise<Infraction | null> {
+  const config = await getModConfig(guild);
+  const expiresAt = duration > 0 ? Date.now() + duration : undefined;
+
+  try {
+    // Try to send a DM to the user before banning, as we can't reach them afterwards
+    if (config.dm_notifications) {
+      try {
+        const user = await client.users.fetch(userId);
+
+        const embed = new EmbedBuilder()
+          .setTitle(`You have been banned from ${guild.name}`)
+          .setColor(INFRACTION_COLORS.BAN)
+          .setDescription(`You have been banned from ${guild.name}.`)
+          .addFields(
+            { name: 'Reason', value: reason },
+            { name: 'Duration', value: duration > 0 ? formatDuration(duration) : 'Permanent' }
+          )
+          .setTimestamp();
+
+        if (expiresAt) {
+          embed.addFields({
+            name: 'Expires',
+            value: `<t:${Math.floor(expiresAt / 1000)}:F>`
+          });
+        }
+
+        if (allowAppeal && config.allow_appeals) {
+          embed.addFields({
+            name: 'Appeal',
+            value: 'You can appeal this ban by using the `/appeal` command and selecting "Ban" as the type.'
+          });
+        }
+
+        await user.send({ embeds: [embed] });
+      } catch (error) {
+        logWithEmoji('warn', `Could not send ban DM to ${userId}: ${error}`, 'Moderation');
+      }
+    }
+
+    await guild.members.ban(userId, {
+      reason,
+      deleteMessageSeconds: deleteDays * 86400 // Convert days to seconds
+    });
+
+    const ban = await recordInfraction(guild.id, userId, moderatorId, 'BAN', reason, expiresAt);
+    await logModAction(client, guild.id, ban);
+
+    // Schedule the unban if it's temporary, otherwise drop any earlier temporary ban's unban
+    if (expiresAt) {
+      await scheduleJob(ScheduledJobTypes.UNBAN, expiresAt, { guildId: guild.id, userId }, {
+        guildId: guild.id,
+        dedupeKey: getUnbanJobKey(guild.id, userId)
+      });
+    } else {
+      await cancelJob(getUnbanJobKey(guild.id, userId));
+    }
+
+    return ban;
+  } catch (error) {
+    logWithEmoji('error', `Error banning user ${userId}: ${error}`, 'Moderation');
+    return null;
+  }
+}
+
+/**
+ * Dedupe key for a user's pending unban job
+ */
+export function getUnbanJobKey(guildId: string, userId: string): string {
+  return `unban:${guildId}:${userId}`;
+}
+
+/**
+ * Unban a user and close their active ban infractions
+ * @returns Whether the unban was successful
+ */
+export async function unbanUser(
+  client: Client,
+  guild: Guild,
+  userId: string,
+  reason: string,
+  moderatorId: string
+): Promise<boolean> {
+  const config = await getModConfig(guild);
+
+  try {
+    await guild.members.unban(userId, reason);
+
+    const activeBans = (await InfractionModel.getActiveByUser(guild.id, userId))
+      .filter(infraction => infraction.type === 'BAN');
+
+    for (const ban of activeBans) {
+      await InfractionModel.setInactive(ban.id);
+    }
+
+    const unban = await recordInfraction(guild.id, userId, moderatorId, 'UNBAN', reason);
+    await logModAction(client, guild.id, unban);
+
+    await cancelJob(getUnbanJobKey(guild.id, userId));
+
+    // Try to send a DM to the user if enabled
+    if (config.dm_notifications) {
+      try {
+        const user = await client.users.fetch(userId);
+
+        const embed = new EmbedBuilder()
+          .setTitle(`You have been unbanned from ${guild.name}`)
+          .setColor(INFRACTION_COLORS.UNBAN)
+          .setDescription(`You have been unbanned from ${guild.name}.`)
+          .addFields({ name: 'Reason', value: reason })
+          .setTimestamp();
+
+        await user.send({ embeds: [embed] });
+      } catch (error) {
+        logWithEmoji('warn', `Could not send unban DM to ${userId}: ${error}`, 'Moderation');
+      }
+    }
+
+    return true;
+  } catch (error) {
+    logWithEmoji('error', `Error unbanning user ${userId}: ${error}`, 'Moderation');
+    return false;
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Appeal Queue
+ * ------------
+ * Paginated review of pending appeals with claim, approve and deny in place
+ */
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  Client,
+  EmbedBuilder,
+  Events,
+  MessageFlags,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  PermissionFlagsBits,
+  TextInputBuilder,
+  TextInputStyle
+} from 'discord.js';
+import { logWithEmoji, truncateString } from '../../utils';
+import { fromDatabaseTimestamp } from '../../database';
+import { AppealModel, PendingAppeal } from '../../database/models/legacy-models';
+import { resolveAppeal, getClaimHolder } from './appeals';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export interface AppealQueuePage {
+  embeds: EmbedBuilder[];
+  components: ActionRowBuilder<ButtonBuilder>[];
+}
+
+//=============================================================================
+// RENDERING
+//=============================================================================
+
+/**
+ * Build one page of a guild's appeal queue, one appeal per page
+ * @param viewerId The moderator viewing the queue, used to offer claim or unclaim
+ * @param canOverride Whether the viewer may take over and decide appeals claimed by others
+ */
+export async function buildAppealQueuePage(
+  guildId: string,
+  page: number,
+  viewerId: string,
+  canOverride: boolean = false
+): Promise<AppealQueuePage> {
+  const queue = await AppealModel.getPendingQueue(guildId);
+
+  if (queue.length === 0) {
+    const embed = new EmbedBuilder()
+      .setTitle('Appeal Queue')
+      .setColor(0x00FF00)
+      .setDescription('There are no pending appeals. 🎉')
+      .setTimestamp();
+
+    return { embeds: [embed], components: [] };
+  }
+
+  // Appeals may have been decided since the page was rendered
+  const index = Math.min(Math.max(page, 0), queue.length - 1);
+  const appeal = queue[index];
+
+  return {
+    embeds: [buildQueueEmbed(appeal, index, queue.length)],
+    components: buildQueueComponents(appeal, index, queue.length, viewerId, canOverride)
+  };
+}
+
+/**
+ * Build the embed for a queued appeal
+ */
+function buildQueueEmbed(appeal: PendingAppeal, index: number, total: number): EmbedBuilder {
+  const submittedAt = Math.floor(fromDatabaseTimestamp(appeal.timestamp).getTime() / 1000);
+  const holder = getClaimHolder(appeal);
+  const claimedBy = holder
+    ? `<@${holder}> <t:${Math.floor(fromDatabaseTimestamp(appeal.claimed_at!).getTime() / 1000)}:R>`
+    : 'Unclaimed';
+
+  return new EmbedBuilder()
+    .setTitle(`Appeal Queue | ${appeal.infraction_type} | Case ${appeal.case_id}`)
+    .setColor(holder ? 0xFF9900 : 0x0099FF)
+    .setDescription(`**User:** <@${appeal.user_id}> (${appeal.user_id})`)
+    .addFields(
+      { name: 'Original Reason', value: appeal.original_reason },
+      {
+        name: 'Original Moderator',
+        value: appeal.original_moderator === 'System' ? 'System' : `<@${appeal.original_moderator}>`,
+        inline: true
+      },
+      { name: 'Submitted', value: `<t:${submittedAt}:R>`, inline: true },
+      { name: 'Claimed By', value: claimedBy, inline: true },
+      { name: 'Appeal Reason', value: truncateString(appeal.reason, 1024) }
+    )
+    .setFooter({ text: `Appeal ${index + 1} of ${total} | ID: ${appeal.id}` })
+    .setTimestamp();
+}
+
+/**
+ * Build the navigation and decision buttons for a queued appeal
+ */
+function buildQueueComponents(
+  appeal: PendingAppeal,
+  index: number,
+  total: number,
+  viewerId: string,
+  canOverride: boolean
+): ActionRowBuilder<ButtonBuilder>[] {
+  const holder = getClaimHolder(appeal);
+  const claimedByOther = !!holder && holder !== viewerId;
+  const claimedByViewer = holder === viewerId;
+  const locked = claimedByOther && !canOverride;
+
+  const navigationRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`appeals_queue_prev_${index}`)
+      .setLabel('Previous')
+      .setEmoji('◀️')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(index === 0),
+    new ButtonBuilder()
+      .setCustomId(`appeals_queue_refresh_${index}`)
+      .setLabel('Refresh')
+      .setEmoji('🔄')
+      .setStyle(ButtonStyle.Secondary),
+    new ButtonBuilder()
+      .setCustomId(`appeals_queue_next_${index}`)
+      .setLabel('Next')
+      .setEmoji('▶️')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(index >= total - 1)
+  );
+
+  const decisionRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`appeals_queue_${claimedByViewer ? 'unclaim' : 'claim'}_${index}_${appeal.id}`)
+      .setLabel(claimedByViewer ? 'Unclaim' : claimedByOther ? 'Take Over' : 'Claim')
+      .setStyle(ButtonStyle.Primary)
+      .setDisabled(locked),
+    new ButtonBuilder()
+      .setCustomId(`appeals_queue_approve_${index}_${appeal.id}`)
+      .setLabel('Approve')
+      .setStyle(ButtonStyle.Success)
+      .setDisabled(locked),
+    new ButtonBuilder()
+      .setCustomId(`appeals_queue_deny_${index}_${appeal.id}`)
+      .setLabel('Deny')
+      .setStyle(ButtonStyle.Danger)
+      .setDisabled(locked)
+  );
+
+  return [navigationRow, decisionRow];
+}
+
+//=============================================================================
+// INTERACTIONS
+//=============================================================================
+
+/**
+ * Handle the queue's navigation, claim and decision buttons
+ */
+export async function handleAppealQueueButton(interaction: ButtonInteraction): Promise<void> {
+  if (!interaction.guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ModerateMembers)) {
+    await interaction.reply({
+      content: 'You do not have permission to handle appeals.',
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+
+  const [action, pageValue, ...rest] = interaction.customId.replace('appeals_queue_', '').split('_');
+  const page = parseInt(pageValue, 10) || 0;
+  const appealId = rest.join('_');
+  const moderatorId = interaction.user.id;
+  const canOverride = canOverrideClaims(interaction);
+
+  switch (action) {
+    case 'prev':
+    case 'next':
+    case 'refresh': {
+      const target = action === 'prev' ? page - 1 : action === 'next' ? page + 1 : page;
+      await interaction.update(await buildAppealQueuePage(interaction.guildId, target, moderatorId, canOverride));
+      break;
+    }
+
+    case 'claim':
+    case 'unclaim': {
+      const changed = action === 'claim'
+        ? await AppealModel.claim(appealId, moderatorId, canOverride)
+        : await AppealModel.unclaim(appealId, moderatorId);
+
+      await interaction.update(await buildAppealQueuePage(interaction.guildId, page, moderatorId, canOverride));
+
+      if (!changed) {
+        await interaction.followUp({
+          content: action === 'claim'
+            ? 'That appeal has already been claimed or decided.'
+            : 'You no longer hold the claim on that appeal.',
+          flags: MessageFlags.Ephemeral
+        });
+      } else {
+        logWithEmoji('info', `Appeal ${appealId} ${action}ed by ${interaction.user.tag}`, 'Appeals');
+      }
+      break;
+    }
+
+    case 'approve':
+    case 'deny': {
+      // The claim is only taken once the reason is submitted, so dismissing the form leaves the appeal free
+      const appeal = await AppealModel.getById(appealId);
+      const claimedBy = appeal ? getClaimHolder(appeal) : null;
+
+      if (!appeal || appeal.status !== 'PENDING' || (claimedBy && claimedBy !== moderatorId && !canOverride)) {
+        await interaction.update(await buildAppealQueuePage(interaction.guildId, page, moderatorId, canOverride));
+        await interaction.followUp({
+          content: 'That appeal has already been claimed by another moderator or decided.',
+          flags: MessageFlags.Ephemeral
+        });
+        return;
+      }
+
+      const modal = new ModalBuilder()
+        .setCustomId(`appeals_queue_modal_${action}_${page}_${appealId}`)
+        .setTitle(`${action === 'approve' ? 'Approve' : 'Deny'} Appeal`);
+
+      const reasonInput = new TextInputBuilder()
+        .setCustomId('decision_reason')
+        .setLabel('Reason for decision')
+        .setStyle(TextInputStyle.Paragraph)
+        .setRequired(true)
+        .setMaxLength(1000);
+
+      modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(reasonInput));
+
+      await interaction.showModal(modal);
+      break;
+    }
+  }
+}
+
+/**
+ * Handle a decision submitted from the queue, then refresh the page in place
+ */
+export async function handleAppealQueueDecisionSubmit(interaction: ModalSubmitInteraction): Promise<void> {
+  const [decision, pageValue, ...rest] = interaction.customId.replace('appeals_queue_modal_', '').split('_');
+  const page = parseInt(pageValue, 10) || 0;
+  const appealId = rest.join('_');
+  const reason = interaction.fields.getTextInputValue('decision_reason');
+
+  const canOverride = canOverrideClaims(interaction);
+
+  const appeal = await AppealModel.getById(appealId);
+  if (!appeal || appeal.guild_id !== interaction.guildId) {
+    await interaction.reply({ content: 'The appeal could not be found.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  if (canOverride) {
+    await AppealModel.claim(appealId, interaction.user.id, true);
+  }
+
+  const infraction = await resolveAppeal(
+    interaction.client,
+    appeal,
+    decision === 'approve' ? 'APPROVED' : 'DENIED',
+    interaction.user.id,
+    reason
+  );
+
+  const result = infraction
+    ? `Appeal for case \`${infraction.id}\` ${decision === 'approve' ? 'approved' : 'denied'}.`
+    : 'This appeal has already been handled or is claimed by another moderator.';
+
+  if (interaction.isFromMessage()) {
+    await interaction.update(await buildAppealQueuePage(appeal.guild_id, page, interaction.user.id, canOverride));
+    await interaction.followUp({ content: result, flags: MessageFlags.Ephemeral });
+  } else {
+    await interaction.reply({ content: result, flags: MessageFlags.Ephemeral });
+  }
+}
+
+/**
+ * Administrators may take over or decide appeals another moderator has claimed
+ */
+function canOverrideClaims(interaction: ButtonInteraction | ModalSubmitInteraction): boolean {
+  return !!interaction.memberPermissions?.has(PermissionFlagsBits.Administrator);
+}
+
+//=============================================================================
+// EVENT HANDLERS
+//=============================================================================
+
+/**
+ * Set up appeal queue button and modal handlers
+ */
+export function setupAppealQueueHandlers(client: Client): void {
+  client.on(Events.InteractionCreate, async (interaction) => {
+    try {
+      if (interaction.isButton() && interaction.customId.startsWith('appeals_queue_')) {
+        await handleAppealQueueButton(interaction);
+      } else if (interaction.isModalSubmit() && interaction.customId.startsWith('appeals_queue_modal_')) {
+        await handleAppealQueueDecisionSubmit(interaction);
+      }
+    } catch (error) {
+      logWithEmoji('error', `Error handling appeal queue interaction: ${error}`, 'Appeals');
+    }
+  });
+}
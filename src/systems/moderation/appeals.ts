@@ -0,0 +1,555 @@
+/**
+ * Appeals
+ * -------
+ * Appeal forms, submission and review backed by the appeals table
+ * Ported from legacy/warning-system.ts
+ */
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  Client,
+  EmbedBuilder,
+  Events,
+  Guild,
+  MessageFlags,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  PermissionFlagsBits,
+  TextChannel,
+  TextInputBuilder,
+  TextInputStyle
+} from 'discord.js';
+import { logWithEmoji } from '../../utils';
+import { fromDatabaseTimestamp } from '../../database';
+import {
+  AppealModel,
+  APPEAL_CLAIM_TIMEOUT_MINUTES,
+  Appeal,
+  InfractionModel,
+  InfractionEditModel,
+  ModConfigModel,
+  ModConfig,
+  Infraction
+} from '../../database/models/legacy-models';
+import { cancelJob } from '../scheduler';
+import { unmuteUser, unbanUser, getWarningExpiryJobKey } from './actions';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+// Infraction types that can be appealed
+export const APPEALABLE_TYPES = ['WARNING', 'MUTE', 'BAN'] as const;
+
+export type AppealableType = typeof APPEALABLE_TYPES[number];
+
+// Embed colors per infraction type
+const APPEAL_COLORS: Record<AppealableType, number> = {
+  WARNING: 0xFFCC00, // Yellow
+  MUTE: 0xFF9900,    // Orange
+  BAN: 0xFF0000      // Red
+};
+
+//=============================================================================
+// ELIGIBILITY
+//=============================================================================
+
+/**
+ * Get the most recent active infraction of a type for a user
+ */
+export async function getAppealableInfraction(
+  guildId: string,
+  userId: string,
+  type: AppealableType
+): Promise<Infraction | null> {
+  const infractions = (await InfractionModel.getActiveByUser(guildId, userId))
+    .filter(infraction => infraction.type === type);
+
+  return infractions[0] || null;
+}
+
+/**
+ * Check whether a user may submit an appeal in a guild
+ * @returns Why the user can't appeal, or null if they can
+ */
+export async function checkAppealEligibility(config: ModConfig | null, userId: string): Promise<string | null> {
+  if (!config || !config.allow_appeals) {
+    return 'Appeals are not allowed in this server.';
+  }
+
+  const [latest] = await AppealModel.getByUser(config.guild_id, userId);
+  if (!latest) return null;
+
+  if (latest.status === 'PENDING') {
+    return 'You already have a pending appeal. Please wait for that to be reviewed before submitting another.';
+  }
+
+  // The cooldown runs from the last decision, so a denied user has to wait before trying again
+  const lastActivity = fromDatabaseTimestamp(latest.review_timestamp || latest.timestamp).getTime();
+  const nextAllowed = lastActivity + config.appeal_cooldown * 60 * 60 * 1000;
+
+  if (nextAllowed > Date.now()) {
+    return `You can submit another appeal <t:${Math.floor(nextAllowed / 1000)}:R>.`;
+  }
+
+  return null;
+}
+
+//=============================================================================
+// SUBMISSION
+//=============================================================================
+
+/**
+ * DM a user the button that opens the appeal form for an infraction
+ */
+export async function sendAppealForm(client: Client, guild: Guild, userId: string, infraction: Infraction): Promise<void> {
+  const user = await client.users.fetch(userId);
+  const typeLabel = formatType(infraction.type);
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Appeal ${typeLabel} from ${guild.name}`)
+    .setColor(0x0099FF)
+    .setDescription(`Please fill out this form to appeal your ${infraction.type.toLowerCase()} from ${guild.name}.`)
+    .addFields(
+      { name: 'Original Reason', value: infraction.reason },
+      { name: 'Date', value: `<t:${Math.floor(fromDatabaseTimestamp(infraction.timestamp).getTime() / 1000)}:F>` },
+      { name: 'Instructions', value: 'Click the button below to open the appeal form.' }
+    )
+    .setTimestamp();
+
+  const appealButton = new ButtonBuilder()
+    .setCustomId(`open_appeal_modal_${guild.id}_${infraction.id}`)
+    .setLabel('Open Appeal Form')
+    .setStyle(ButtonStyle.Primary);
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(appealButton);
+
+  await user.send({ embeds: [embed], components: [row] });
+}
+
+/**
+ * Handle the button that opens the appeal modal
+ */
+export async function handleOpenAppealModal(interaction: ButtonInteraction): Promise<void> {
+  const [guildId, infractionId] = interaction.customId.replace('open_appeal_modal_', '').split('_');
+
+  const infraction = await InfractionModel.getById(infractionId);
+  if (!infraction || infraction.guild_id !== guildId || infraction.user_id !== interaction.user.id) {
+    await interaction.reply({
+      content: 'The infraction being appealed could not be found. Please contact a server administrator.',
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+
+  if (!infraction.active) {
+    await interaction.reply({
+      content: `This ${infraction.type.toLowerCase()} is no longer active, so there is nothing to appeal.`,
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`appeal_modal_${guildId}_${infractionId}`)
+    .setTitle(`Appeal ${formatType(infraction.type)}`);
+
+  const reasonInput = new TextInputBuilder()
+    .setCustomId('appeal_reason')
+    .setLabel('Why should this decision be reconsidered?')
+    .setStyle(TextInputStyle.Paragraph)
+    .setRequired(true)
+    .setMaxLength(1000);
+
+  modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(reasonInput));
+
+  if (infraction.type === 'BAN' || infraction.type === 'MUTE') {
+    const futureInput = new TextInputBuilder()
+      .setCustomId('appeal_future')
+      .setLabel('How will you follow the rules in the future?')
+      .setStyle(TextInputStyle.Paragraph)
+      .setRequired(true)
+      .setMaxLength(1000);
+
+    modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(futureInput));
+  }
+
+  await interaction.showModal(modal);
+}
+
+/**
+ * Handle the appeal modal submission
+ */
+export async function handleAppealModalSubmit(interaction: ModalSubmitInteraction): Promise<void> {
+  const [guildId, infractionId] = interaction.customId.replace('appeal_modal_', '').split('_');
+
+  const infraction = await InfractionModel.getById(infractionId);
+  if (!infraction || infraction.guild_id !== guildId || infraction.user_id !== interaction.user.id || !infraction.active) {
+    await interaction.reply({
+      content: 'The infraction being appealed could not be found or is no longer active.',
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+
+  // Checked again here as the form may have been opened before the last appeal
+  const config = await ModConfigModel.getByGuildId(guildId);
+  const ineligibleReason = await checkAppealEligibility(config, interaction.user.id);
+  if (ineligibleReason) {
+    await interaction.reply({ content: ineligibleReason, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  let appealText = interaction.fields.getTextInputValue('appeal_reason');
+  if (infraction.type === 'BAN' || infraction.type === 'MUTE') {
+    appealText += `\n\nFuture behavior: ${interaction.fields.getTextInputValue('appeal_future')}`;
+  }
+
+  const appealId = `${infraction.id}-appeal-${Date.now()}`;
+
+  await AppealModel.create({
+    id: appealId,
+    user_id: interaction.user.id,
+    guild_id: guildId,
+    case_id: infraction.id,
+    infraction_type: infraction.type,
+    reason: appealText,
+    status: 'PENDING'
+  });
+
+  await InfractionModel.update(infraction.id, { appealed: true, appeal_id: appealId });
+
+  await interaction.reply({
+    content: 'Your appeal has been submitted. You will be notified when it has been reviewed.',
+    flags: MessageFlags.Ephemeral
+  });
+
+  const appeal = (await AppealModel.getById(appealId))!;
+  await sendAppealToChannel(interaction.client, appeal, infraction, config!);
+
+  logWithEmoji('info', `Appeal ${appealId} submitted by ${interaction.user.tag}`, 'Appeals');
+}
+
+/**
+ * Post an appeal to the guild's appeal channel, or the mod-log channel if none is set
+ */
+async function sendAppealToChannel(client: Client, appeal: Appeal, infraction: Infraction, config: ModConfig): Promise<void> {
+  const channelId = config.appeal_channel_id || config.log_channel_id;
+
+  if (!channelId) {
+    logWithEmoji('warn', `No appeal channel configured for guild ${appeal.guild_id}`, 'Appeals');
+    return;
+  }
+
+  try {
+    const guild = await client.guilds.fetch(appeal.guild_id);
+    const channel = await guild.channels.fetch(channelId);
+
+    if (!channel || !('send' in channel)) {
+      logWithEmoji('error', `Appeal channel ${channelId} not found or is not a text channel`, 'Appeals');
+      return;
+    }
+
+    const embed = await buildAppealEmbed(client, appeal, infraction);
+
+    await (channel as TextChannel).send({
+      embeds: [embed],
+      components: [buildAppealDecisionRow(appeal.id)]
+    });
+  } catch (error) {
+    logWithEmoji('error', `Error sending appeal to channel: ${error}`, 'Appeals');
+  }
+}
+
+/**
+ * Build the review embed for an appeal
+ */
+export async function buildAppealEmbed(client: Client, appeal: Appeal, infraction: Infraction): Promise<EmbedBuilder> {
+  const user = await client.users.fetch(appeal.user_id).catch(() => null);
+  const moderator = await client.users.fetch(infraction.moderator_id).catch(() => null);
+
+  return new EmbedBuilder()
+    .setTitle(`Appeal | ${infraction.type} | Case ${infraction.id}`)
+    .setColor(APPEAL_COLORS[infraction.type as AppealableType] ?? 0x000000)
+    .setDescription(`**User:** ${user ? `${user.toString()} (${user.tag})` : appeal.user_id}`)
+    .addFields(
+      { name: 'Original Reason', value: infraction.reason },
+      { name: 'Original Moderator', value: moderator ? `${moderator.toString()} (${moderator.tag})` : infraction.moderator_id },
+      { name: 'Original Time', value: `<t:${Math.floor(fromDatabaseTimestamp(infraction.timestamp).getTime() / 1000)}:F>` },
+      { name: 'Appeal Reason', value: appeal.reason.slice(0, 1024) },
+      { name: 'Appeal Time', value: `<t:${Math.floor(fromDatabaseTimestamp(appeal.timestamp).getTime() / 1000)}:F>` }
+    )
+    .setFooter({ text: `Appeal ID: ${appeal.id}` })
+    .setTimestamp();
+}
+
+/**
+ * Build the approve/deny buttons for an appeal
+ */
+function buildAppealDecisionRow(appealId: string, disabled: boolean = false): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`approve_appeal_${appealId}`)
+      .setLabel('Approve')
+      .setStyle(ButtonStyle.Success)
+      .setDisabled(disabled),
+    new ButtonBuilder()
+      .setCustomId(`deny_appeal_${appealId}`)
+      .setLabel('Deny')
+      .setStyle(ButtonStyle.Danger)
+      .setDisabled(disabled)
+  );
+}
+
+//=============================================================================
+// REVIEW
+//=============================================================================
+
+/**
+ * Handle the approve/deny buttons by asking the moderator for a reason
+ */
+export async function handleAppealDecision(interaction: ButtonInteraction): Promise<void> {
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.ModerateMembers)) {
+    await interaction.reply({
+      content: 'You do not have permission to handle appeals.',
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+
+  const decision = interaction.customId.startsWith('approve_appeal_') ? 'approve' : 'deny';
+  const appealId = interaction.customId.replace(/^(approve|deny)_appeal_/, '');
+
+  const appeal = await AppealModel.getById(appealId);
+  if (!appeal || appeal.guild_id !== interaction.guildId) {
+    await interaction.reply({ content: 'The appeal could not be found.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  if (appeal.status !== 'PENDING') {
+    await interaction.reply({ content: 'This appeal has already been handled.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  // The claim is only taken once the reason is submitted, so dismissing the form leaves the appeal free
+  const claimedBy = getClaimHolder(appeal);
+  if (claimedBy && claimedBy !== interaction.user.id) {
+    await interaction.reply({
+      content: `This appeal has been claimed by <@${claimedBy}>.`,
+      flags: MessageFlags.Ephemeral
+    });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`appeal_decision_${decision}_${appealId}`)
+    .setTitle(`${decision === 'approve' ? 'Approve' : 'Deny'} Appeal`);
+
+  const reasonInput = new TextInputBuilder()
+    .setCustomId('decision_reason')
+    .setLabel('Reason for decision')
+    .setStyle(TextInputStyle.Paragraph)
+    .setRequired(true)
+    .setMaxLength(1000);
+
+  modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(reasonInput));
+
+  await interaction.showModal(modal);
+}
+
+/**
+ * Handle the decision modal submission
+ */
+export async function handleAppealDecisionSubmit(interaction: ModalSubmitInteraction): Promise<void> {
+  const [, , decision, ...rest] = interaction.customId.split('_');
+  const appealId = rest.join('_');
+  const reason = interaction.fields.getTextInputValue('decision_reason');
+
+  const appeal = await AppealModel.getById(appealId);
+  if (!appeal || appeal.guild_id !== interaction.guildId) {
+    await interaction.reply({ content: 'The appeal could not be found.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const infraction = await resolveAppeal(
+    interaction.client,
+    appeal,
+    decision === 'approve' ? 'APPROVED' : 'DENIED',
+    interaction.user.id,
+    reason
+  );
+
+  if (!infraction) {
+    await interaction.editReply({ content: 'This appeal has already been handled or is claimed by another moderator.' });
+    return;
+  }
+
+  const verb = decision === 'approve' ? 'approved' : 'denied';
+
+  try {
+    const message = interaction.message;
+
+    if (message?.editable) {
+      const embed = EmbedBuilder.from(message.embeds[0])
+        .setTitle(`${decision === 'approve' ? 'Approved' : 'Denied'} Appeal | ${infraction.type} | Case ${infraction.id}`)
+        .setColor(decision === 'approve' ? 0x00FF00 : 0xFF0000)
+        .addFields(
+          { name: `${decision === 'approve' ? 'Approval' : 'Denial'} Reason`, value: reason },
+          { name: 'Reviewed By', value: interaction.user.toString() }
+        )
+        .setTimestamp();
+
+      await message.edit({ embeds: [embed], components: [buildAppealDecisionRow(appeal.id, true)] });
+    }
+
+    await interaction.editReply({ content: `Appeal ${verb} successfully.` });
+  } catch (error) {
+    logWithEmoji('error', `Error updating appeal message: ${error}`, 'Appeals');
+    await interaction.editReply({
+      content: `Appeal ${verb} successfully, but there was an error updating the message.`
+    });
+  }
+}
+
+/**
+ * Record a decision on an appeal, lift the infraction if approved and DM the user
+ * @returns The appealed infraction, or null if the appeal was already decided or claimed by someone else
+ */
+export async function resolveAppeal(
+  client: Client,
+  appeal: Appeal,
+  status: 'APPROVED' | 'DENIED',
+  reviewerId: string,
+  reason: string
+): Promise<Infraction | null> {
+  const resolved = await AppealModel.resolve(appeal.id, status, reviewerId, reason);
+  if (!resolved) return null;
+
+  const infraction = (await InfractionModel.getById(appeal.case_id))!;
+  const guild = await client.guilds.fetch(appeal.guild_id).catch(() => null);
+
+  if (status === 'APPROVED' && infraction.active) {
+    await liftAppealedInfraction(client, guild, infraction, reviewerId, reason);
+  }
+
+  try {
+    const user = await client.users.fetch(appeal.user_id);
+    const reviewer = await client.users.fetch(reviewerId).catch(() => null);
+    const approved = status === 'APPROVED';
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Appeal ${approved ? 'Approved' : 'Denied'}`)
+      .setColor(approved ? 0x00FF00 : 0xFF0000)
+      .setDescription(
+        `Your appeal for the ${infraction.type.toLowerCase()} in ${guild?.name || 'the server'} has been ${approved ? 'approved' : 'denied'}.`
+      )
+      .addFields(
+        { name: 'Original Infraction', value: infraction.reason },
+        { name: 'Decision Reason', value: reason },
+        { name: 'Moderator', value: reviewer?.tag || reviewerId }
+      )
+      .setTimestamp();
+
+    await user.send({ embeds: [embed] });
+  } catch (error) {
+    logWithEmoji('warn', `Could not send appeal decision DM to ${appeal.user_id}: ${error}`, 'Appeals');
+  }
+
+  logWithEmoji('info', `Appeal ${appeal.id} ${status.toLowerCase()} by ${reviewerId}`, 'Appeals');
+  return infraction;
+}
+
+/**
+ * Undo the punishment behind an approved appeal
+ */
+async function liftAppealedInfraction(
+  client: Client,
+  guild: Guild | null,
+  infraction: Infraction,
+  reviewerId: string,
+  reason: string
+): Promise<void> {
+  const liftReason = `Appeal approved: ${reason}`;
+
+  switch (infraction.type) {
+    case 'MUTE':
+      if (guild) await unmuteUser(client, guild, infraction.user_id, liftReason, reviewerId);
+      break;
+
+    case 'BAN':
+      if (guild) await unbanUser(client, guild, infraction.user_id, liftReason, reviewerId);
+      break;
+
+    case 'WARNING':
+      await cancelJob(getWarningExpiryJobKey(infraction.id));
+      break;
+  }
+
+  // Covers warnings, and mutes or bans that were already lifted by hand
+  await InfractionModel.setInactive(infraction.id);
+
+  await InfractionEditModel.create({
+    infraction_id: infraction.id,
+    guild_id: infraction.guild_id,
+    editor_id: reviewerId,
+    field: 'active',
+    old_value: 'true',
+    new_value: 'false',
+    reason: liftReason
+  });
+}
+
+//=============================================================================
+// EVENT HANDLERS
+//=============================================================================
+
+/**
+ * Set up appeal button and modal handlers
+ */
+export function setupAppealHandlers(client: Client): void {
+  client.on(Events.InteractionCreate, async (interaction) => {
+    try {
+      if (interaction.isButton()) {
+        if (interaction.customId.startsWith('open_appeal_modal_')) {
+          await handleOpenAppealModal(interaction);
+        } else if (interaction.customId.startsWith('approve_appeal_') || interaction.customId.startsWith('deny_appeal_')) {
+          await handleAppealDecision(interaction);
+        }
+      } else if (interaction.isModalSubmit()) {
+        if (interaction.customId.startsWith('appeal_modal_')) {
+          await handleAppealModalSubmit(interaction);
+        } else if (interaction.customId.startsWith('appeal_decision_')) {
+          await handleAppealDecisionSubmit(interaction);
+        }
+      }
+    } catch (error) {
+      logWithEmoji('error', `Error handling appeal interaction: ${error}`, 'Appeals');
+    }
+  });
+}
+
+//=============================================================================
+// HELPERS
+//=============================================================================
+
+/**
+ * Get the moderator holding an appeal's claim, ignoring claims that have lapsed
+ */
+export function getClaimHolder(appeal: Appeal): string | null {
+  if (!appeal.claimed_by || !appeal.claimed_at) return null;
+
+  const expiresAt = fromDatabaseTimestamp(appeal.claimed_at).getTime() + APPEAL_CLAIM_TIMEOUT_MINUTES * 60 * 1000;
+  return expiresAt > Date.now() ? appeal.claimed_by : null;
+}
+
+/**
+ * Format an infraction type for titles, e.g. BAN -> Ban
+ */
+function formatType(type: string): string {
+  return type.charAt(0) + type.slice(1).toLowerCase();
+}
@@ -0,0 +1,203 @@
+/**
+ * Case Management
+ * ---------------
+ * Editing and voiding infractions with an audit trail
+ */
+
+import { Client, Guild } from 'discord.js';
+import { logWithEmoji } from '../../utils';
+import {
+  InfractionModel,
+  InfractionEditModel,
+  Infraction
+} from '../../database/models/legacy-models';
+import { cancelJob } from '../scheduler';
+import {
+  buildModLogEmbed,
+  sendModLog,
+  getModConfig,
+  unmuteUser,
+  unbanUser,
+  getWarningExpiryJobKey,
+  getUnmuteJobKey,
+  getUnbanJobKey
+} from './actions';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+/**
+ * What voiding a case did to the mute or ban it applied
+ * kept: another active case of the same type still applies, so the punishment stays
+ * absent: the role or ban was already gone, or the case never applied one
+ */
+export type VoidedPunishment = 'lifted' | 'failed' | 'kept' | 'absent';
+
+//=============================================================================
+// LOOKUP
+//=============================================================================
+
+/**
+ * Get a case by ID, only if it belongs to the given guild
+ */
+export async function getCase(guildId: string, caseId: string): Promise<Infraction | null> {
+  const infraction = await InfractionModel.getById(caseId.trim());
+
+  if (!infraction || infraction.guild_id !== guildId) {
+    return null;
+  }
+
+  return infraction;
+}
+
+//=============================================================================
+// EDITS
+//=============================================================================
+
+/**
+ * Change the reason on a case, recording the edit and re-posting the mod-log entry
+ * @returns The updated case
+ */
+export async function editCaseReason(
+  client: Client,
+  infraction: Infraction,
+  newReason: string,
+  editorId: string
+): Promise<Infraction> {
+  await InfractionModel.update(infraction.id, { reason: newReason });
+
+  await InfractionEditModel.create({
+    infraction_id: infraction.id,
+    guild_id: infraction.guild_id,
+    editor_id: editorId,
+    field: 'reason',
+    old_value: infraction.reason,
+    new_value: newReason
+  });
+
+  const updated = (await InfractionModel.getById(infraction.id))!;
+
+  await logCaseChange(client, updated, 'Edited', editorId, [
+    { name: 'Previous Reason', value: infraction.reason }
+  ]);
+
+  logWithEmoji('info', `Case ${infraction.id} reason edited by ${editorId}`, 'Moderation');
+  return updated;
+}
+
+/**
+ * Void a mistaken case, lifting the mute or ban it applies unless another active case still does
+ * The case is voided even if Discord refuses to lift the punishment
+ * @returns The voided case, and what happened to its mute or ban
+ */
+export async function voidCase(
+  client: Client,
+  guild: Guild,
+  infraction: Infraction,
+  editorId: string,
+  reason: string
+): Promise<{ infraction: Infraction; punishment: VoidedPunishment }> {
+  let punishment: VoidedPunishment = 'absent';
+
+  if (infraction.active) {
+    switch (infraction.type) {
+      case 'MUTE':
+      case 'BAN':
+        punishment = await liftVoidedPunishment(client, guild, infraction, editorId, reason);
+        break;
+
+      case 'WARNING':
+        await cancelJob(getWarningExpiryJobKey(infraction.id));
+        break;
+    }
+  }
+
+  await InfractionModel.setInactive(infraction.id);
+
+  await InfractionEditModel.create({
+    infraction_id: infraction.id,
+    guild_id: infraction.guild_id,
+    editor_id: editorId,
+    field: 'active',
+    old_value: infraction.active ? 'true' : 'false',
+    new_value: 'false',
+    reason
+  });
+
+  const updated = (await InfractionModel.getById(infraction.id))!;
+
+  await logCaseChange(client, updated, 'Voided', editorId, [
+    { name: 'Void Reason', value: reason },
+    ...(punishment === 'failed' ? [{ name: 'Note', value: `The ${infraction.type.toLowerCase()} could not be lifted` }] : []),
+    ...(punishment === 'kept' ? [{ name: 'Note', value: `Another active ${infraction.type.toLowerCase()} still applies` }] : [])
+  ]);
+
+  logWithEmoji('info', `Case ${infraction.id} voided by ${editorId}: ${reason}`, 'Moderation');
+  return { infraction: updated, punishment };
+}
+
+/**
+ * Lift a voided case's mute or ban, but only when no other active case of the same type applies
+ * Unmuting and unbanning end every active case of that type, so a newer sanction would be lifted with it
+ */
+async function liftVoidedPunishment(
+  client: Client,
+  guild: Guild,
+  infraction: Infraction,
+  editorId: string,
+  reason: string
+): Promise<VoidedPunishment> {
+  const others = (await InfractionModel.getActiveByUser(guild.id, infraction.user_id))
+    .filter(other => other.type === infraction.type && other.id !== infraction.id);
+
+  if (others.length > 0) return 'kept';
+
+  const liftReason = `Case ${infraction.id} voided: ${reason}`;
+
+  if (infraction.type === 'MUTE') {
+    const config = await getModConfig(guild);
+    const member = await guild.members.fetch(infraction.user_id).catch(() => null);
+
+    if (!config.muted_role_id || !member || !member.roles.cache.has(config.muted_role_id)) {
+      await cancelJob(getUnmuteJobKey(guild.id, infraction.user_id));
+      return 'absent';
+    }
+
+    return await unmuteUser(client, guild, infraction.user_id, liftReason, editorId) ? 'lifted' : 'failed';
+  }
+
+  const ban = await guild.bans.fetch(infraction.user_id).catch(() => null);
+  if (!ban) {
+    await cancelJob(getUnbanJobKey(guild.id, infraction.user_id));
+    return 'absent';
+  }
+
+  return await unbanUser(client, guild, infraction.user_id, liftReason, editorId) ? 'lifted' : 'failed';
+}
+
+/**
+ * Re-post a case's mod-log embed with details of the change
+ */
+async function logCaseChange(
+  client: Client,
+  infraction: Infraction,
+  label: string,
+  editorId: string,
+  fields: { name: string; value: string }[]
+): Promise<void> {
+  try {
+    const embed = await buildModLogEmbed(client, infraction);
+
+    embed
+      .setTitle(`${infraction.type} | Case ${infraction.id} (${label})`)
+      .addFields(
+        ...fields,
+        { name: `${label} By`, value: `<@${editorId}>` }
+      );
+
+    await sendModLog(client, infraction.guild_id, embed);
+  } catch (error) {
+    logWithEmoji('error', `Error logging case change: ${error}`, 'Moderation');
+  }
+}
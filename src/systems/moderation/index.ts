@@ -0,0 +1,48 @@
+/**
+ * Moderation System for The Roommates Helper
+ * -----------------------------------------
+ * Warnings, mutes, bans and appeals persisted through the infractions table
+ */
+
+import { Client } from 'discord.js';
+import { BotSystem } from '../../types';
+import { logWithEmoji } from '../../utils';
+import { registerModerationJobs, scheduleMissingExpiryJobs } from './jobs';
+import { setupAppealHandlers } from './appeals';
+import { setupAppealQueueHandlers } from './appeal-queue';
+
+//=============================================================================
+// MODERATION SYSTEM IMPLEMENTATION
+//=============================================================================
+
+export const moderationSystem: BotSystem = {
+  name: 'Moderation',
+  enabled: true,
+  dependencies: ['Scheduler'],
+
+  setup: async (client: Client) => {
+    logWithEmoji('info', 'Setting up moderation system...', 'Moderation');
+
+    // Timed mutes and bans are lifted by the scheduler
+    registerModerationJobs();
+    await scheduleMissingExpiryJobs();
+
+    setupAppealHandlers(client);
+    setupAppealQueueHandlers(client);
+
+    logWithEmoji('success', 'Moderation system initialized', 'Moderation');
+  },
+
+  cleanup: async () => {
+    logWithEmoji('info', 'Cleaning up moderation system...', 'Moderation');
+  }
+};
+
+//=============================================================================
+// EXPORTS
+//=============================================================================
+
+export * from './actions';
+export * from './cases';
+export * from './appeals';
+export * from './appeal-queue';
@@ -0,0 +1,158 @@
+/**
+ * Moderation Jobs
+ * ---------------
+ * Scheduled job handlers for timed moderation actions
+ */
+
+import { Client } from 'discord.js';
+import { logWithEmoji } from '../../utils';
+import { fromDatabaseTimestamp } from '../../database';
+import { InfractionModel, ModConfigModel } from '../../database/models/legacy-models';
+import { registerJobHandler, scheduleJob, ScheduledJobTypes } from '../scheduler';
+import { unmuteUser, unbanUser, getUnmuteJobKey, getUnbanJobKey, getWarningExpiryJobKey } from './actions';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+interface MemberJobPayload {
+  guildId: string;
+  userId: string;
+}
+
+interface WarningJobPayload {
+  infractionId: string;
+}
+
+//=============================================================================
+// REGISTRATION
+//=============================================================================
+
+/**
+ * Register moderation job handlers with the scheduler
+ */
+export function registerModerationJobs(): void {
+  registerJobHandler<MemberJobPayload>(ScheduledJobTypes.UNMUTE, handleUnmuteJob);
+  registerJobHandler<MemberJobPayload>(ScheduledJobTypes.UNBAN, handleUnbanJob);
+  registerJobHandler<WarningJobPayload>(ScheduledJobTypes.EXPIRE_WARNING, handleExpireWarningJob);
+}
+
+/**
+ * Schedule jobs for timed infractions that don't have one yet
+ * Covers mutes, bans and warnings issued before the scheduler existed
+ */
+export async function scheduleMissingExpiryJobs(): Promise<void> {
+  const timedInfractions = [
+    ...(await InfractionModel.getActiveExpiring('MUTE')),
+    ...(await InfractionModel.getActiveExpiring('BAN'))
+  ];
+
+  for (const infraction of timedInfractions) {
+    const isMute = infraction.type === 'MUTE';
+    const payload: MemberJobPayload = { guildId: infraction.guild_id, userId: infraction.user_id };
+
+    // Dedupe keys make this a reschedule when a job already exists
+    await scheduleJob(
+      isMute ? ScheduledJobTypes.UNMUTE : ScheduledJobTypes.UNBAN,
+      fromDatabaseTimestamp(infraction.expires_at!),
+      payload,
+      {
+        guildId: infraction.guild_id,
+        dedupeKey: isMute
+          ? getUnmuteJobKey(infraction.guild_id, infraction.user_id)
+          : getUnbanJobKey(infraction.guild_id, infraction.user_id)
+      }
+    );
+  }
+
+  const expiringWarnings = await InfractionModel.getActiveExpiring('WARNING');
+
+  for (const warning of expiringWarnings) {
+    await scheduleJob(
+      ScheduledJobTypes.EXPIRE_WARNING,
+      fromDatabaseTimestamp(warning.expires_at!),
+      { infractionId: warning.id },
+      { guildId: warning.guild_id, dedupeKey: getWarningExpiryJobKey(warning.id) }
+    );
+  }
+
+  const total = timedInfractions.length + expiringWarnings.length;
+  if (total > 0) {
+    logWithEmoji('info', `Scheduled expiry for ${total} timed infraction(s)`, 'Moderation');
+  }
+}
+
+//=============================================================================
+// HANDLERS
+//=============================================================================
+
+/**
+ * Remove an expired mute
+ */
+async function handleUnmuteJob(client: Client, payload: MemberJobPayload): Promise<void> {
+  const { guildId, userId } = payload;
+
+  const activeMutes = (await InfractionModel.getActiveByUser(guildId, userId))
+    .filter(infraction => infraction.type === 'MUTE');
+
+  // Already unmuted by a moderator or a previous run
+  if (activeMutes.length === 0) return;
+
+  const guild = await client.guilds.fetch(guildId).catch(() => null);
+  const member = guild ? await guild.members.fetch(userId).catch(() => null) : null;
+  const config = await ModConfigModel.getByGuildId(guildId);
+
+  // Nothing left to remove if the member left or the role was taken off manually
+  if (!guild || !member || !config?.muted_role_id || !member.roles.cache.has(config.muted_role_id)) {
+    for (const mute of activeMutes) {
+      await InfractionModel.setInactive(mute.id);
+    }
+    return;
+  }
+
+  const success = await unmuteUser(client, guild, userId, 'Mute expired', 'System');
+  if (!success) {
+    throw new Error(`Failed to unmute ${userId} in ${guildId}`);
+  }
+}
+
+/**
+ * Lift an expired temporary ban
+ */
+async function handleUnbanJob(client: Client, payload: MemberJobPayload): Promise<void> {
+  const { guildId, userId } = payload;
+
+  const activeBans = (await InfractionModel.getActiveByUser(guildId, userId))
+    .filter(infraction => infraction.type === 'BAN');
+
+  // Already unbanned by a moderator or a previous run
+  if (activeBans.length === 0) return;
+
+  const guild = await client.guilds.fetch(guildId).catch(() => null);
+  const ban = guild ? await guild.bans.fetch(userId).catch(() => null) : null;
+
+  // Nothing left to lift if the bot left the guild or the ban was removed manually
+  if (!guild || !ban) {
+    for (const infraction of activeBans) {
+      await InfractionModel.setInactive(infraction.id);
+    }
+    return;
+  }
+
+  const success = await unbanUser(client, guild, userId, 'Temporary ban expired', 'System');
+  if (!success) {
+    throw new Error(`Failed to unban ${userId} in ${guildId}`);
+  }
+}
+
+/**
+ * Deactivate a warning that has reached its expiry
+ */
+async function handleExpireWarningJob(client: Client, payload: WarningJobPayload): Promise<void> {
+  const warning = await InfractionModel.getById(payload.infractionId);
+
+  // Deleted, cleared or already expired
+  if (!warning || !warning.active) return;
+
+  await InfractionModel.setInactive(warning.id);
+}
@@ -0,0 +1,211 @@
+/**
+ * Scheduler System for The Roommates Helper
+ * ----------------------------------------
+ * Persistent job scheduler backed by SQLite so timed actions survive restarts
+ */
+
+import { Client, Events } from 'discord.js';
+import { BotSystem } from '../../types';
+import { logWithEmoji } from '../../utils';
+import { ScheduledJob, ScheduledJobModel } from '../../database/models/scheduler';
+import { ScheduledJobHandler, ScheduleJobOptions } from './types';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+const POLL_INTERVAL = 15 * 1000; // 15 seconds
+const POLL_BATCH_SIZE = 25;
+const RETRY_BASE_DELAY = 30 * 1000; // 30 seconds
+const RETRY_MAX_DELAY = 60 * 60 * 1000; // 1 hour
+const FINISHED_JOB_RETENTION_DAYS = 30;
+
+//=============================================================================
+// STATE
+//=============================================================================
+
+const jobHandlers = new Map<string, ScheduledJobHandler>();
+let pollInterval: NodeJS.Timeout | null = null;
+let polling = false;
+
+//=============================================================================
+// SCHEDULER SYSTEM IMPLEMENTATION
+//=============================================================================
+
+export const schedulerSystem: BotSystem = {
+  name: 'Scheduler',
+  enabled: true,
+
+  setup: async (client: Client) => {
+    logWithEmoji('info', 'Setting up job scheduler...', 'Scheduler');
+
+    // Jobs that were mid-run when the process died get another go
+    const requeued = await ScheduledJobModel.requeueStale();
+    if (requeued > 0) {
+      logWithEmoji('warn', `Requeued ${requeued} job(s) interrupted by a restart`, 'Scheduler');
+    }
+
+    const purged = await ScheduledJobModel.purgeFinished(FINISHED_JOB_RETENTION_DAYS);
+    if (purged > 0) {
+      logWithEmoji('info', `Purged ${purged} finished job(s)`, 'Scheduler');
+    }
+
+    // Handlers need guilds, so only start polling once the client is ready
+    if (client.isReady()) {
+      startPolling(client);
+    } else {
+      client.once(Events.ClientReady, () => startPolling(client));
+    }
+
+    logWithEmoji('success', 'Job scheduler initialized', 'Scheduler');
+  },
+
+  cleanup: async () => {
+    logWithEmoji('info', 'Cleaning up job scheduler...', 'Scheduler');
+    stopPolling();
+  }
+};
+
+//=============================================================================
+// PUBLIC API
+//=============================================================================
+
+/**
+ * Register the handler for a job type
+ */
+export function registerJobHandler<TPayload = any>(type: string, handler: ScheduledJobHandler<TPayload>): void {
+  if (jobHandlers.has(type)) {
+    logWithEmoji('warn', `Replacing existing handler for job type: ${type}`, 'Scheduler');
+  }
+
+  jobHandlers.set(type, handler);
+}
+
+/**
+ * Schedule a job to run at the given time
+ * @returns The job ID
+ */
+export async function scheduleJob(
+  type: string,
+  runAt: Date | number,
+  payload: Record<string, any> = {},
+  options: ScheduleJobOptions = {}
+): Promise<number> {
+  const jobId = await ScheduledJobModel.create({
+    type,
+    guild_id: options.guildId,
+    payload,
+    run_at: runAt,
+    max_attempts: options.maxAttempts,
+    dedupe_key: options.dedupeKey
+  });
+
+  logWithEmoji('info', `Scheduled ${type} job #${jobId} for ${new Date(runAt).toISOString()}`, 'Scheduler');
+  return jobId;
+}
+
+/**
+ * Cancel the pending job for a dedupe key
+ * @returns Whether a job was cancelled
+ */
+export async function cancelJob(dedupeKey: string): Promise<boolean> {
+  const cancelled = await ScheduledJobModel.cancelByDedupeKey(dedupeKey);
+  return cancelled > 0;
+}
+
+/**
+ * Run every job that is currently due
+ * @returns Number of jobs processed
+ */
+export async function runDueJobs(client: Client): Promise<number> {
+  // Skip if the previous poll is still working through its batch
+  if (polling) return 0;
+  polling = true;
+
+  try {
+    const dueJobs = await ScheduledJobModel.getDue(POLL_BATCH_SIZE);
+
+    for (const job of dueJobs) {
+      await runJob(client, job);
+    }
+
+    return dueJobs.length;
+  } catch (error) {
+    logWithEmoji('error', `Error polling scheduled jobs: ${error}`, 'Scheduler');
+    return 0;
+  } finally {
+    polling = false;
+  }
+}
+
+//=============================================================================
+// JOB EXECUTION
+//=============================================================================
+
+/**
+ * Claim and run a single job, recording the outcome
+ */
+async function runJob(client: Client, job: ScheduledJob): Promise<void> {
+  if (!(await ScheduledJobModel.claim(job.id))) return;
+
+  const attempt = job.attempts + 1;
+  const handler = jobHandlers.get(job.type);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type: ${job.type}`);
+    }
+
+    await handler(client, JSON.parse(job.payload), job);
+    await ScheduledJobModel.complete(job.id);
+    logWithEmoji('success', `Completed ${job.type} job #${job.id}`, 'Scheduler');
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (attempt >= job.max_attempts) {
+      await ScheduledJobModel.fail(job.id, message);
+      logWithEmoji('error', `${job.type} job #${job.id} failed permanently after ${attempt} attempt(s): ${message}`, 'Scheduler');
+      return;
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY * Math.pow(2, attempt - 1), RETRY_MAX_DELAY);
+    if (!(await ScheduledJobModel.fail(job.id, message, Date.now() + delay))) {
+      logWithEmoji('warn', `${job.type} job #${job.id} failed and was not retried, as it has since been rescheduled: ${message}`, 'Scheduler');
+      return;
+    }
+    logWithEmoji('warn', `${job.type} job #${job.id} failed (attempt ${attempt}/${job.max_attempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`, 'Scheduler');
+  }
+}
+
+/**
+ * Start polling for due jobs
+ */
+function startPolling(client: Client): void {
+  stopPolling();
+
+  // Catch up on anything that fell due while the bot was offline
+  runDueJobs(client);
+
+  pollInterval = setInterval(() => {
+    runDueJobs(client);
+  }, POLL_INTERVAL);
+
+  logWithEmoji('info', `Polling for scheduled jobs every ${POLL_INTERVAL / 1000}s`, 'Scheduler');
+}
+
+/**
+ * Stop polling for due jobs
+ */
+function stopPolling(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+}
+
+//=============================================================================
+// EXPORTS
+//=============================================================================
+
+export * from './types';
@@ -0,0 +1,58 @@
+/**
+ * Scheduler System Types
+ * ---------------------
+ * Type definitions for the persistent job scheduler
+ */
+
+import { Client } from 'discord.js';
+import { ScheduledJob } from '../../database/models/scheduler';
+
+//=============================================================================
+// JOB TYPES
+//=============================================================================
+
+/**
+ * Job types handled by the scheduler
+ */
+export const ScheduledJobTypes = {
+  /** Remove an expired mute */
+  UNMUTE: 'moderation.unmute',
+  /** Lift an expired temporary ban */
+  UNBAN: 'moderation.unban',
+  /** Deactivate a warning once it reaches its expiry */
+  EXPIRE_WARNING: 'moderation.expire_warning',
+  /** Expire a verification the user never completed */
+  VERIFICATION_TIMEOUT: 'verification.timeout',
+  /** Take a scheduled database backup and rotate old ones */
+  DATABASE_BACKUP: 'database.backup'
+} as const;
+
+export type ScheduledJobType = typeof ScheduledJobTypes[keyof typeof ScheduledJobTypes];
+
+//=============================================================================
+// HANDLER TYPES
+//=============================================================================
+
+/**
+ * Handler for a scheduled job
+ * Handlers must be idempotent: a job may run again after a crash or a retry,
+ * so they should check whether their work is still needed before acting.
+ * Throwing marks the run as failed and schedules a retry.
+ */
+export type ScheduledJobHandler<TPayload = any> = (
+  client: Client,
+  payload: TPayload,
+  job: ScheduledJob
+) => Promise<void>;
+
+/**
+ * Options when scheduling a job
+ */
+export interface ScheduleJobOptions {
+  /** Guild the job belongs to */
+  guildId?: string;
+  /** Replaces any pending job with the same key instead of adding another */
+  dedupeKey?: string;
+  /** Maximum number of runs before the job is marked failed (default: 5) */
+  maxAttempts?: number;
+}
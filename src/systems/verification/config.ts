@@ -1,11 +1,13 @@
 /**
  * Verification Configuration Management
  * -----------------------------------
- * Handles verification system configuration with legacy JSON support
+ * Per-guild verification configuration, with a one-time import of the legacy JSON file
  */
 
 import fs from 'fs';
-import { VerificationConfigModel } from '../../database/models/verification';
+import { Client, Guild } from 'discord.js';
+import { VerificationConfig, VerificationConfigModel } from '../../database/models/verification';
+import { GuildModel } from '../../database/models/legacy-models';
 import { logWithEmoji } from '../../utils';
 
 //=============================================================================
@@ -21,120 +23,68 @@ interface LegacyVerificationConfig {
 // Legacy file path
 const LEGACY_CONFIG_FILE = './verification_config.json';
 
-// Global variables for legacy support
-let MOD_CHANNEL_ID: string | undefined;
-let AGE_UNVERIFIED_ROLE_ID: string | undefined;
+// 18+ role that was hardcoded before it became part of each guild's config
+const LEGACY_VERIFIED_ROLE_ID = '1344892607255547944';
 
 //=============================================================================
-// CONFIGURATION LOADING
+// LEGACY IMPORT
 //=============================================================================
 
 /**
  * Load verification config from legacy JSON file
  */
-export function loadVerificationConfig(): void {
+function loadLegacyVerificationConfig(): LegacyVerificationConfig {
   try {
     if (fs.existsSync(LEGACY_CONFIG_FILE)) {
-      const configData = JSON.parse(fs.readFileSync(LEGACY_CONFIG_FILE, 'utf8')) as LegacyVerificationConfig;
-      
-      if (configData.MOD_CHANNEL_ID) {
-        MOD_CHANNEL_ID = configData.MOD_CHANNEL_ID;
-        logWithEmoji('info', `Loaded verification channel ID: ${MOD_CHANNEL_ID}`, 'Verification');
-      }
-      
-      if (configData.AGE_UNVERIFIED_ROLE_ID) {
-        AGE_UNVERIFIED_ROLE_ID = configData.AGE_UNVERIFIED_ROLE_ID;
-        logWithEmoji('info', `Loaded Age Unverified role ID: ${AGE_UNVERIFIED_ROLE_ID}`, 'Verification');
-      }
-    } else {
-      logWithEmoji('warn', 'No legacy verification config found', 'Verification');
+      return JSON.parse(fs.readFileSync(LEGACY_CONFIG_FILE, 'utf8')) as LegacyVerificationConfig;
     }
   } catch (error) {
-    logWithEmoji('error', `Error loading verification config: ${error}`, 'Verification');
+    logWithEmoji('error', `Error loading legacy verification config: ${error}`, 'Verification');
   }
+
+  return {};
 }
 
 /**
- * Save verification config to legacy JSON file
+ * Fill in missing guild config from the legacy single-server settings
+ * IDs are unique across Discord, so the legacy values belong to whichever guild contains them
  */
-function saveVerificationConfig(channelId: string, unverifiedRoleId?: string): void {
-  try {
-    // Load existing config first
-    let configData: LegacyVerificationConfig = {};
-    if (fs.existsSync(LEGACY_CONFIG_FILE)) {
-      configData = JSON.parse(fs.readFileSync(LEGACY_CONFIG_FILE, 'utf8'));
-    }
-    
-    // Update values
-    configData.MOD_CHANNEL_ID = channelId;
-    MOD_CHANNEL_ID = channelId;
-    
-    // Only update unverified role ID if provided
-    if (unverifiedRoleId) {
-      configData.AGE_UNVERIFIED_ROLE_ID = unverifiedRoleId;
-      AGE_UNVERIFIED_ROLE_ID = unverifiedRoleId;
-    }
-    
-    fs.writeFileSync(LEGACY_CONFIG_FILE, JSON.stringify(configData, null, 2));
-    logWithEmoji('success', 'Verification config saved to legacy file', 'Verification');
-  } catch (error) {
-    logWithEmoji('error', `Error saving verification config: ${error}`, 'Verification');
-    throw error;
-  }
-}
+export async function importLegacyVerificationConfig(client: Client): Promise<void> {
+  const legacy = loadLegacyVerificationConfig();
 
-//=============================================================================
-// DATABASE INTEGRATION
-//=============================================================================
+  for (const guild of client.guilds.cache.values()) {
+    try {
+      const updates: Partial<VerificationConfig> = {};
 
-/**
- * Initialize verification configuration from legacy data
- */
-export async function initializeVerificationConfig(): Promise<void> {
-  try {
-    // If we have legacy config and environment guild ID, migrate to database
-    const guildId = process.env.GUILD_ID || process.env.SERVER_ID;
-    
-    if (guildId && (MOD_CHANNEL_ID || AGE_UNVERIFIED_ROLE_ID)) {
-      logWithEmoji('info', 'Migrating legacy verification config to database...', 'Verification');
-      
-      // Check if config already exists in database
-      let config = await VerificationConfigModel.getByGuildId(guildId);
-      
-      if (!config) {
-        // Create new config with legacy data
-        await VerificationConfigModel.upsert({
-          guild_id: guildId,
-          mod_channel_id: MOD_CHANNEL_ID,
-          age_unverified_role_id: AGE_UNVERIFIED_ROLE_ID,
-          enabled: true
-        });
-        
-        logWithEmoji('success', 'Legacy verification config migrated to database', 'Verification');
-      } else {
-        // Update existing config with legacy data if fields are missing
-        const updates: any = {};
-        
-        if (!config.mod_channel_id && MOD_CHANNEL_ID) {
-          updates.mod_channel_id = MOD_CHANNEL_ID;
-        }
-        
-        if (!config.age_unverified_role_id && AGE_UNVERIFIED_ROLE_ID) {
-          updates.age_unverified_role_id = AGE_UNVERIFIED_ROLE_ID;
-        }
-        
-        if (Object.keys(updates).length > 0) {
-          await VerificationConfigModel.upsert({
-            guild_id: guildId,
-            ...updates
-          });
-          
-          logWithEmoji('success', 'Updated verification config with legacy data', 'Verification');
-        }
+      if (legacy.MOD_CHANNEL_ID && guild.channels.cache.has(legacy.MOD_CHANNEL_ID)) {
+        updates.mod_channel_id = legacy.MOD_CHANNEL_ID;
+      }
+
+      if (legacy.AGE_UNVERIFIED_ROLE_ID && guild.roles.cache.has(legacy.AGE_UNVERIFIED_ROLE_ID)) {
+        updates.age_unverified_role_id = legacy.AGE_UNVERIFIED_ROLE_ID;
+      }
+
+      if (guild.roles.cache.has(LEGACY_VERIFIED_ROLE_ID)) {
+        updates.verified_role_id = LEGACY_VERIFIED_ROLE_ID;
       }
+
+      if (Object.keys(updates).length === 0) continue;
+
+      // Values set through /modverify since win over the legacy ones
+      const config = await VerificationConfigModel.getByGuildId(guild.id);
+      if (config?.mod_channel_id) delete updates.mod_channel_id;
+      if (config?.age_unverified_role_id) delete updates.age_unverified_role_id;
+      if (config?.verified_role_id) delete updates.verified_role_id;
+
+      if (Object.keys(updates).length === 0) continue;
+
+      await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+      await VerificationConfigModel.upsert({ guild_id: guild.id, ...updates });
+
+      logWithEmoji('success', `Imported legacy verification config for ${guild.name}`, 'Verification');
+    } catch (error) {
+      logWithEmoji('error', `Error importing legacy verification config for ${guild.name}: ${error}`, 'Verification');
     }
-  } catch (error) {
-    logWithEmoji('error', `Error initializing verification config: ${error}`, 'Verification');
   }
 }
 
@@ -145,18 +95,13 @@ export async function initializeVerificationConfig(): Promise<void> {
 /**
  * Set verification channel for a guild
  */
-export async function setVerificationChannel(guildId: string, channelId: string): Promise<void> {
+export async function setVerificationChannel(guild: Guild, channelId: string): Promise<void> {
   try {
-    // Update database
-    await VerificationConfigModel.setModChannel(guildId, channelId);
-    
-    // Update legacy file for backward compatibility
-    saveVerificationConfig(channelId, AGE_UNVERIFIED_ROLE_ID);
-    
-    // Update global variable
-    MOD_CHANNEL_ID = channelId;
-    
-    logWithEmoji('success', `Verification channel set to ${channelId}`, 'Verification');
+    // verification_config rows need their guild row
+    await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+    await VerificationConfigModel.setModChannel(guild.id, channelId);
+
+    logWithEmoji('success', `Verification channel for ${guild.name} set to ${channelId}`, 'Verification');
   } catch (error) {
     logWithEmoji('error', `Error setting verification channel: ${error}`, 'Verification');
     throw error;
@@ -166,18 +111,12 @@ export async function setVerificationChannel(guildId: string, channelId: string)
 /**
  * Set age unverified role for a guild
  */
-export async function setAgeUnverifiedRole(guildId: string, roleId: string): Promise<void> {
+export async function setAgeUnverifiedRole(guild: Guild, roleId: string): Promise<void> {
   try {
-    // Update database
-    await VerificationConfigModel.setAgeUnverifiedRole(guildId, roleId);
-    
-    // Update legacy file for backward compatibility
-    saveVerificationConfig(MOD_CHANNEL_ID || '', roleId);
-    
-    // Update global variable
-    AGE_UNVERIFIED_ROLE_ID = roleId;
-    
-    logWithEmoji('success', `Age unverified role set to ${roleId}`, 'Verification');
+    await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+    await VerificationConfigModel.setAgeUnverifiedRole(guild.id, roleId);
+
+    logWithEmoji('success', `Age unverified role for ${guild.name} set to ${roleId}`, 'Verification');
   } catch (error) {
     logWithEmoji('error', `Error setting age unverified role: ${error}`, 'Verification');
     throw error;
@@ -185,52 +124,43 @@ export async function setAgeUnverifiedRole(guildId: string, roleId: string): Pro
 }
 
 /**
- * Get verification configuration for a guild
+ * Set the role granted on approval for a guild
  */
-export async function getVerificationConfig(guildId: string): Promise<any> {
+export async function setVerifiedRole(guild: Guild, roleId: string): Promise<void> {
   try {
-    const config = await VerificationConfigModel.getByGuildId(guildId);
-    
-    // Fall back to legacy config if database config doesn't exist
-    if (!config && (MOD_CHANNEL_ID || AGE_UNVERIFIED_ROLE_ID)) {
-      return {
-        guild_id: guildId,
-        mod_channel_id: MOD_CHANNEL_ID,
-        age_unverified_role_id: AGE_UNVERIFIED_ROLE_ID,
-        enabled: true
-      };
-    }
-    
-    return config;
+    await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+    await VerificationConfigModel.setVerifiedRole(guild.id, roleId);
+
+    logWithEmoji('success', `Verified role for ${guild.name} set to ${roleId}`, 'Verification');
   } catch (error) {
-    logWithEmoji('error', `Error getting verification config: ${error}`, 'Verification');
-    return null;
+    logWithEmoji('error', `Error setting verified role: ${error}`, 'Verification');
+    throw error;
   }
 }
 
-//=============================================================================
-// LEGACY GETTERS (for backward compatibility)
-//=============================================================================
-
 /**
- * Get the age unverified role ID (legacy support)
+ * Turn verification on or off for a guild
  */
-export function getAgeUnverifiedRoleId(): string | undefined {
-  return AGE_UNVERIFIED_ROLE_ID;
+export async function setVerificationEnabled(guild: Guild, enabled: boolean): Promise<void> {
+  try {
+    await GuildModel.upsert(guild.id, guild.name, guild.iconURL() || undefined, guild.memberCount);
+    await VerificationConfigModel.upsert({ guild_id: guild.id, enabled });
+
+    logWithEmoji('success', `Verification ${enabled ? 'enabled' : 'disabled'} for ${guild.name}`, 'Verification');
+  } catch (error) {
+    logWithEmoji('error', `Error changing verification state: ${error}`, 'Verification');
+    throw error;
+  }
 }
 
 /**
- * Get the mod channel ID (legacy support)
+ * Get verification configuration for a guild
  */
-export function getModChannelId(): string | undefined {
-  return MOD_CHANNEL_ID;
+export async function getVerificationConfig(guildId: string): Promise<VerificationConfig | null> {
+  try {
+    return await VerificationConfigModel.getByGuildId(guildId);
+  } catch (error) {
+    logWithEmoji('error', `Error getting verification config: ${error}`, 'Verification');
+    return null;
+  }
 }
-
-//=============================================================================
-// EXPORTS
-//=============================================================================
-
-export {
-  MOD_CHANNEL_ID,
-  AGE_UNVERIFIED_ROLE_ID
-};
@@ -17,19 +17,202 @@ import {
   TextInputStyle,
   ChannelType,
   GuildMember,
-  MessageFlags
+  MessageFlags,
+  Client,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction
 } from 'discord.js';
 import { logWithEmoji } from '../../utils';
-import { VerificationConfigModel } from '../../database/models/verification';
-import { PendingVerification } from './types';
+import { 
+  VerificationConfigModel, 
+  VerificationLogModel, 
+  VerificationImageModel, 
+  PendingVerificationModel, 
+  PendingVerificationRecord 
+} from '../../database/models/verification';
+import { fromDatabaseTimestamp } from '../../database';
+import { PendingVerification, VerificationAction, VerificationDecision } from './types';
 import { grantVerification } from './index';
-
-// Cache for pending verifications
-const pendingVerifications = new Map<string, PendingVerification>();
+import { scheduleJob, cancelJob, ScheduledJobTypes } from '../scheduler';
+import { redactDecidedVerification } from './redaction';
 
 // Constants
 const VERIFICATION_TIMEOUT = 15 * 60 * 1000; // 15 minutes
 
+// Decision menu options, with how each outcome is shown on the review and logged
+const DECISIONS: Record<VerificationDecision, {
+  label: string;
+  description: string;
+  emoji: string;
+  outcome: string;
+  color: number;
+  action: VerificationAction;
+}> = {
+  approve: {
+    label: 'Approve',
+    description: 'Grant the 18+ and NSFW access roles',
+    emoji: '✅',
+    outcome: 'Approved',
+    color: 0x00FF00,
+    action: 'approved'
+  },
+  resubmit: {
+    label: 'Request Resubmission',
+    description: 'Ask for a new photo, e.g. blurry or cropped',
+    emoji: '🔁',
+    outcome: 'Resubmission Requested',
+    color: 0xFFCC00,
+    action: 'resubmit_requested'
+  },
+  deny: {
+    label: 'Deny',
+    description: 'Deny and keep the user as unverified',
+    emoji: '❌',
+    outcome: 'Denied',
+    color: 0xFF0000,
+    action: 'denied'
+  },
+  kick: {
+    label: 'Deny & Kick',
+    description: 'Deny and kick the user from the server',
+    emoji: '👢',
+    outcome: 'Denied & Kicked',
+    color: 0xFF0000,
+    action: 'denied_kicked'
+  },
+  ban: {
+    label: 'Deny & Ban',
+    description: 'Deny and ban the user from the server',
+    emoji: '🔨',
+    outcome: 'Denied & Banned',
+    color: 0xFF0000,
+    action: 'denied_banned'
+  }
+};
+
+//=============================================================================
+// PENDING VERIFICATIONS
+//=============================================================================
+
+/**
+ * Convert a stored row into a pending verification
+ */
+function toPendingVerification(row: PendingVerificationRecord): PendingVerification {
+  return {
+    userId: row.user_id,
+    guildId: row.guild_id,
+    timestamp: fromDatabaseTimestamp(row.timestamp).getTime(),
+    step: row.step,
+    dmChannelId: row.dm_channel_id || undefined,
+    messageId: row.message_id || undefined,
+    attachmentUrl: row.attachment_url || undefined
+  };
+}
+
+/**
+ * Get a user's pending verification in a guild
+ */
+async function getPendingVerification(userId: string, guildId: string): Promise<PendingVerification | null> {
+  const row = await PendingVerificationModel.get(userId, guildId);
+  return row ? toPendingVerification(row) : null;
+}
+
+/**
+ * Get a user's most recent pending verification in any guild, for DMs that don't say which guild
+ */
+async function getLatestPendingVerification(
+  userId: string, 
+  step?: PendingVerification['step']
+): Promise<PendingVerification | null> {
+  const [row] = await PendingVerificationModel.getByUser(userId, step);
+  return row ? toPendingVerification(row) : null;
+}
+
+/**
+ * Persist a pending verification after it changes
+ */
+async function savePendingVerification(verification: PendingVerification): Promise<void> {
+  await PendingVerificationModel.upsert({
+    user_id: verification.userId,
+    guild_id: verification.guildId,
+    step: verification.step,
+    dm_channel_id: verification.dmChannelId,
+    message_id: verification.messageId,
+    attachment_url: verification.attachmentUrl,
+    timestamp: verification.timestamp
+  });
+}
+
+/**
+ * Pick up verifications left in progress by a previous process
+ * Unfinished ones get their timeout back; reviews need nothing, as the mod buttons carry the user ID
+ */
+export async function restorePendingVerifications(): Promise<void> {
+  const rows = await PendingVerificationModel.getAll();
+  let reviewing = 0;
+  
+  for (const row of rows) {
+    // A decision cut short by the restart goes back to the moderators
+    if (row.step === 'completed') {
+      await PendingVerificationModel.releaseDecision(row.user_id, row.guild_id);
+    }
+    
+    if (row.step === 'reviewing' || row.step === 'completed') {
+      reviewing++;
+      continue;
+    }
+    
+    // Reschedules the existing job if there is one, and overdue ones run straight away
+    const expiresAt = fromDatabaseTimestamp(row.timestamp).getTime() + VERIFICATION_TIMEOUT;
+    await scheduleJob(ScheduledJobTypes.VERIFICATION_TIMEOUT, expiresAt, { guildId: row.guild_id, userId: row.user_id }, {
+      guildId: row.guild_id,
+      dedupeKey: getVerificationTimeoutKey(row.guild_id, row.user_id)
+    });
+  }
+  
+  if (rows.length > 0) {
+    logWithEmoji('info', 
+      `Restored ${rows.length} pending verification(s), ${reviewing} awaiting moderator review`,
+      'Verification'
+    );
+  }
+}
+
+//=============================================================================
+// VERIFICATION TIMEOUTS
+//=============================================================================
+
+/**
+ * Dedupe key for a user's pending verification timeout job
+ */
+function getVerificationTimeoutKey(guildId: string, userId: string): string {
+  return `verification:${guildId}:${userId}`;
+}
+
+/**
+ * Expire a verification the user never completed
+ * Submissions already with moderators are left for them to decide
+ */
+export async function handleVerificationTimeout(
+  client: Client, 
+  payload: { guildId: string; userId: string }
+): Promise<void> {
+  const verification = await getPendingVerification(payload.userId, payload.guildId);
+  
+  // Already completed or cancelled
+  if (!verification) return;
+  if (verification.step === 'reviewing' || verification.step === 'completed') return;
+  
+  await PendingVerificationModel.delete(payload.userId, payload.guildId);
+  await VerificationLogModel.log(payload.userId, payload.guildId, 'expired');
+  
+  // Notify user of timeout (optional)
+  const user = await client.users.fetch(payload.userId).catch(() => null);
+  await user?.send({
+    content: 'Your verification request has expired. Please restart the process if you still wish to verify.'
+  }).catch(() => {});
+}
+
 //=============================================================================
 // VERIFICATION FLOW HANDLERS
 //=============================================================================
@@ -50,8 +233,18 @@ export async function handleVerificationButton(interaction: ButtonInteraction):
   const guildId = interaction.guild.id;
   
   try {
+    // Each server reviews its own verifications, so it needs its own review channel
+    const config = await VerificationConfigModel.getByGuildId(guildId);
+    if (!config || !config.enabled || !config.mod_channel_id) {
+      await interaction.reply({
+        content: 'Verification is not set up in this server. Please contact a moderator.',
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
     // Check if user already has a pending verification
-    if (pendingVerifications.has(userId)) {
+    if (await getPendingVerification(userId, guildId)) {
       await interaction.reply({
         content: 'You already have a verification in progress. Please check your DMs.',
         flags: MessageFlags.Ephemeral
@@ -71,7 +264,12 @@ export async function handleVerificationButton(interaction: ButtonInteraction):
       step: 'initiated'
     };
     
-    pendingVerifications.set(userId, verification);
+    await savePendingVerification(verification);
+    
+    // The notice only promises what the bot itself can delete
+    const retention = config.image_retention_hours
+      ? `${config.image_retention_hours} hour${config.image_retention_hours !== 1 ? 's' : ''} after`
+      : 'as soon as';
     
     // Send initial verification message
     const embed = new EmbedBuilder()
@@ -83,7 +281,9 @@ export async function handleVerificationButton(interaction: ButtonInteraction):
         '• Passport\n' +
         '• Government-issued ID card\n\n' +
         '**Privacy Notice:**\n' +
-        'Your ID will only be viewed by server moderators for verification purposes and will not be stored.\n\n' +
+        'Your ID will only be viewed by server moderators for verification purposes. ' +
+        `The copy posted for moderators is removed ${retention} they have made a decision. ` +
+        'I can\'t delete the photo you send me in this conversation, so I\'ll remind you to delete it yourself once it is no longer needed.\n\n' +
         'You have 15 minutes to complete this verification.'
       )
       .setColor(0x0099FF)
@@ -91,12 +291,12 @@ export async function handleVerificationButton(interaction: ButtonInteraction):
     
     // Create buttons
     const continueButton = new ButtonBuilder()
-      .setCustomId(`verification_continue_${userId}`)
+      .setCustomId(`verification_continue_${guildId}_${userId}`)
       .setLabel('Continue')
       .setStyle(ButtonStyle.Primary);
     
     const cancelButton = new ButtonBuilder()
-      .setCustomId(`verification_cancel_${userId}`)
+      .setCustomId(`verification_cancel_${guildId}_${userId}`)
       .setLabel('Cancel')
       .setStyle(ButtonStyle.Secondary);
     
@@ -111,6 +311,7 @@ export async function handleVerificationButton(interaction: ButtonInteraction):
     
     // Update verification step
     verification.step = 'awaiting_upload';
+    await savePendingVerification(verification);
     
     // Reply to interaction
     await interaction.reply({
@@ -118,22 +319,20 @@ export async function handleVerificationButton(interaction: ButtonInteraction):
       flags: MessageFlags.Ephemeral
     });
     
-    // Set timeout for verification
-    setTimeout(() => {
-      if (pendingVerifications.has(userId)) {
-        pendingVerifications.delete(userId);
-        // Notify user of timeout (optional)
-        interaction.user.send({
-          content: 'Your verification request has expired. Please restart the process if you still wish to verify.'
-        }).catch(() => {});
-      }
-    }, VERIFICATION_TIMEOUT);
+    await VerificationLogModel.log(userId, guildId, 'started');
+    
+    // Schedule the verification timeout
+    await scheduleJob(ScheduledJobTypes.VERIFICATION_TIMEOUT, Date.now() + VERIFICATION_TIMEOUT, { guildId, userId }, {
+      guildId,
+      dedupeKey: getVerificationTimeoutKey(guildId, userId)
+    });
     
   } catch (error) {
     logWithEmoji('error', `Error starting verification for ${interaction.user.tag}: ${error}`, 'Verification');
     
     // Clean up
-    pendingVerifications.delete(userId);
+    await PendingVerificationModel.delete(userId, guildId).catch(() => false);
+    await cancelJob(getVerificationTimeoutKey(guildId, userId)).catch(() => false);
     
     await interaction.reply({
       content: 'I couldn\'t send you a DM. Please enable direct messages from server members and try again.',
@@ -147,7 +346,11 @@ export async function handleVerificationButton(interaction: ButtonInteraction):
  */
 export async function handleVerificationFlow(interaction: ButtonInteraction): Promise<void> {
   const customId = interaction.customId;
-  const userId = customId.split('_').pop();
+  
+  // verification_<action>_<guildId>_<userId>, or without the guild ID on buttons sent before it was added
+  const ids = customId.split('_').slice(2);
+  const userId = ids.pop();
+  const guildId = ids.pop();
   
   if (!userId || userId !== interaction.user.id) {
     await interaction.reply({ 
@@ -157,7 +360,9 @@ export async function handleVerificationFlow(interaction: ButtonInteraction): Pr
     return;
   }
   
-  const verification = pendingVerifications.get(userId);
+  const verification = guildId 
+    ? await getPendingVerification(userId, guildId) 
+    : await getLatestPendingVerification(userId);
   if (!verification) {
     await interaction.reply({ 
       content: 'Your verification session has expired or is not valid.', 
@@ -196,7 +401,7 @@ async function handleVerificationContinue(
       .setColor(0x0099FF);
     
     const cancelButton = new ButtonBuilder()
-      .setCustomId(`verification_cancel_${verification.userId}`)
+      .setCustomId(`verification_cancel_${verification.guildId}_${verification.userId}`)
       .setLabel('Cancel')
       .setStyle(ButtonStyle.Secondary);
     
@@ -210,6 +415,7 @@ async function handleVerificationContinue(
     
     // Update verification step
     verification.step = 'awaiting_upload';
+    await savePendingVerification(verification);
     
   } catch (error) {
     logWithEmoji('error', `Error in verification continue: ${error}`, 'Verification');
@@ -228,7 +434,9 @@ async function handleVerificationCancel(
   verification: PendingVerification
 ): Promise<void> {
   // Remove from pending
-  pendingVerifications.delete(verification.userId);
+  await PendingVerificationModel.delete(verification.userId, verification.guildId);
+  await cancelJob(getVerificationTimeoutKey(verification.guildId, verification.userId));
+  await VerificationLogModel.log(verification.userId, verification.guildId, 'cancelled');
   
   await interaction.update({
     content: 'Verification cancelled. You can restart the process from the server anytime.',
@@ -275,9 +483,11 @@ async function handleVerificationUploadButton(
  */
 export async function handleVerificationUpload(message: Message): Promise<void> {
   const userId = message.author.id;
-  const verification = pendingVerifications.get(userId);
   
-  if (!verification || verification.step !== 'awaiting_upload') {
+  // Uploads carry no guild, so a photo goes to the verification most recently waiting for one
+  const verification = await getLatestPendingVerification(userId, 'awaiting_upload');
+  
+  if (!verification) {
     return;
   }
   
@@ -306,6 +516,8 @@ export async function handleVerificationUpload(message: Message): Promise<void>
     
     // Forward to moderators
     await forwardVerificationToMods(message, attachment, verification);
+    await savePendingVerification(verification);
+    await VerificationLogModel.log(userId, verification.guildId, 'submitted');
     
     // Confirm submission to user
     const confirmEmbed = new EmbedBuilder()
@@ -390,19 +602,9 @@ async function forwardVerificationToMods(
     .setColor(0xFFA500)
     .setTimestamp();
   
-  // Create decision buttons
-  const approveButton = new ButtonBuilder()
-    .setCustomId(`approve_verification_${user.id}`)
-    .setLabel('Approve')
-    .setStyle(ButtonStyle.Success);
-  
-  const denyButton = new ButtonBuilder()
-    .setCustomId(`deny_verification_${user.id}`)
-    .setLabel('Deny & Ban')
-    .setStyle(ButtonStyle.Danger);
-  
-  const row = new ActionRowBuilder<ButtonBuilder>()
-    .addComponents(approveButton, denyButton);
+  // Create decision menu
+  const row = new ActionRowBuilder<StringSelectMenuBuilder>()
+    .addComponents(buildDecisionMenu(user.id));
   
   // Send to mod channel
   const modMessage = await modChannel.send({
@@ -414,32 +616,109 @@ async function forwardVerificationToMods(
   
   // Store message ID for later reference
   verification.messageId = modMessage.id;
+  
+  // Both copies of the photo are removed once the verification is decided
+  await VerificationImageModel.record(guild.id, user.id, 'review', modChannel.id, modMessage.id);
+  await VerificationImageModel.record(guild.id, user.id, 'upload', message.channel.id, message.id);
 }
 
 /**
- * Handle verification decision (approve/deny)
+ * Build the decision menu shown on a review
  */
-export async function handleVerificationDecision(interaction: ButtonInteraction): Promise<void> {
+function buildDecisionMenu(userId: string): StringSelectMenuBuilder {
+  return new StringSelectMenuBuilder()
+    .setCustomId(`verification_decision_${userId}`)
+    .setPlaceholder('Choose a decision')
+    .addOptions(
+      (Object.keys(DECISIONS) as VerificationDecision[]).map(decision => ({
+        label: DECISIONS[decision].label,
+        description: DECISIONS[decision].description,
+        emoji: DECISIONS[decision].emoji,
+        value: decision
+      }))
+    );
+}
+
+/**
+ * Check that a moderator may make verification decisions
+ */
+async function checkDecisionPermission(
+  interaction: StringSelectMenuInteraction | ButtonInteraction | ModalSubmitInteraction
+): Promise<boolean> {
   if (!interaction.guild) {
     await interaction.reply({ 
-      content: 'This button can only be used in a server!', 
+      content: 'This can only be used in a server!', 
       flags: MessageFlags.Ephemeral 
     });
-    return;
+    return false;
   }
   
-  // Check permissions
   if (!interaction.memberPermissions?.has('BanMembers')) {
     await interaction.reply({ 
       content: 'You don\'t have permission to make verification decisions.', 
       flags: MessageFlags.Ephemeral 
     });
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Ask the moderator for the reason behind a decision
+ */
+async function showDecisionModal(
+  interaction: StringSelectMenuInteraction | ButtonInteraction,
+  decision: VerificationDecision,
+  userId: string
+): Promise<void> {
+  const modal = new ModalBuilder()
+    .setCustomId(`verification_reason_${decision}_${userId}`)
+    .setTitle(DECISIONS[decision].label);
+  
+  const reasonInput = new TextInputBuilder()
+    .setCustomId('reason')
+    .setLabel(decision === 'approve' ? 'Note (optional)' : 'Reason (sent to the user)')
+    .setStyle(TextInputStyle.Paragraph)
+    .setRequired(decision !== 'approve')
+    .setMaxLength(500);
+  
+  if (decision === 'resubmit') {
+    reasonInput.setPlaceholder('e.g. The photo is blurry, please retake it in better light');
+  }
+  
+  modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(reasonInput));
+  
+  await interaction.showModal(modal);
+}
+
+/**
+ * Handle the decision menu on a review
+ */
+export async function handleVerificationDecisionSelect(interaction: StringSelectMenuInteraction): Promise<void> {
+  if (!(await checkDecisionPermission(interaction))) return;
+  
+  const userId = interaction.customId.split('_').pop()!;
+  const decision = interaction.values[0] as VerificationDecision;
+  
+  if (!DECISIONS[decision]) {
+    await interaction.reply({ 
+      content: 'Invalid verification decision.', 
+      flags: MessageFlags.Ephemeral 
+    });
     return;
   }
   
-  const customId = interaction.customId;
-  const isApproval = customId.startsWith('approve_verification_');
-  const userId = customId.split('_').pop();
+  await showDecisionModal(interaction, decision, userId);
+}
+
+/**
+ * Handle the Approve and Deny & Ban buttons on reviews posted before the decision menu
+ */
+export async function handleVerificationDecision(interaction: ButtonInteraction): Promise<void> {
+  if (!(await checkDecisionPermission(interaction))) return;
+  
+  const userId = interaction.customId.split('_').pop();
   
   if (!userId) {
     await interaction.reply({ 
@@ -449,132 +728,266 @@ export async function handleVerificationDecision(interaction: ButtonInteraction)
     return;
   }
   
+  await showDecisionModal(
+    interaction,
+    interaction.customId.startsWith('approve_verification_') ? 'approve' : 'ban',
+    userId
+  );
+}
+
+/**
+ * Carry out a decision once the moderator has given their reason
+ */
+export async function handleVerificationReasonSubmit(interaction: ModalSubmitInteraction): Promise<void> {
+  if (!(await checkDecisionPermission(interaction))) return;
+  
+  const [decision, userId] = interaction.customId.replace('verification_reason_', '').split('_') as [
+    VerificationDecision, 
+    string
+  ];
+  const reason = interaction.fields.getTextInputValue('reason').trim() || undefined;
+  const guild = interaction.guild!;
+  
+  // Roles, DMs, the log and redaction can easily outlast the 3 second reply window
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+  
+  // Only one decision goes through, however many moderators submit at once or from stale reviews
+  if (!(await PendingVerificationModel.claimForDecision(userId, guild.id))) {
+    await interaction.editReply({ content: 'This verification has already been handled.' });
+    return;
+  }
+  
   try {
-    const member = await interaction.guild.members.fetch(userId).catch(() => null);
+    const member = await guild.members.fetch(userId).catch(() => null);
     
     if (!member) {
-      await interaction.reply({
-        content: 'The user is no longer a member of this server.',
-        flags: MessageFlags.Ephemeral
+      // Nothing left to decide, but their photo shouldn't linger
+      await PendingVerificationModel.delete(userId, guild.id);
+      await cancelJob(getVerificationTimeoutKey(guild.id, userId));
+      await redactDecidedVerification(interaction.client, guild.id, userId);
+      
+      await interaction.editReply({
+        content: 'The user is no longer a member of this server. Their verification has been closed.'
       });
       return;
     }
     
-    if (isApproval) {
-      await processApproval(interaction, member);
-    } else {
-      await processDenial(interaction, member);
+    const result = await processDecision(interaction, member, decision, reason);
+    if (!result.success) {
+      await PendingVerificationModel.releaseDecision(userId, guild.id);
+      await interaction.editReply({ content: result.message });
+      return;
     }
     
-    // Clean up pending verification
-    pendingVerifications.delete(userId);
+    // A kick or ban Discord refused is recorded as the plain denial it became
+    const applied = result.applied || decision;
+    
+    // A resubmission keeps the verification open for the new photo
+    if (decision !== 'resubmit') {
+      await PendingVerificationModel.delete(userId, guild.id);
+      await cancelJob(getVerificationTimeoutKey(guild.id, userId));
+    }
     
-    // Disable buttons
-    await disableVerificationButtons(interaction);
+    await VerificationLogModel.log(
+      member.id, 
+      guild.id, 
+      DECISIONS[applied].action, 
+      interaction.user.id, 
+      reason ? { reason } : undefined
+    );
+    
+    if (interaction.message) {
+      await updateVerificationMessage(interaction.message, interaction.user.tag, applied, reason);
+    }
+    
+    // Even a resubmission makes this photo obsolete
+    await redactDecidedVerification(interaction.client, guild.id, userId);
+    
+    await interaction.editReply({ content: result.message });
     
   } catch (error) {
     logWithEmoji('error', `Error processing verification decision: ${error}`, 'Verification');
-    await interaction.reply({
-      content: 'There was an error processing this verification.',
-      flags: MessageFlags.Ephemeral
-    });
+    
+    // Leave it for another try if the decision hadn't got as far as closing it
+    await PendingVerificationModel.releaseDecision(userId, guild.id).catch(() => {});
+    
+    const content = 'There was an error processing this verification.';
+    if (interaction.deferred || interaction.replied) {
+      await interaction.editReply({ content }).catch(() => {});
+    } else {
+      await interaction.reply({ content, flags: MessageFlags.Ephemeral }).catch(() => {});
+    }
   }
 }
 
 /**
- * Process verification approval
+ * Apply a decision to the member and let them know the outcome
+ * @returns Whether the decision went through, what to tell the moderator, and the decision that
+ * took effect instead when it fell short of the one chosen
  */
-async function processApproval(interaction: ButtonInteraction, member: GuildMember): Promise<void> {
-  // Grant verification (add/remove appropriate roles)
-  const success = await grantVerification(member);
-  
-  if (!success) {
-    await interaction.reply({
-      content: 'Failed to grant verification roles. Please check my permissions.',
-      flags: MessageFlags.Ephemeral
-    });
-    return;
-  }
-  
-  // Update embed
-  await updateVerificationEmbed(interaction, 'approved');
-  
-  // Notify user
-  try {
-    const successEmbed = new EmbedBuilder()
-      .setTitle('✅ Verification Approved')
-      .setDescription(`Your age verification for **${interaction.guild!.name}** has been approved! You now have access to age-restricted content.`)
-      .setColor(0x00FF00)
-      .setTimestamp();
+async function processDecision(
+  interaction: ModalSubmitInteraction,
+  member: GuildMember,
+  decision: VerificationDecision,
+  reason?: string
+): Promise<{ success: boolean; message: string; applied?: VerificationDecision }> {
+  const guildName = interaction.guild!.name;
+  const moderatorTag = interaction.user.tag;
+  const reasonText = reason ? `\n\n**Reason:** ${reason}` : '';
+  
+  switch (decision) {
+    case 'approve': {
+      // Grant verification (add/remove appropriate roles)
+      if (!(await grantVerification(member))) {
+        return { success: false, message: 'Failed to grant verification roles. Please check my permissions.' };
+      }
+      
+      await notifyUser(member, new EmbedBuilder()
+        .setTitle('✅ Verification Approved')
+        .setDescription(`Your age verification for **${guildName}** has been approved! You now have access to age-restricted content.`)
+        .setColor(0x00FF00)
+        .setTimestamp());
+      
+      return { success: true, message: `✅ Verification approved for ${member.user.tag}. They have been granted access.` };
+    }
     
-    await member.user.send({ embeds: [successEmbed] });
-  } catch (error) {
-    logWithEmoji('error', `Failed to notify user of approval: ${error}`, 'Verification');
+    case 'resubmit': {
+      await requestResubmission(member);
+      
+      await notifyUser(member, new EmbedBuilder()
+        .setTitle('🔁 New Photo Needed')
+        .setDescription(
+          `A moderator in **${guildName}** needs a new photo of your ID before they can verify you.${reasonText}\n\n` +
+          'Please send a new photo as a message in this conversation within 15 minutes.'
+        )
+        .setColor(0xFFCC00)
+        .setTimestamp());
+      
+      return { success: true, message: `🔁 Asked ${member.user.tag} to submit a new photo.` };
+    }
+    
+    case 'deny': {
+      await keepUnverified(member);
+      
+      await notifyUser(member, new EmbedBuilder()
+        .setTitle('❌ Verification Denied')
+        .setDescription(
+          `Your age verification for **${guildName}** has been denied. You can stay in the server, ` +
+          `but age-restricted content will remain unavailable.${reasonText}`
+        )
+        .setColor(0xFF0000)
+        .setTimestamp());
+      
+      return { success: true, message: `❌ Verification denied for ${member.user.tag}. They remain unverified.` };
+    }
+    
+    case 'kick':
+    case 'ban': {
+      const removal = decision === 'kick' ? 'kicked from' : 'banned from';
+      
+      // Notify user before they lose the shared server
+      await notifyUser(member, new EmbedBuilder()
+        .setTitle('❌ Verification Denied')
+        .setDescription(`Your age verification for **${guildName}** has been denied and you have been ${removal} the server.${reasonText}`)
+        .setColor(0xFF0000)
+        .setTimestamp());
+      
+      const auditReason = `Age verification denied by ${moderatorTag}${reason ? `: ${reason}` : ''}`;
+      
+      try {
+        if (decision === 'kick') {
+          await member.kick(auditReason);
+        } else {
+          await member.ban({ reason: auditReason });
+        }
+        
+        return { success: true, message: `❌ Verification denied for ${member.user.tag}. User has been ${decision === 'kick' ? 'kicked' : 'banned'}.` };
+      } catch (error) {
+        logWithEmoji('error', `Failed to ${decision} user: ${error}`, 'Verification');
+        
+        // They stay in the server, so leave them as a plain denial would
+        await keepUnverified(member);
+        
+        return { 
+          success: true, 
+          message: `⚠️ Verification denied, but removing ${member.user.tag} failed. They remain unverified, please ${decision} them manually.`,
+          applied: 'deny'
+        };
+      }
+    }
   }
-  
-  await interaction.reply({
-    content: `✅ Verification approved for ${member.user.tag}. They have been granted access.`,
-    flags: MessageFlags.Ephemeral
-  });
 }
 
 /**
- * Process verification denial
+ * Send a decision to the user, ignoring closed DMs
  */
-async function processDenial(interaction: ButtonInteraction, member: GuildMember): Promise<void> {
-  // Update embed
-  await updateVerificationEmbed(interaction, 'denied');
-  
-  // Notify user before ban
+async function notifyUser(member: GuildMember, embed: EmbedBuilder): Promise<void> {
   try {
-    const denialEmbed = new EmbedBuilder()
-      .setTitle('❌ Verification Denied')
-      .setDescription(`Your age verification for **${interaction.guild!.name}** has been denied. Due to server policies, you have been banned from the server.`)
-      .setColor(0xFF0000)
-      .setTimestamp();
-    
-    await member.user.send({ embeds: [denialEmbed] });
+    await member.user.send({ embeds: [embed] });
   } catch (error) {
-    logWithEmoji('error', `Failed to notify user of denial: ${error}`, 'Verification');
+    logWithEmoji('error', `Failed to notify ${member.user.tag} of verification decision: ${error}`, 'Verification');
   }
+}
+
+/**
+ * Reopen a verification so the user can upload a new photo
+ */
+async function requestResubmission(member: GuildMember): Promise<void> {
+  const existing = await getPendingVerification(member.id, member.guild.id);
+  const dmChannel = await member.user.createDM();
+  
+  await savePendingVerification({
+    userId: member.id,
+    guildId: member.guild.id,
+    timestamp: Date.now(),
+    step: 'awaiting_upload',
+    dmChannelId: existing?.dmChannelId || dmChannel.id
+  });
   
-  // Ban the user
-  try {
-    await member.ban({
-      reason: `Age verification denied by ${interaction.user.tag}`
-    });
-    
-    await interaction.reply({
-      content: `❌ Verification denied for ${member.user.tag}. User has been banned.`,
-      flags: MessageFlags.Ephemeral
-    });
-  } catch (banError) {
-    logWithEmoji('error', `Failed to ban user: ${banError}`, 'Verification');
-    await interaction.reply({
-      content: `❌ Verification denied but failed to ban ${member.user.tag}. Please ban manually.`,
-      flags: MessageFlags.Ephemeral
+  await scheduleJob(
+    ScheduledJobTypes.VERIFICATION_TIMEOUT, 
+    Date.now() + VERIFICATION_TIMEOUT, 
+    { guildId: member.guild.id, userId: member.id }, 
+    {
+      guildId: member.guild.id,
+      dedupeKey: getVerificationTimeoutKey(member.guild.id, member.id)
+    }
+  );
+}
+
+/**
+ * Make sure a denied member keeps the age unverified role
+ */
+async function keepUnverified(member: GuildMember): Promise<void> {
+  const config = await VerificationConfigModel.getByGuildId(member.guild.id);
+  
+  if (config?.age_unverified_role_id && !member.roles.cache.has(config.age_unverified_role_id)) {
+    await member.roles.add(config.age_unverified_role_id, 'Age verification denied').catch(error => {
+      logWithEmoji('error', `Failed to restore unverified role for ${member.user.tag}: ${error}`, 'Verification');
     });
   }
 }
 
 /**
- * Update verification embed after decision
+ * Record the decision on the review and lock its menu
  */
-async function updateVerificationEmbed(
-  interaction: ButtonInteraction, 
-  decision: 'approved' | 'denied'
+async function updateVerificationMessage(
+  message: Message,
+  moderatorTag: string,
+  decision: VerificationDecision,
+  reason?: string
 ): Promise<void> {
   try {
-    const message = interaction.message;
+    const outcome = DECISIONS[decision];
     const embed = EmbedBuilder.from(message.embeds[0]);
     
     embed
-      .setTitle(`🔞 Age Verification ${decision.charAt(0).toUpperCase() + decision.slice(1)}`)
-      .setColor(decision === 'approved' ? 0x00FF00 : 0xFF0000)
+      .setTitle(`🔞 Age Verification ${outcome.outcome}`)
+      .setColor(outcome.color)
       .addFields([
         { 
           name: 'Decision', 
-          value: `${decision.charAt(0).toUpperCase() + decision.slice(1)} by ${interaction.user.tag}`, 
+          value: `${outcome.outcome} by ${moderatorTag}`, 
           inline: true 
         },
         { 
@@ -584,35 +997,21 @@ async function updateVerificationEmbed(
         }
       ]);
     
-    await message.edit({ embeds: [embed] });
-  } catch (error) {
-    logWithEmoji('error', `Failed to update verification embed: ${error}`, 'Verification');
-  }
-}
-
-/**
- * Disable verification buttons after decision
- */
-async function disableVerificationButtons(interaction: ButtonInteraction): Promise<void> {
-  try {
-    const disabledButtons = [
-      new ButtonBuilder()
-        .setCustomId('approve_verification_disabled')
-        .setLabel('Approve')
-        .setStyle(ButtonStyle.Success)
-        .setDisabled(true),
-      new ButtonBuilder()
-        .setCustomId('deny_verification_disabled')
-        .setLabel('Deny & Ban')
-        .setStyle(ButtonStyle.Danger)
-        .setDisabled(true)
-    ];
-    
-    const newRow = new ActionRowBuilder<ButtonBuilder>()
-      .addComponents(disabledButtons);
-    
-    await interaction.message.edit({ components: [newRow] });
+    if (reason) {
+      embed.addFields({ name: 'Reason', value: reason });
+    }
+    
+    const lockedMenu = new StringSelectMenuBuilder()
+      .setCustomId('verification_decision_disabled')
+      .setPlaceholder(outcome.outcome)
+      .addOptions({ label: outcome.outcome, value: decision })
+      .setDisabled(true);
+    
+    await message.edit({ 
+      embeds: [embed], 
+      components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(lockedMenu)] 
+    });
   } catch (error) {
-    logWithEmoji('error', `Failed to disable verification buttons: ${error}`, 'Verification');
+    logWithEmoji('error', `Failed to update verification message: ${error}`, 'Verification');
   }
 }
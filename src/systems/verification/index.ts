@@ -8,15 +8,23 @@
 import { Client, Events, GuildMember, ButtonInteraction, ModalSubmitInteraction, Message } from 'discord.js';
 import { BotSystem } from '../../types';
 import { logWithEmoji } from '../../utils';
-import { VerificationConfigModel } from '../../database/models/verification';
+import { VerificationConfigModel, VerificationLogModel } from '../../database/models/verification';
+import { fromDatabaseTimestamp } from '../../database';
 import { 
   handleVerificationButton, 
   handleVerificationDecision,
+  handleVerificationDecisionSelect,
+  handleVerificationReasonSubmit,
   handleVerificationFlow,
   handleVerificationUpload,
-  handleVerificationModal
+  handleVerificationModal,
+  handleVerificationTimeout,
+  restorePendingVerifications
 } from './handlers';
-import { initializeVerificationConfig, loadVerificationConfig } from './config';
+import { registerJobHandler, ScheduledJobTypes } from '../scheduler';
+import { importLegacyVerificationConfig } from './config';
+import { startImageSweep, stopImageSweep } from './redaction';
+import { VerificationStatus } from './types';
 
 //=============================================================================
 // VERIFICATION SYSTEM IMPLEMENTATION
@@ -25,28 +33,41 @@ import { initializeVerificationConfig, loadVerificationConfig } from './config';
 export const verificationSystem: BotSystem = {
   name: 'Verification',
   enabled: true,
+  dependencies: ['Scheduler'],
   
   setup: async (client: Client) => {
     logWithEmoji('info', 'Setting up verification system...', 'Verification');
     
-    // Load legacy configuration first
-    loadVerificationConfig();
-    
-    // Initialize database configuration
-    await initializeVerificationConfig();
-    
     // Set up event handlers
     setupVerificationHandlers(client);
     
     // Set up member join handler for auto-role assignment
     setupMemberJoinHandler(client);
     
+    // Unfinished verifications are expired by the scheduler
+    registerJobHandler(ScheduledJobTypes.VERIFICATION_TIMEOUT, handleVerificationTimeout);
+    
+    // Verifications survive restarts, so pick up where the last process left off
+    await restorePendingVerifications();
+    
+    // Both need the guild cache: the import matches legacy IDs to the guild that owns them,
+    // and decided ID images are removed once their guild's retention window passes
+    if (client.isReady()) {
+      await importLegacyVerificationConfig(client);
+      startImageSweep(client);
+    } else {
+      client.once(Events.ClientReady, async () => {
+        await importLegacyVerificationConfig(client);
+        startImageSweep(client);
+      });
+    }
+    
     logWithEmoji('success', 'Verification system initialized', 'Verification');
   },
   
   cleanup: async () => {
     logWithEmoji('info', 'Cleaning up verification system...', 'Verification');
-    // Cleanup if needed
+    stopImageSweep();
   }
 };
 
@@ -64,21 +85,38 @@ function setupVerificationHandlers(client: Client): void {
     
     const customId = interaction.customId;
     
-    // Handle verification start button
-    if (customId === 'start_verification') {
-      await handleVerificationButton(interaction);
-    }
-    
-    // Handle verification decision buttons
-    if (customId.startsWith('approve_verification_') || customId.startsWith('deny_verification_')) {
-      await handleVerificationDecision(interaction);
+    try {
+      // Handle verification start button
+      if (customId === 'start_verification') {
+        await handleVerificationButton(interaction);
+      }
+      
+      // Handle decision buttons on reviews posted before the decision menu
+      if (customId.startsWith('approve_verification_') || customId.startsWith('deny_verification_')) {
+        await handleVerificationDecision(interaction);
+      }
+      
+      // Handle verification flow buttons
+      if (customId.startsWith('verification_continue_') || 
+          customId.startsWith('verification_cancel_') ||
+          customId.startsWith('verification_upload_')) {
+        await handleVerificationFlow(interaction);
+      }
+    } catch (error) {
+      logWithEmoji('error', `Error handling verification button: ${error}`, 'Verification');
     }
+  });
+  
+  // Handle the decision menu on reviews
+  client.on(Events.InteractionCreate, async (interaction) => {
+    if (!interaction.isStringSelectMenu()) return;
     
-    // Handle verification flow buttons
-    if (customId.startsWith('verification_continue_') || 
-        customId.startsWith('verification_cancel_') ||
-        customId.startsWith('verification_upload_')) {
-      await handleVerificationFlow(interaction);
+    try {
+      if (interaction.customId.startsWith('verification_decision_')) {
+        await handleVerificationDecisionSelect(interaction);
+      }
+    } catch (error) {
+      logWithEmoji('error', `Error handling verification decision menu: ${error}`, 'Verification');
     }
   });
   
@@ -86,8 +124,16 @@ function setupVerificationHandlers(client: Client): void {
   client.on(Events.InteractionCreate, async (interaction) => {
     if (!interaction.isModalSubmit()) return;
     
-    if (interaction.customId.startsWith('verification_modal_')) {
-      await handleVerificationModal(interaction);
+    try {
+      if (interaction.customId.startsWith('verification_modal_')) {
+        await handleVerificationModal(interaction);
+      }
+      
+      if (interaction.customId.startsWith('verification_reason_')) {
+        await handleVerificationReasonSubmit(interaction);
+      }
+    } catch (error) {
+      logWithEmoji('error', `Error handling verification modal: ${error}`, 'Verification');
     }
   });
   
@@ -95,8 +141,12 @@ function setupVerificationHandlers(client: Client): void {
   client.on(Events.MessageCreate, async (message) => {
     if (message.author.bot || message.channel.type !== 1) return; // DM channel type is 1
     
-    // Check if user has pending verification
-    await handleVerificationUpload(message);
+    try {
+      // Check if user has pending verification
+      await handleVerificationUpload(message);
+    } catch (error) {
+      logWithEmoji('error', `Error handling verification upload: ${error}`, 'Verification');
+    }
   });
   
   logWithEmoji('success', 'Verification event handlers registered', 'Verification');
@@ -163,7 +213,7 @@ function setupMemberJoinHandler(client: Client): void {
 //=============================================================================
 
 /**
- * Check if a user is verified (has 18+ role and no unverified role)
+ * Check if a user is verified (approved or holding the 18+ role, and no unverified role)
  */
 export async function isUserVerified(member: GuildMember): Promise<boolean> {
   const config = await VerificationConfigModel.getByGuildId(member.guild.id);
@@ -174,7 +224,22 @@ export async function isUserVerified(member: GuildMember): Promise<boolean> {
     return false;
   }
   
-  // Check if they have NSFW access (indicates verification)
+  // The 18+ role stays when a verified member turns NSFW access off
+  if (config.verified_role_id && member.roles.cache.has(config.verified_role_id)) {
+    return true;
+  }
+  
+  // Without a verified role, the latest decision on record says whether they were approved
+  const decision = await VerificationLogModel.getLatestByActions(
+    member.guild.id,
+    member.id,
+    ['approved', 'denied', 'denied_kicked', 'denied_banned']
+  );
+  if (decision) {
+    return decision.action === 'approved';
+  }
+  
+  // Approvals from before logging began only show in the NSFW access role
   if (config.nsfw_access_role_id && member.roles.cache.has(config.nsfw_access_role_id)) {
     return true;
   }
@@ -183,6 +248,32 @@ export async function isUserVerified(member: GuildMember): Promise<boolean> {
   return false;
 }
 
+/**
+ * Work out a member's verification state from their roles and the verification log
+ * verifiedAt and approvedBy are only known for approvals made since logging began
+ */
+export async function getVerificationStatus(member: GuildMember): Promise<VerificationStatus> {
+  const config = await VerificationConfigModel.getByGuildId(member.guild.id);
+  
+  const status: VerificationStatus = {
+    isVerified: await isUserVerified(member),
+    hasNsfwAccess: !!config?.nsfw_access_role_id && member.roles.cache.has(config.nsfw_access_role_id),
+    hasUnverifiedRole: !!config?.age_unverified_role_id && member.roles.cache.has(config.age_unverified_role_id)
+  };
+  
+  if (status.isVerified) {
+    const logs = await VerificationLogModel.getByUser(member.guild.id, member.id);
+    const approval = logs.find(entry => entry.action === 'approved');
+    
+    if (approval) {
+      status.verifiedAt = fromDatabaseTimestamp(approval.timestamp);
+      status.approvedBy = approval.moderator_id || undefined;
+    }
+  }
+  
+  return status;
+}
+
 /**
  * Grant verification to a user
  */
@@ -199,9 +290,10 @@ export async function grantVerification(member: GuildMember): Promise<boolean> {
       rolesToAdd.push(config.nsfw_access_role_id);
     }
     
-    // Add 18+ role (hardcoded from legacy system)
-    const VERIFICATION_ROLE_ID = '1344892607255547944';
-    rolesToAdd.push(VERIFICATION_ROLE_ID);
+    // Add 18+ role if configured
+    if (config.verified_role_id) {
+      rolesToAdd.push(config.verified_role_id);
+    }
     
     // Remove age unverified role if configured
     if (config.age_unverified_role_id && member.roles.cache.has(config.age_unverified_role_id)) {
@@ -237,10 +329,69 @@ export async function grantVerification(member: GuildMember): Promise<boolean> {
   }
 }
 
+/**
+ * Result of a member changing their own NSFW access
+ */
+export type NsfwToggleResult =
+  | { status: 'updated' | 'unchanged' | 'not_configured' | 'not_verified' }
+  | { status: 'cooldown'; retryAt: number };
+
+/**
+ * Swap a member between the NSFW access and no-access roles
+ * Only verified members may opt in, and each change is logged for moderators
+ */
+export async function setNsfwAccess(member: GuildMember, enabled: boolean): Promise<NsfwToggleResult> {
+  const config = await VerificationConfigModel.getByGuildId(member.guild.id);
+  if (!config || !config.nsfw_access_role_id || !config.nsfw_no_access_role_id) {
+    return { status: 'not_configured' };
+  }
+  
+  // Opting out is always allowed, opting in needs verification
+  if (enabled && !(await isUserVerified(member))) {
+    return { status: 'not_verified' };
+  }
+  
+  const addRoleId = enabled ? config.nsfw_access_role_id : config.nsfw_no_access_role_id;
+  const removeRoleId = enabled ? config.nsfw_no_access_role_id : config.nsfw_access_role_id;
+  
+  if (member.roles.cache.has(addRoleId) && !member.roles.cache.has(removeRoleId)) {
+    return { status: 'unchanged' };
+  }
+  
+  const lastToggle = await VerificationLogModel.getLatestByActions(
+    member.guild.id,
+    member.id,
+    ['nsfw_enabled', 'nsfw_disabled']
+  );
+  
+  if (lastToggle && config.nsfw_cooldown_minutes > 0) {
+    const retryAt = fromDatabaseTimestamp(lastToggle.timestamp).getTime() + config.nsfw_cooldown_minutes * 60 * 1000;
+    if (retryAt > Date.now()) {
+      return { status: 'cooldown', retryAt };
+    }
+  }
+  
+  await member.roles.add(addRoleId, `NSFW access ${enabled ? 'enabled' : 'disabled'} by member`);
+  if (member.roles.cache.has(removeRoleId)) {
+    await member.roles.remove(removeRoleId, `NSFW access ${enabled ? 'enabled' : 'disabled'} by member`);
+  }
+  
+  await VerificationLogModel.log(member.id, member.guild.id, enabled ? 'nsfw_enabled' : 'nsfw_disabled');
+  
+  logWithEmoji('info', 
+    `${member.user.tag} ${enabled ? 'enabled' : 'disabled'} NSFW access`,
+    'Verification'
+  );
+  
+  return { status: 'updated' };
+}
+
 //=============================================================================
 // EXPORTS
 //=============================================================================
 
 export * from './config';
 export * from './handlers';
+export * from './redaction';
+export * from './stats';
 export * from './types';
@@ -0,0 +1,165 @@
+/**
+ * Verification Image Redaction
+ * ---------------------------
+ * Removes ID photos once a verification has been decided, keeping the review embed as an audit record
+ */
+
+import { Client, DiscordAPIError, EmbedBuilder, Message, RESTJSONErrorCodes } from 'discord.js';
+import { logWithEmoji } from '../../utils';
+import { VerificationConfigModel, VerificationImage, VerificationImageModel } from '../../database/models/verification';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+const SWEEP_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const SWEEP_BATCH_SIZE = 50;
+
+// The image is already gone when its message or channel is
+const GONE_ERROR_CODES: number[] = [
+  RESTJSONErrorCodes.UnknownMessage,
+  RESTJSONErrorCodes.UnknownChannel
+];
+
+//=============================================================================
+// STATE
+//=============================================================================
+
+let sweepInterval: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+//=============================================================================
+// REDACTION
+//=============================================================================
+
+/**
+ * Start the retention window for a user's images, removing them now if the guild keeps none
+ */
+export async function redactDecidedVerification(client: Client, guildId: string, userId: string): Promise<void> {
+  await VerificationImageModel.markDecided(guildId, userId);
+
+  const config = await VerificationConfigModel.getByGuildId(guildId);
+  if (config?.image_retention_hours) return;
+
+  for (const image of await VerificationImageModel.getDecidedByUser(guildId, userId)) {
+    await redactImage(client, image);
+  }
+}
+
+/**
+ * Remove every decided image whose retention window has passed
+ * @returns Number of images handled
+ */
+export async function sweepVerificationImages(client: Client): Promise<number> {
+  // Skip if the previous sweep is still running
+  if (sweeping) return 0;
+  sweeping = true;
+
+  try {
+    const due = await VerificationImageModel.getDue(SWEEP_BATCH_SIZE);
+
+    for (const image of due) {
+      await redactImage(client, image);
+    }
+
+    if (due.length > 0) {
+      logWithEmoji('info', `Swept ${due.length} verification image(s)`, 'Verification');
+    }
+
+    return due.length;
+  } catch (error) {
+    logWithEmoji('error', `Error sweeping verification images: ${error}`, 'Verification');
+    return 0;
+  } finally {
+    sweeping = false;
+  }
+}
+
+/**
+ * Remove a single image, leaving it for the next sweep if Discord refuses for now
+ */
+async function redactImage(client: Client, image: VerificationImage): Promise<void> {
+  try {
+    const channel = await client.channels.fetch(image.channel_id);
+    if (!channel || !channel.isTextBased()) {
+      await VerificationImageModel.markRedacted(image.id);
+      return;
+    }
+
+    const message = await channel.messages.fetch(image.message_id);
+
+    if (image.kind === 'review') {
+      // Keep the review as an audit record, just without the photo
+      const embeds = message.embeds.map((embed, index) => {
+        const builder = EmbedBuilder.from(embed);
+        if (index === 0) {
+          builder.addFields({ name: 'ID Image', value: `Removed <t:${Math.floor(Date.now() / 1000)}:R>`, inline: true });
+        }
+        return builder;
+      });
+
+      await message.edit({ embeds, attachments: [] });
+    } else {
+      await removeUpload(client, image, message);
+    }
+
+    await VerificationImageModel.markRedacted(image.id);
+    logWithEmoji('info', `Removed verification ${image.kind} image for user ${image.user_id}`, 'Verification');
+
+  } catch (error) {
+    if (error instanceof DiscordAPIError && GONE_ERROR_CODES.includes(Number(error.code))) {
+      await VerificationImageModel.markRedacted(image.id);
+      return;
+    }
+
+    logWithEmoji('error', `Failed to remove verification image #${image.id}: ${error}`, 'Verification');
+  }
+}
+
+/**
+ * Delete the user's own upload, or ask them to when Discord won't let the bot
+ */
+async function removeUpload(client: Client, image: VerificationImage, message: Message): Promise<void> {
+  try {
+    await message.delete();
+  } catch (error) {
+    // Bots can't delete the other person's messages in a DM
+    if (!(error instanceof DiscordAPIError) || Number(error.code) !== RESTJSONErrorCodes.CannotExecuteActionOnDMChannel) {
+      throw error;
+    }
+
+    const user = await client.users.fetch(image.user_id);
+    await user.send({
+      content: 'Your verification has been reviewed, so the photo of your ID is no longer needed. ' +
+        `You can delete it from this conversation: ${message.url}`
+    }).catch(() => {});
+  }
+}
+
+//=============================================================================
+// SWEEP
+//=============================================================================
+
+/**
+ * Start sweeping for images past their retention window
+ */
+export function startImageSweep(client: Client): void {
+  stopImageSweep();
+
+  // Catch up on anything that fell due while the bot was offline
+  sweepVerificationImages(client);
+
+  sweepInterval = setInterval(() => {
+    sweepVerificationImages(client);
+  }, SWEEP_INTERVAL);
+}
+
+/**
+ * Stop sweeping for images
+ */
+export function stopImageSweep(): void {
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Verification Statistics
+ * ----------------------
+ * Request, decision and timing figures built from the verification log
+ */
+
+import { fromDatabaseTimestamp } from '../../database';
+import {
+  PendingVerificationModel,
+  VerificationDecisionLog,
+  VerificationLogModel
+} from '../../database/models/verification';
+import { VerificationAction, VerificationModeratorStats, VerificationStats } from './types';
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+const DENIAL_ACTIONS: VerificationAction[] = ['denied', 'denied_kicked', 'denied_banned'];
+const DECISION_ACTIONS: VerificationAction[] = ['approved', 'resubmit_requested', ...DENIAL_ACTIONS];
+
+const CSV_COLUMNS = ['timestamp', 'user_id', 'moderator_id', 'action', 'submitted_at', 'decision_seconds', 'reason'];
+
+//=============================================================================
+// STATISTICS
+//=============================================================================
+
+/**
+ * Compute a guild's verification statistics
+ * @param since Start of the period, or undefined for all time
+ */
+export async function getVerificationStats(guildId: string, since?: Date): Promise<VerificationStats> {
+  const counts = new Map(
+    (await VerificationLogModel.countByAction(guildId, since)).map(row => [row.action, row.count])
+  );
+  const decisions = await VerificationLogModel.getDecisions(guildId, DECISION_ACTIONS, since);
+
+  const approved = counts.get('approved') || 0;
+  const denied = DENIAL_ACTIONS.reduce((total, action) => total + (counts.get(action) || 0), 0);
+
+  const decisionTimes = decisions
+    .map(getDecisionTime)
+    .filter((time): time is number => time !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    since,
+    totalRequests: counts.get('submitted') || 0,
+    approved,
+    denied,
+    resubmissionsRequested: counts.get('resubmit_requested') || 0,
+    timedOut: counts.get('expired') || 0,
+    pending: await PendingVerificationModel.countByGuild(guildId, 'reviewing'),
+    successRate: approved + denied > 0 ? approved / (approved + denied) : 0,
+    averageProcessingTime: decisionTimes.length > 0
+      ? decisionTimes.reduce((total, time) => total + time, 0) / decisionTimes.length
+      : 0,
+    medianProcessingTime: getMedian(decisionTimes),
+    moderators: getModeratorStats(decisions)
+  };
+}
+
+/**
+ * Export a guild's decisions as CSV, one row per decision
+ * @param since Start of the period, or undefined for all time
+ */
+export async function buildVerificationStatsCsv(guildId: string, since?: Date): Promise<string> {
+  const decisions = await VerificationLogModel.getDecisions(guildId, DECISION_ACTIONS, since);
+
+  const rows = decisions.map(decision => {
+    const time = getDecisionTime(decision);
+    return [
+      decision.timestamp,
+      decision.user_id,
+      decision.moderator_id || '',
+      decision.action,
+      decision.submitted_at || '',
+      time !== null ? `${Math.round(time / 1000)}` : '',
+      getReason(decision)
+    ];
+  });
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\n');
+}
+
+//=============================================================================
+// HELPERS
+//=============================================================================
+
+/**
+ * Time from submission to decision in milliseconds, if the submission was logged
+ */
+function getDecisionTime(decision: VerificationDecisionLog): number | null {
+  if (!decision.submitted_at) return null;
+
+  return fromDatabaseTimestamp(decision.timestamp).getTime() - fromDatabaseTimestamp(decision.submitted_at).getTime();
+}
+
+/**
+ * Median of an already sorted list, 0 when empty
+ */
+function getMedian(sorted: number[]): number {
+  if (sorted.length === 0) return 0;
+
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Tally decisions per moderator, most active first
+ */
+function getModeratorStats(decisions: VerificationDecisionLog[]): VerificationModeratorStats[] {
+  const moderators = new Map<string, VerificationModeratorStats>();
+
+  for (const decision of decisions) {
+    if (!decision.moderator_id) continue;
+
+    if (!moderators.has(decision.moderator_id)) {
+      moderators.set(decision.moderator_id, {
+        moderatorId: decision.moderator_id,
+        approved: 0,
+        denied: 0,
+        resubmissionsRequested: 0
+      });
+    }
+
+    const stats = moderators.get(decision.moderator_id)!;
+    if (decision.action === 'approved') stats.approved++;
+    else if (decision.action === 'resubmit_requested') stats.resubmissionsRequested++;
+    else stats.denied++;
+  }
+
+  return [...moderators.values()].sort((a, b) =>
+    (b.approved + b.denied + b.resubmissionsRequested) - (a.approved + a.denied + a.resubmissionsRequested)
+  );
+}
+
+/**
+ * Pull the moderator's reason out of a log entry's metadata
+ */
+function getReason(decision: VerificationDecisionLog): string {
+  if (!decision.metadata) return '';
+
+  try {
+    return JSON.parse(decision.metadata).reason || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Quote a CSV value when it contains a separator, quote or line break
+ * Free text that looks like a formula is prefixed so spreadsheets don't run it
+ */
+function escapeCsvValue(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -35,7 +35,7 @@ export type VerificationStep =
   | 'initiated'       // User clicked the verification button
   | 'awaiting_upload' // Waiting for user to upload ID
   | 'reviewing'       // Moderators are reviewing the submission
-  | 'completed';      // Verification process completed
+  | 'completed';      // A moderator's decision is being carried out
 
 /**
  * Verification configuration for a guild
@@ -53,6 +53,10 @@ export interface VerificationConfig {
   nsfw_no_access_role_id?: string;
   /** Whether the verification system is enabled */
   enabled: boolean;
+  /** Hours decided ID images are kept before removal, 0 removes them straight away */
+  image_retention_hours: number;
+  /** Minutes a member waits between NSFW access changes, 0 for no cooldown */
+  nsfw_cooldown_minutes: number;
   /** When config was created */
   created_at: string;
   /** When config was last updated */
@@ -71,24 +75,50 @@ export interface VerificationStatus {
   hasUnverifiedRole: boolean;
   /** When verification was completed (if applicable) */
   verifiedAt?: Date;
+  /** Moderator who approved the verification (if logged) */
+  approvedBy?: string;
 }
 
 /**
  * Verification statistics for a guild
  */
 export interface VerificationStats {
-  /** Total verification requests */
+  /** Start of the period covered, undefined for all time */
+  since?: Date;
+  /** Total verification requests (ID submissions) */
   totalRequests: number;
   /** Number of approved verifications */
   approved: number;
-  /** Number of denied verifications */
+  /** Number of denied verifications, whatever happened to the user */
   denied: number;
-  /** Number of pending verifications */
+  /** Number of times a new photo was requested */
+  resubmissionsRequested: number;
+  /** Number of verifications that expired before an upload */
+  timedOut: number;
+  /** Number of verifications currently awaiting review */
   pending: number;
   /** Success rate (approved / total completed) */
   successRate: number;
   /** Average processing time in milliseconds */
   averageProcessingTime: number;
+  /** Median time from submission to decision in milliseconds */
+  medianProcessingTime: number;
+  /** Decisions per moderator, most active first */
+  moderators: VerificationModeratorStats[];
+}
+
+/**
+ * Decisions made by one moderator
+ */
+export interface VerificationModeratorStats {
+  /** Moderator user ID */
+  moderatorId: string;
+  /** Verifications they approved */
+  approved: number;
+  /** Verifications they denied */
+  denied: number;
+  /** Resubmissions they requested */
+  resubmissionsRequested: number;
 }
 
 //=============================================================================
@@ -124,12 +154,26 @@ export type VerificationAction =
   | 'started'           // User started verification process
   | 'submitted'         // User submitted ID for review
   | 'approved'          // Moderator approved verification
-  | 'denied'            // Moderator denied verification
+  | 'resubmit_requested' // Moderator asked for a new photo
+  | 'denied'            // Moderator denied verification, user kept as unverified
+  | 'denied_kicked'     // Moderator denied verification and kicked the user
+  | 'denied_banned'     // Moderator denied verification and banned the user
   | 'expired'           // Verification request expired
   | 'cancelled'         // User cancelled verification
   | 'failed'            // System error during verification
   | 'role_granted'      // Verification roles were granted
-  | 'role_removed';     // Verification roles were removed
+  | 'nsfw_enabled'      // User turned NSFW access on
+  | 'nsfw_disabled';    // User turned NSFW access off
+
+/**
+ * Decisions a moderator can make on a submitted verification
+ */
+export type VerificationDecision = 
+  | 'approve'   // Grant verification
+  | 'resubmit'  // Ask for a new photo, e.g. when it was blurry
+  | 'deny'      // Deny and keep the user as unverified
+  | 'kick'      // Deny and kick the user
+  | 'ban';      // Deny and ban the user
 
 //=============================================================================
 // COMPONENT TYPES
@@ -142,15 +186,19 @@ export const VerificationCustomIds = {
   /** Main verification start button */
   START_VERIFICATION: 'start_verification',
   /** Continue verification in DM */
-  CONTINUE: (userId: string) => `verification_continue_${userId}`,
+  CONTINUE: (guildId: string, userId: string) => `verification_continue_${guildId}_${userId}`,
   /** Cancel verification in DM */
-  CANCEL: (userId: string) => `verification_cancel_${userId}`,
+  CANCEL: (guildId: string, userId: string) => `verification_cancel_${guildId}_${userId}`,
   /** Upload ID button */
-  UPLOAD: (userId: string) => `verification_upload_${userId}`,
-  /** Approve verification (mod) */
+  UPLOAD: (guildId: string, userId: string) => `verification_upload_${guildId}_${userId}`,
+  /** Approve verification (mod, reviews posted before the decision menu) */
   APPROVE: (userId: string) => `approve_verification_${userId}`,
-  /** Deny verification (mod) */
+  /** Deny verification (mod, reviews posted before the decision menu) */
   DENY: (userId: string) => `deny_verification_${userId}`,
+  /** Decision menu on a review (mod) */
+  DECISION: (userId: string) => `verification_decision_${userId}`,
+  /** Reason modal for a decision (mod) */
+  REASON: (decision: VerificationDecision, userId: string) => `verification_reason_${decision}_${userId}`,
   /** Verification modal */
   MODAL: (userId: string) => `verification_modal_${userId}`
 } as const;
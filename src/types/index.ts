@@ -54,6 +54,8 @@ export interface BotSystem {
   cleanup?: () => Promise<void> | void;
   /** Whether this system is enabled */
   enabled: boolean;
+  /** Names of systems that must be set up before this one */
+  dependencies?: string[];
 }
 
 /**
@@ -0,0 +1,298 @@
+/**
+ * Chart Rendering
+ * --------------
+ * Draws simple line and bar charts straight to PNG, so stats need no canvas library or chart service
+ */
+
+import zlib from 'zlib';
+
+//=============================================================================
+// TYPES
+//=============================================================================
+
+export type RGB = [number, number, number];
+
+export interface ChartSeries {
+  values: number[];
+  color: RGB;
+}
+
+export interface ChartOptions {
+  type: 'line' | 'bar';
+  labels: string[];
+  series: ChartSeries[];
+  width?: number;
+  height?: number;
+}
+
+//=============================================================================
+// CONSTANTS
+//=============================================================================
+
+// Matches Discord's dark embed background
+const BACKGROUND: RGB = [43, 45, 49];
+const GRID: RGB = [63, 65, 71];
+const AXIS: RGB = [128, 132, 142];
+const TEXT: RGB = [181, 186, 193];
+
+export const CHART_COLORS = {
+  blue: [88, 101, 242] as RGB,
+  green: [87, 242, 135] as RGB,
+  red: [237, 66, 69] as RGB,
+  yellow: [254, 231, 92] as RGB
+};
+
+const MARGIN = { top: 20, right: 20, bottom: 36, left: 56 };
+const GRID_LINES = 4;
+const MAX_X_LABELS = 10;
+const FONT_SCALE = 2;
+
+// 3x5 pixel glyphs, enough for axis numbers and MM-DD dates
+const GLYPHS: Record<string, string[]> = {
+  '0': ['111', '101', '101', '101', '111'],
+  '1': ['010', '110', '010', '010', '111'],
+  '2': ['111', '001', '111', '100', '111'],
+  '3': ['111', '001', '111', '001', '111'],
+  '4': ['101', '101', '111', '001', '001'],
+  '5': ['111', '100', '111', '001', '111'],
+  '6': ['111', '100', '111', '101', '111'],
+  '7': ['111', '001', '010', '010', '010'],
+  '8': ['111', '101', '111', '101', '111'],
+  '9': ['111', '101', '111', '001', '111'],
+  '-': ['000', '000', '111', '000', '000'],
+  '.': ['000', '000', '000', '000', '010'],
+  'k': ['100', '101', '110', '101', '101'],
+  'M': ['101', '111', '111', '101', '101'],
+  '#': ['101', '111', '101', '111', '101'],
+  ' ': ['000', '000', '000', '000', '000']
+};
+
+//=============================================================================
+// CANVAS
+//=============================================================================
+
+/**
+ * An RGB pixel buffer with the few drawing operations charts need
+ */
+class Canvas {
+  readonly pixels: Buffer;
+
+  constructor(readonly width: number, readonly height: number, background: RGB) {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  setPixel(x: number, y: number, color: RGB): void {
+    x = Math.round(x);
+    y = Math.round(y);
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+
+    const offset = (y * this.width + x) * 3;
+    this.pixels[offset] = color[0];
+    this.pixels[offset + 1] = color[1];
+    this.pixels[offset + 2] = color[2];
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: RGB): void {
+    for (let row = Math.round(y); row < Math.round(y + height); row++) {
+      for (let column = Math.round(x); column < Math.round(x + width); column++) {
+        this.setPixel(column, row, color);
+      }
+    }
+  }
+
+  /**
+   * Draw a line by stepping along its longer axis, stamping a square brush
+   */
+  drawLine(x1: number, y1: number, x2: number, y2: number, color: RGB, thickness: number = 1): void {
+    const steps = Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1), 1);
+    const offset = Math.floor(thickness / 2);
+
+    for (let step = 0; step <= steps; step++) {
+      const x = x1 + ((x2 - x1) * step) / steps;
+      const y = y1 + ((y2 - y1) * step) / steps;
+      this.fillRect(Math.round(x) - offset, Math.round(y) - offset, thickness, thickness, color);
+    }
+  }
+
+  drawText(text: string, x: number, y: number, color: RGB): void {
+    let cursor = x;
+
+    for (const char of text) {
+      const glyph = GLYPHS[char] || GLYPHS[' '];
+
+      glyph.forEach((row, rowIndex) => {
+        for (let column = 0; column < row.length; column++) {
+          if (row[column] === '1') {
+            this.fillRect(cursor + column * FONT_SCALE, y + rowIndex * FONT_SCALE, FONT_SCALE, FONT_SCALE, color);
+          }
+        }
+      });
+
+      cursor += 4 * FONT_SCALE;
+    }
+  }
+
+  toPng(): Buffer {
+    // Each scanline starts with its filter type, 0 for none
+    const raw = Buffer.alloc((this.width * 3 + 1) * this.height);
+    for (let row = 0; row < this.height; row++) {
+      this.pixels.copy(raw, row * (this.width * 3 + 1) + 1, row * this.width * 3, (row + 1) * this.width * 3);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Truecolor
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', zlib.deflateSync(raw)),
+      pngChunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+}
+
+//=============================================================================
+// PNG ENCODING
+//=============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+//=============================================================================
+// CHART RENDERING
+//=============================================================================
+
+/**
+ * Render a line or bar chart as a PNG
+ * Labels are drawn with a tiny built-in font, so keep them to numbers and dates
+ */
+export function renderChart(options: ChartOptions): Buffer {
+  const width = options.width || 800;
+  const height = options.height || 360;
+  const canvas = new Canvas(width, height, BACKGROUND);
+
+  const plot = {
+    left: MARGIN.left,
+    top: MARGIN.top,
+    width: width - MARGIN.left - MARGIN.right,
+    height: height - MARGIN.top - MARGIN.bottom
+  };
+  const bottom = plot.top + plot.height;
+
+  const maxValue = Math.max(0, ...options.series.flatMap(series => series.values));
+  const step = getNiceStep(maxValue / GRID_LINES);
+  const scaleMax = step * GRID_LINES;
+  const toY = (value: number) => bottom - (value / scaleMax) * plot.height;
+
+  // Grid and y axis labels
+  for (let line = 0; line <= GRID_LINES; line++) {
+    const y = Math.round(toY(step * line));
+    canvas.drawLine(plot.left, y, plot.left + plot.width, y, line === 0 ? AXIS : GRID);
+
+    const label = formatAxisValue(step * line);
+    canvas.drawText(label, plot.left - 8 - textWidth(label), y - 5 * FONT_SCALE / 2, TEXT);
+  }
+
+  const count = options.labels.length;
+  if (count === 0) return canvas.toPng();
+
+  // Bars sit in the middle of equal slots, line points on evenly spaced ticks
+  const slot = plot.width / count;
+  const toX = options.type === 'bar'
+    ? (index: number) => plot.left + slot * (index + 0.5)
+    : (index: number) => count === 1 ? plot.left + plot.width / 2 : plot.left + (plot.width * index) / (count - 1);
+
+  if (options.type === 'bar') {
+    const groupWidth = Math.max(1, slot * 0.7);
+    const barWidth = Math.max(1, groupWidth / options.series.length);
+
+    options.series.forEach((series, seriesIndex) => {
+      series.values.forEach((value, index) => {
+        const x = toX(index) - groupWidth / 2 + barWidth * seriesIndex;
+        const y = toY(value);
+        canvas.fillRect(x, y, Math.max(1, barWidth - 1), bottom - y, series.color);
+      });
+    });
+  } else {
+    for (const series of options.series) {
+      for (let index = 1; index < series.values.length; index++) {
+        canvas.drawLine(toX(index - 1), toY(series.values[index - 1]), toX(index), toY(series.values[index]), series.color, 2);
+      }
+
+      // Points only while they're far enough apart to tell apart
+      if (slot >= 12 || series.values.length === 1) {
+        series.values.forEach((value, index) => {
+          canvas.fillRect(toX(index) - 3, toY(value) - 3, 6, 6, series.color);
+        });
+      }
+    }
+  }
+
+  // X axis labels, thinned out so they don't overlap and kept inside the plot so the end ones aren't clipped
+  const labelEvery = Math.ceil(count / MAX_X_LABELS);
+  options.labels.forEach((label, index) => {
+    if (index % labelEvery !== 0) return;
+
+    const labelWidth = textWidth(label);
+    const x = Math.min(Math.max(toX(index) - labelWidth / 2, plot.left), plot.left + plot.width - labelWidth);
+    canvas.drawText(label, x, bottom + 10, TEXT);
+  });
+
+  return canvas.toPng();
+}
+
+//=============================================================================
+// HELPERS
+//=============================================================================
+
+/**
+ * Round a grid step up to 1, 2 or 5 times a power of ten
+ */
+function getNiceStep(rough: number): number {
+  if (rough <= 1) return 1;
+
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+
+  return nice * magnitude;
+}
+
+function formatAxisValue(value: number): string {
+  if (value >= 1000000) return `${+(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${+(value / 1000).toFixed(1)}k`;
+  return `${value}`;
+}
+
+function textWidth(text: string): number {
+  return text.length * 4 * FONT_SCALE - FONT_SCALE;
+}
@@ -4,7 +4,7 @@
  * Common utility functions used throughout the bot
  */
 
-import { Client, EmbedBuilder, PermissionFlagsBits } from 'discord.js';
+import { ChatInputCommandInteraction, Client, EmbedBuilder, PermissionFlagsBits, Team } from 'discord.js';
 import { LogLevel, LogMessage, Duration } from '../types';
 
 //=============================================================================
@@ -197,6 +197,29 @@ export function isAdministrator(member: any): boolean {
   return hasPermissions(member, [PermissionFlagsBits.Administrator]);
 }
 
+/**
+ * Check if a user owns the bot: the application owner, a member of the owning team,
+ * or listed in BOT_OWNER_IDS
+ */
+export async function isBotOwner(client: Client, userId: string): Promise<boolean> {
+  const configuredOwners = (process.env.BOT_OWNER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  
+  if (configuredOwners.includes(userId)) return true;
+  if (!client.application) return false;
+  
+  const application = client.application.owner ? client.application : await client.application.fetch();
+  const owner = application.owner;
+  
+  if (owner instanceof Team) {
+    return owner.members.has(userId);
+  }
+  
+  return owner?.id === userId;
+}
+
 /**
  * Check if a user can manage roles
  */
@@ -361,6 +384,23 @@ export async function safeExecute<T>(
   }
 }
 
+// Errors commands caught and answered themselves, so usage tracking still records them as failures
+const commandFailures = new WeakMap<ChatInputCommandInteraction, unknown>();
+
+/**
+ * Mark a command run as failed from the command's own error handling
+ */
+export function markCommandFailed(interaction: ChatInputCommandInteraction, error: unknown): void {
+  commandFailures.set(interaction, error ?? 'Command failed');
+}
+
+/**
+ * Get the error a command marked its run as failed with, or null if it didn't
+ */
+export function getCommandFailure(interaction: ChatInputCommandInteraction): unknown {
+  return commandFailures.get(interaction) ?? null;
+}
+
 /**
  * Create a timeout promise that rejects after specified time
  */
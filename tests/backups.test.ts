@@ -0,0 +1,147 @@
+/**
+ * Backup Tests
+ * ------------
+ * Rotation of backup files and the checks a backup must pass before it is restored
+ */
+
+import { TEST_DIR } from './setup';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { BACKUP_DIR } from '../src/database';
+import { migrateUp } from '../src/database/migrator';
+import { checkBackupIntegrity, listBackups, pruneBackups } from '../src/database/backups';
+
+/**
+ * Create an empty backup file named as backupDatabase would for the given time
+ */
+function createBackupFile(isoTime: string): string {
+  const filename = `bot-backup-${isoTime.replace(/[:.]/g, '-')}.db`;
+  fs.writeFileSync(path.join(BACKUP_DIR, filename), '');
+  return filename;
+}
+
+function getRemainingFilenames(): string[] {
+  return fs.readdirSync(BACKUP_DIR).sort();
+}
+
+/**
+ * Create a database with every migration applied, as a backup of the bot's database would be
+ */
+function createMigratedDatabase(name: string): string {
+  const filePath = path.join(TEST_DIR, name);
+  const db = new Database(filePath);
+  migrateUp(db);
+  db.close();
+  return filePath;
+}
+
+describe('pruneBackups', () => {
+  beforeEach(() => {
+    fs.rmSync(BACKUP_DIR, { recursive: true, force: true });
+    fs.mkdirSync(BACKUP_DIR, { recursive: true });
+  });
+
+  // Monday 19 October back to Sunday 27 September
+  const times = {
+    mondayLate: '2026-10-19T12:00:00.000Z',
+    mondayEarly: '2026-10-19T06:00:00.000Z',
+    sundayLate: '2026-10-18T12:00:00.000Z',
+    sundayEarly: '2026-10-18T06:00:00.000Z',
+    saturday: '2026-10-17T12:00:00.000Z',
+    friday: '2026-10-16T12:00:00.000Z',
+    weekAgo: '2026-10-11T12:00:00.000Z',
+    twoWeeksAgo: '2026-10-04T12:00:00.000Z',
+    threeWeeksAgo: '2026-09-27T12:00:00.000Z'
+  };
+
+  it('lists backups newest first', () => {
+    createBackupFile(times.friday);
+    createBackupFile(times.mondayLate);
+    createBackupFile(times.weekAgo);
+
+    assert.deepEqual(
+      listBackups().map(backup => backup.createdAt.toISOString()),
+      [times.mondayLate, times.friday, times.weekAgo]
+    );
+  });
+
+  it('keeps the most recent backups whatever their date', () => {
+    const files = Object.values(times).map(createBackupFile);
+
+    const removed = pruneBackups({ keepLast: 4, keepDaily: 0, keepWeekly: 0 });
+
+    assert.deepEqual(getRemainingFilenames(), files.slice(0, 4).sort());
+    assert.equal(removed.length, files.length - 4);
+  });
+
+  it('keeps the newest backup of each recent day and week', () => {
+    const files = Object.fromEntries(
+      Object.entries(times).map(([name, time]) => [name, createBackupFile(time)])
+    ) as Record<keyof typeof times, string>;
+
+    pruneBackups({ keepLast: 1, keepDaily: 2, keepWeekly: 3 });
+
+    // Weeks start on Monday, so Sunday the 18th is the newest of the previous week
+    assert.deepEqual(getRemainingFilenames(), [files.mondayLate, files.sundayLate, files.weekAgo].sort());
+  });
+
+  it('leaves files it did not create alone', () => {
+    createBackupFile(times.mondayLate);
+    createBackupFile(times.friday);
+    fs.writeFileSync(path.join(BACKUP_DIR, 'bot-pre-restore-2026-10-01T00-00-00-000Z.db'), '');
+    fs.writeFileSync(path.join(BACKUP_DIR, 'notes.txt'), '');
+
+    pruneBackups({ keepLast: 1, keepDaily: 0, keepWeekly: 0 });
+
+    assert.deepEqual(getRemainingFilenames(), [
+      'bot-backup-2026-10-19T12-00-00-000Z.db',
+      'bot-pre-restore-2026-10-01T00-00-00-000Z.db',
+      'notes.txt'
+    ]);
+  });
+});
+
+describe('checkBackupIntegrity', () => {
+  it('passes an intact copy of the bot\'s database', () => {
+    const result = checkBackupIntegrity(createMigratedDatabase('intact.db'));
+
+    assert.deepEqual(result, { ok: true, problems: [] });
+  });
+
+  it('rejects a file that is not a SQLite database', () => {
+    const filePath = path.join(TEST_DIR, 'not-a-database.db');
+    fs.writeFileSync(filePath, 'definitely not SQLite, just some text that is long enough to have a header');
+
+    const result = checkBackupIntegrity(filePath);
+
+    assert.equal(result.ok, false);
+    assert.match(result.problems[0], /Could not read the file/);
+  });
+
+  it('rejects a database without a migrations table', () => {
+    const filePath = path.join(TEST_DIR, 'other.db');
+    const db = new Database(filePath);
+    db.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY)');
+    db.close();
+
+    const result = checkBackupIntegrity(filePath);
+
+    assert.equal(result.ok, false);
+    assert.match(result.problems.join('\n'), /No migrations table/);
+  });
+
+  it('rejects a backup from a newer schema', () => {
+    const filePath = createMigratedDatabase('newer.db');
+    const db = new Database(filePath);
+    db.prepare('INSERT INTO migrations (filename, checksum) VALUES (?, ?)').run('999_future.sql', 'future');
+    db.close();
+
+    const result = checkBackupIntegrity(filePath);
+
+    assert.equal(result.ok, false);
+    assert.match(result.problems.join('\n'), /999_future\.sql/);
+  });
+});
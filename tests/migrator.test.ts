@@ -0,0 +1,134 @@
+/**
+ * Migrator Tests
+ * --------------
+ * Applying, reverting and dry runs, and checksum drift against the repository's migrations
+ */
+
+import { TEST_DIR } from './setup';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  getMigrationStatus,
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+  MigrationDriftError
+} from '../src/database/migrator';
+
+let db: Database.Database;
+let databaseCount = 0;
+
+function getAppliedFilenames(): string[] {
+  return (db.prepare('SELECT filename FROM migrations ORDER BY id').all() as { filename: string }[])
+    .map(row => row.filename);
+}
+
+beforeEach(() => {
+  db = new Database(path.join(TEST_DIR, `migrator-${++databaseCount}.db`));
+});
+
+afterEach(() => {
+  db.close();
+});
+
+describe('loadMigrations', () => {
+  it('orders migrations by version without down files or helpers', () => {
+    const migrations = loadMigrations();
+    const versions = migrations.map(migration => migration.version);
+
+    assert.deepEqual(versions, [...versions].sort((a, b) => a - b));
+    assert.equal(new Set(versions).size, versions.length);
+    assert.ok(migrations.every(migration => !migration.filename.endsWith('.down.sql')));
+    assert.ok(migrations.every(migration => /^\d+_/.test(migration.filename)));
+  });
+});
+
+describe('migrateUp', () => {
+  it('applies every migration once', () => {
+    const results = migrateUp(db);
+
+    assert.deepEqual(results.map(result => result.filename), loadMigrations().map(migration => migration.filename));
+    assert.deepEqual(getAppliedFilenames(), loadMigrations().map(migration => migration.filename));
+    assert.deepEqual(migrateUp(db), []);
+  });
+
+  it('reports the SQL of a dry run without applying it', () => {
+    const results = migrateUp(db, { dryRun: true });
+
+    assert.equal(results.length, loadMigrations().length);
+    assert.ok(results[0].statements.length > 0);
+    assert.deepEqual(getAppliedFilenames(), []);
+    assert.equal(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'scheduled_jobs'`).get(), undefined);
+  });
+
+  it('refuses to run when an applied migration has changed', () => {
+    migrateUp(db);
+    const [first] = loadMigrations();
+    db.prepare('UPDATE migrations SET checksum = ? WHERE filename = ?').run('edited', first.filename);
+
+    assert.throws(() => migrateUp(db), (error: unknown) => {
+      assert.ok(error instanceof MigrationDriftError);
+      assert.deepEqual(error.filenames, [first.filename]);
+      return true;
+    });
+  });
+
+  it('records checksums for migrations applied before they were tracked', () => {
+    migrateUp(db);
+    db.prepare('UPDATE migrations SET checksum = NULL').run();
+
+    migrateUp(db);
+
+    const untracked = db.prepare('SELECT COUNT(*) as count FROM migrations WHERE checksum IS NULL').get() as { count: number };
+    assert.equal(untracked.count, 0);
+  });
+});
+
+describe('migrateDown', () => {
+  it('reverts the newest migrations so they can be applied again', () => {
+    migrateUp(db);
+    const migrations = loadMigrations();
+    const newest = migrations[migrations.length - 1];
+
+    assert.deepEqual(migrateDown(db, 1).map(result => result.filename), [newest.filename]);
+    assert.equal(getAppliedFilenames().includes(newest.filename), false);
+
+    assert.deepEqual(migrateUp(db).map(result => result.filename), [newest.filename]);
+  });
+
+  it('reverts nothing in a dry run', () => {
+    migrateUp(db);
+    const applied = getAppliedFilenames();
+
+    const results = migrateDown(db, 2, { dryRun: true });
+
+    assert.equal(results.length, 2);
+    assert.deepEqual(getAppliedFilenames(), applied);
+  });
+
+  it('refuses to revert a migration whose file is gone', () => {
+    migrateUp(db);
+    db.prepare('INSERT INTO migrations (filename, checksum) VALUES (?, ?)').run('999_removed.sql', 'gone');
+
+    assert.throws(() => migrateDown(db, 1), /the migration file is missing/);
+    assert.ok(getAppliedFilenames().includes('999_removed.sql'));
+  });
+});
+
+describe('getMigrationStatus', () => {
+  it('reports pending, applied, changed and missing migrations', () => {
+    const [first, second] = loadMigrations();
+    assert.ok(getMigrationStatus(db).every(status => status.state === 'pending'));
+
+    migrateUp(db);
+    db.prepare('UPDATE migrations SET checksum = ? WHERE filename = ?').run('edited', second.filename);
+    db.prepare('INSERT INTO migrations (filename, checksum) VALUES (?, ?)').run('999_removed.sql', 'gone');
+
+    const states = new Map(getMigrationStatus(db).map(status => [status.filename, status.state]));
+    assert.equal(states.get(first.filename), 'applied');
+    assert.equal(states.get(second.filename), 'changed');
+    assert.equal(states.get('999_removed.sql'), 'missing');
+  });
+});
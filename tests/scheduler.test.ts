@@ -0,0 +1,137 @@
+/**
+ * Scheduler Tests
+ * ---------------
+ * Dedupe keys, retries and restart recovery of the persistent job scheduler
+ */
+
+import './setup';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from 'discord.js';
+import { closeDatabase, initializeDatabase } from '../src/database';
+import { ScheduledJobModel } from '../src/database/models/scheduler';
+import { cancelJob, registerJobHandler, runDueJobs, scheduleJob } from '../src/systems/scheduler';
+
+// Handlers here never touch Discord
+const client = {} as Client;
+
+const PAST = () => Date.now() - 60 * 1000;
+const FUTURE = () => Date.now() + 60 * 60 * 1000;
+
+before(async () => {
+  await initializeDatabase();
+});
+
+after(() => {
+  closeDatabase();
+});
+
+describe('scheduleJob', () => {
+  it('reschedules the pending job that shares a dedupe key', async () => {
+    const first = await scheduleJob('test-dedupe', FUTURE(), { value: 1 }, { dedupeKey: 'dedupe' });
+    const second = await scheduleJob('test-dedupe', FUTURE(), { value: 2 }, { dedupeKey: 'dedupe' });
+
+    assert.equal(second, first);
+    assert.deepEqual(JSON.parse((await ScheduledJobModel.getById(first))!.payload), { value: 2 });
+  });
+
+  it('creates separate jobs without a dedupe key', async () => {
+    const first = await scheduleJob('test-plain', FUTURE());
+    const second = await scheduleJob('test-plain', FUTURE());
+
+    assert.notEqual(second, first);
+  });
+});
+
+describe('cancelJob', () => {
+  it('cancels the pending job for a key', async () => {
+    const jobId = await scheduleJob('test-cancel', FUTURE(), {}, { dedupeKey: 'cancel' });
+
+    assert.equal(await cancelJob('cancel'), true);
+    assert.equal((await ScheduledJobModel.getById(jobId))!.status, 'CANCELLED');
+    assert.equal(await cancelJob('cancel'), false);
+  });
+});
+
+describe('runDueJobs', () => {
+  it('runs due jobs with their payload and completes them', async () => {
+    const payloads: unknown[] = [];
+    registerJobHandler('test-run', async (_client, payload) => {
+      payloads.push(payload);
+    });
+
+    const due = await scheduleJob('test-run', PAST(), { value: 'due' });
+    const later = await scheduleJob('test-run', FUTURE(), { value: 'later' });
+
+    await runDueJobs(client);
+
+    assert.deepEqual(payloads, [{ value: 'due' }]);
+    assert.equal((await ScheduledJobModel.getById(due))!.status, 'COMPLETED');
+    assert.equal((await ScheduledJobModel.getById(later))!.status, 'PENDING');
+  });
+
+  it('retries a failed job later until it runs out of attempts', async () => {
+    registerJobHandler('test-retry', async () => {
+      throw new Error('still broken');
+    });
+
+    const jobId = await scheduleJob('test-retry', PAST(), {}, { maxAttempts: 2 });
+
+    await runDueJobs(client);
+
+    const retried = (await ScheduledJobModel.getById(jobId))!;
+    assert.equal(retried.status, 'PENDING');
+    assert.equal(retried.attempts, 1);
+    assert.equal(retried.last_error, 'still broken');
+    assert.equal((await ScheduledJobModel.getDue()).some(job => job.id === jobId), false);
+
+    await ScheduledJobModel.fail(jobId, 'still broken', PAST());
+    await runDueJobs(client);
+
+    const failed = (await ScheduledJobModel.getById(jobId))!;
+    assert.equal(failed.status, 'FAILED');
+    assert.equal(failed.attempts, 2);
+  });
+
+  it('drops the retry of a job rescheduled while it ran', async () => {
+    registerJobHandler('test-reschedule', async () => {
+      await scheduleJob('test-reschedule', FUTURE(), {}, { dedupeKey: 'reschedule' });
+      throw new Error('failed after rescheduling');
+    });
+
+    const jobId = await scheduleJob('test-reschedule', PAST(), {}, { dedupeKey: 'reschedule' });
+
+    await runDueJobs(client);
+
+    const pending = await ScheduledJobModel.getPendingByDedupeKey('reschedule');
+    assert.equal((await ScheduledJobModel.getById(jobId))!.status, 'FAILED');
+    assert.ok(pending);
+    assert.notEqual(pending.id, jobId);
+  });
+
+  it('fails jobs that have no handler', async () => {
+    const jobId = await scheduleJob('test-unhandled', PAST(), {}, { maxAttempts: 1 });
+
+    await runDueJobs(client);
+
+    const job = (await ScheduledJobModel.getById(jobId))!;
+    assert.equal(job.status, 'FAILED');
+    assert.match(job.last_error!, /No handler registered/);
+  });
+});
+
+describe('ScheduledJobModel.requeueStale', () => {
+  it('requeues interrupted jobs, cancelling those rescheduled while they ran', async () => {
+    const interrupted = await scheduleJob('test-stale', FUTURE(), {}, { dedupeKey: 'stale-interrupted' });
+    const superseded = await scheduleJob('test-stale', FUTURE(), {}, { dedupeKey: 'stale-superseded' });
+    await ScheduledJobModel.claim(interrupted);
+    await ScheduledJobModel.claim(superseded);
+
+    const replacement = await scheduleJob('test-stale', FUTURE(), {}, { dedupeKey: 'stale-superseded' });
+
+    assert.equal(await ScheduledJobModel.requeueStale(), 1);
+    assert.equal((await ScheduledJobModel.getById(interrupted))!.status, 'PENDING');
+    assert.equal((await ScheduledJobModel.getById(superseded))!.status, 'CANCELLED');
+    assert.equal((await ScheduledJobModel.getById(replacement))!.status, 'PENDING');
+  });
+});
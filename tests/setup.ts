@@ -0,0 +1,19 @@
+/**
+ * Test Setup
+ * ----------
+ * Points the database and backups at a throwaway directory
+ * Import this before anything that reaches the database, as its paths are read once on load
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const TEST_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'roommates-helper-test-'));
+
+process.env.DATABASE_PATH = path.join(TEST_DIR, 'bot.db');
+process.env.BACKUP_DIR = path.join(TEST_DIR, 'backups');
+
+process.on('exit', () => {
+  fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
@@ -0,0 +1,79 @@
+/**
+ * System Registry Tests
+ * ---------------------
+ * Setup order from declared dependencies
+ */
+
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BotSystem } from '../src/types';
+import { resolveSystemOrder } from '../src/systems';
+
+function createSystem(name: string, dependencies?: string[]): BotSystem {
+  return { name, enabled: true, dependencies, setup: () => {} };
+}
+
+function getNames(systems: BotSystem[]): string[] {
+  return systems.map(system => system.name);
+}
+
+describe('resolveSystemOrder', () => {
+  it('keeps registry order when nothing depends on anything', () => {
+    const systems = [createSystem('Logging'), createSystem('Status'), createSystem('Welcome')];
+
+    assert.deepEqual(getNames(resolveSystemOrder(systems)), ['Logging', 'Status', 'Welcome']);
+  });
+
+  it('moves dependencies ahead of the systems that need them', () => {
+    const systems = [
+      createSystem('Backups', ['Scheduler']),
+      createSystem('Moderation', ['Scheduler']),
+      createSystem('Logging'),
+      createSystem('Scheduler')
+    ];
+
+    assert.deepEqual(getNames(resolveSystemOrder(systems)), ['Scheduler', 'Backups', 'Moderation', 'Logging']);
+  });
+
+  it('follows dependencies of dependencies', () => {
+    const systems = [
+      createSystem('Appeals', ['Moderation']),
+      createSystem('Moderation', ['Scheduler']),
+      createSystem('Scheduler')
+    ];
+
+    assert.deepEqual(getNames(resolveSystemOrder(systems)), ['Scheduler', 'Moderation', 'Appeals']);
+  });
+
+  it('lists each system once however many depend on it', () => {
+    const systems = [
+      createSystem('Verification', ['Scheduler', 'Logging']),
+      createSystem('Moderation', ['Scheduler', 'Logging']),
+      createSystem('Scheduler', ['Logging']),
+      createSystem('Logging')
+    ];
+
+    assert.deepEqual(getNames(resolveSystemOrder(systems)), ['Logging', 'Scheduler', 'Verification', 'Moderation']);
+  });
+
+  it('rejects a dependency on an unknown system', () => {
+    const systems = [createSystem('Backups', ['Scheduler'])];
+
+    assert.throws(() => resolveSystemOrder(systems), /Backups depends on unknown system Scheduler/);
+  });
+
+  it('rejects a dependency cycle, naming it', () => {
+    const systems = [
+      createSystem('Logging'),
+      createSystem('Moderation', ['Scheduler']),
+      createSystem('Scheduler', ['Verification']),
+      createSystem('Verification', ['Moderation'])
+    ];
+
+    assert.throws(
+      () => resolveSystemOrder(systems),
+      /System dependency cycle: Moderation -> Scheduler -> Verification -> Moderation/
+    );
+  });
+});
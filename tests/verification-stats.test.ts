@@ -0,0 +1,70 @@
+/**
+ * Verification Statistics Tests
+ * -----------------------------
+ * The CSV export of verification decisions
+ */
+
+import './setup';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeDatabase, initializeDatabase } from '../src/database';
+import { VerificationLogModel } from '../src/database/models/verification';
+import { buildVerificationStatsCsv } from '../src/systems/verification/stats';
+
+const GUILD_ID = '100000000000000001';
+const MODERATOR_ID = '100000000000000002';
+
+/**
+ * Log a denial with the given reason and export it
+ * @returns The denial's row, which is the last in the export and may span lines
+ */
+async function exportReason(userId: string, reason: string): Promise<string> {
+  await VerificationLogModel.log(userId, GUILD_ID, 'denied', MODERATOR_ID, { reason });
+
+  const csv = await buildVerificationStatsCsv(GUILD_ID);
+  return csv.slice(csv.lastIndexOf('\n', csv.indexOf(`,${userId},`)) + 1);
+}
+
+before(async () => {
+  await initializeDatabase();
+});
+
+after(() => {
+  closeDatabase();
+});
+
+describe('buildVerificationStatsCsv', () => {
+  it('starts with the header row', async () => {
+    const csv = await buildVerificationStatsCsv(GUILD_ID);
+
+    assert.equal(csv.split('\n')[0], 'timestamp,user_id,moderator_id,action,submitted_at,decision_seconds,reason');
+  });
+
+  it('leaves plain values unquoted', async () => {
+    const row = await exportReason('200000000000000001', 'Blurry photo');
+
+    assert.ok(row.endsWith(`,200000000000000001,${MODERATOR_ID},denied,,,Blurry photo`));
+  });
+
+  it('quotes values with separators, quotes and line breaks', async () => {
+    assert.ok((await exportReason('200000000000000002', 'Expired, try again')).endsWith(',"Expired, try again"'));
+    assert.ok((await exportReason('200000000000000003', 'Said "18" but')).endsWith(',"Said ""18"" but"'));
+    assert.ok((await exportReason('200000000000000004', 'First line\nSecond line')).endsWith(',"First line\nSecond line"'));
+  });
+
+  it('defuses values a spreadsheet would run as a formula', async () => {
+    assert.ok((await exportReason('200000000000000005', '=HYPERLINK("x")')).endsWith(`,"'=HYPERLINK(""x"")"`));
+    assert.ok((await exportReason('200000000000000006', '+1 day')).endsWith(`,'+1 day`));
+    assert.ok((await exportReason('200000000000000007', '@here')).endsWith(`,'@here`));
+  });
+
+  it('includes the time taken when the submission was logged', async () => {
+    await VerificationLogModel.log('200000000000000008', GUILD_ID, 'submitted');
+    await VerificationLogModel.log('200000000000000008', GUILD_ID, 'approved', MODERATOR_ID);
+
+    const csv = await buildVerificationStatsCsv(GUILD_ID);
+    const row = csv.split('\n').find(line => line.includes('200000000000000008'))!;
+
+    assert.match(row, /,approved,\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2},0,$/);
+  });
+});